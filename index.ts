@@ -4,13 +4,19 @@ import { createLogger } from './src/config/logger';
 import { getDb } from './src/database/db';
 import { IMAPService } from './src/services/imap-service';
 import { EmailProcessor } from './src/jobs/processors/email-processor';
+import { NotificationProcessor } from './src/jobs/processors/notification-processor';
 import { closeQueue } from './src/jobs/queue';
+import { startBillingJob, stopBillingJob } from './src/jobs/billing-job';
+import { startDigestJob, stopDigestJob } from './src/jobs/digest-job';
+import { startSpoolJob, stopSpoolJob } from './src/jobs/spool-job';
 import { startHealthServer, setImapHealthCheck } from './src/services/health-server';
+import { closeTransporter } from './src/services/mail-transport';
 
 const logger = createLogger('main');
 
 let imapService: IMAPService | null = null;
 let emailProcessor: EmailProcessor | null = null;
+let notificationProcessor: NotificationProcessor | null = null;
 let healthServer: http.Server | null = null;
 let isShuttingDown = false;
 
@@ -23,19 +29,28 @@ async function start(): Promise<void> {
     await getDb();
     logger.info('✅ Database connected');
 
-    // 2. Start email processor worker
+    // 2. Start email processor and notification workers
     logger.info('⚙️  Starting email processor worker...');
     emailProcessor = new EmailProcessor();
     await emailProcessor.start();
     logger.info('✅ Email processor worker started');
 
+    notificationProcessor = new NotificationProcessor();
+    await notificationProcessor.start();
+    logger.info('✅ Notification worker started');
+
     // 3. Start IMAP service
     logger.info('📧 Starting IMAP service...');
     imapService = new IMAPService();
     await imapService.start();
     logger.info('✅ IMAP service started');
 
-    // 4. Start health check server
+    // 4. Schedule billing of closed usage periods (Stripe only), notification digests and the API spool sweep
+    startBillingJob();
+    startDigestJob();
+    startSpoolJob();
+
+    // 5. Start health check server
     logger.info('🏥 Starting health check server...');
     const healthPort = process.env.HEALTH_PORT ? parseInt(process.env.HEALTH_PORT) : 3000;
 
@@ -97,6 +112,11 @@ async function shutdown(exitCode = 0): Promise<void> {
       logger.info('✅ IMAP service stopped');
     }
 
+    // Stop scheduled billing, digest and spool sweep runs
+    await stopBillingJob();
+    await stopDigestJob();
+    await stopSpoolJob();
+
     // Stop email processor (allows current jobs to finish)
     if (emailProcessor) {
       logger.info('Stopping email processor...');
@@ -105,11 +125,21 @@ async function shutdown(exitCode = 0): Promise<void> {
       logger.info('✅ Email processor stopped');
     }
 
+    // Stop notification worker (lets in-flight sends finish)
+    if (notificationProcessor) {
+      await notificationProcessor.stop();
+      notificationProcessor = null;
+      logger.info('✅ Notification worker stopped');
+    }
+
     // Close queue connections
     logger.info('Closing queue connections...');
     await closeQueue();
     logger.info('✅ Queue connections closed');
 
+    // Close pooled SMTP connections
+    closeTransporter();
+
     logger.info('✅ Shutdown complete');
     process.exit(exitCode);
   } catch (error) {
@@ -0,0 +1,78 @@
+/**
+ * Admin API key management
+ *
+ * Usage:
+ *   bun run manage-api-keys.ts create <name>   Create an admin key (printed once - store it safely)
+ *   bun run manage-api-keys.ts list            List admin and user keys (prefix, last use, revoked)
+ *   bun run manage-api-keys.ts revoke <id>     Revoke a key
+ *
+ * Uses the same environment as the service (DATABASE_URL, API_KEY_SECRET)
+ */
+
+import { createApiKey, listApiKeys, revokeApiKey } from './src/services/api-keys';
+
+function usage(): never {
+  console.error('Usage: bun run manage-api-keys.ts create <name> | list | revoke <id>');
+  process.exit(1);
+}
+
+async function main() {
+  const [command, arg] = process.argv.slice(2);
+
+  switch (command) {
+    case 'create': {
+      if (!arg) usage();
+      const { key, apiKey } = await createApiKey(arg);
+
+      console.log('\n========================================');
+      console.log('API key created');
+      console.log('========================================\n');
+      console.log(`ID:    ${apiKey.id}`);
+      console.log(`Name:  ${apiKey.name}`);
+      console.log(`Scope: ${apiKey.scope}`);
+      console.log(`\nKey:   ${key}\n`);
+      console.log('This key is shown only once. Send it as: Authorization: Bearer <key>\n');
+      break;
+    }
+
+    case 'list': {
+      const keys = await listApiKeys();
+      if (keys.length === 0) {
+        console.log('No API keys');
+        break;
+      }
+
+      console.table(keys.map((apiKey) => ({
+        id: apiKey.id,
+        name: apiKey.name,
+        scope: apiKey.scope,
+        user: apiKey.userId ?? '',
+        prefix: `${apiKey.keyPrefix}…`,
+        lastUsed: apiKey.lastUsedAt?.toISOString() ?? 'never',
+        revoked: apiKey.revokedAt?.toISOString() ?? '',
+      })));
+      break;
+    }
+
+    case 'revoke': {
+      if (!arg) usage();
+      if (await revokeApiKey(arg)) {
+        console.log(`✅ API key ${arg} revoked`);
+      } else {
+        console.error(`❌ No active API key with ID ${arg}`);
+        process.exit(1);
+      }
+      break;
+    }
+
+    default:
+      usage();
+  }
+
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('❌ Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
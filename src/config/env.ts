@@ -15,6 +15,58 @@ const envSchema = z.object({
   EMAIL_PORT: z.coerce.number().int().positive().default(993),
   EMAIL_TLS: z.coerce.boolean().default(true),
 
+  // Outgoing mail (SMTP) for confirmations and replies - uses OAuth2 if configured, else password
+  // - 'smtp': send through SMTP_HOST (pooled connections)
+  // - 'sink': capture messages in memory and log them instead of sending (tests, local development)
+  SMTP_MODE: z.enum(['smtp', 'sink']).default('smtp'),
+  SMTP_HOST: z.string().default('smtp.office365.com'),
+  SMTP_PORT: z.coerce.number().int().positive().default(587),
+  SMTP_SECURE: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'), // true = TLS on connect (465), false = STARTTLS
+  SMTP_USER: z.string().optional(), // Defaults to EMAIL_USER
+  SMTP_PASSWORD: z.string().optional(), // Defaults to EMAIL_PASSWORD (no auth if neither is set)
+  SMTP_POOL_SIZE: z.coerce.number().int().positive().default(3), // Max pooled SMTP connections
+
+  // Notification delivery (own queue, retried independently of the upload)
+  NOTIFICATION_MAX_ATTEMPTS: z.coerce.number().int().positive().default(5),
+  // Permanent failures (SMTP 5xx, bounce reports) before an address stops getting notifications
+  NOTIFICATION_BOUNCE_LIMIT: z.coerce.number().int().positive().default(2),
+
+  // IMAP Watch Mode
+  // - 'idle': Push notifications via IMAP IDLE (falls back to polling if unsupported)
+  // - 'poll': Search the mailbox on a fixed interval
+  IMAP_MODE: z.enum(['idle', 'poll']).default('idle'),
+  IMAP_POLL_INTERVAL_MS: z.coerce.number().int().positive().default(30000), // 30 seconds
+  IMAP_IDLE_RESYNC_MS: z.coerce.number().int().positive().default(300000), // 5 minutes (safety net in idle mode)
+
+  // Monitored IMAP folders and per-folder routing (comma-separated)
+  // Format: "INBOX,Receipts=private:Receipts,Press=public:Press Releases,[Gmail]/Spam=ignore"
+  // Defaults to INBOX (plus [Gmail]/Spam on Gmail hosts)
+  IMAP_FOLDERS: z.string().optional(),
+
+  // Destination alias routing (comma-separated)
+  // Format: "alias=private|public[:Folder Name][#tag1#tag2]" - plus tags (archive+x@) become tags
+  // Unmatched recipients go to the private drive; local-part aliases only match on EMAIL_USER's domain
+  EMAIL_ROUTES: z.string().default('public-preserve=public'),
+
+  // Archive Contents
+  // ARCHIVE_ATTACHMENTS: also upload each attachment as its own file, in a per-email folder next to the .eml
+  ARCHIVE_ATTACHMENTS: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+  // ARCHIVE_HTML_SNAPSHOT: upload a rendered, self-contained .html of the email next to the .eml
+  // Off by default: it needs a full parse of every email and adds billed bytes
+  ARCHIVE_HTML_SNAPSHOT: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+  // ARCHIVE_PDF_COMMAND: external HTML-to-PDF converter, e.g. "wkhtmltopdf --quiet {input} {output}"
+  ARCHIVE_PDF_COMMAND: z.string().optional(),
+  // ARCHIVE_METADATA: upload a metadata.json sidecar (headers, hashes, auth verdict, entity IDs)
+  // Off by default for the same reasons (full parse, billed bytes); a failed sidecar upload never fails the email
+  ARCHIVE_METADATA: z.enum(['true', 'false']).default('false').transform((value) => value === 'true'),
+  // ARCHIVE_THREADS: group replies (In-Reply-To/References) into a per-thread folder
+  ARCHIVE_THREADS: z.enum(['true', 'false']).default('true').transform((value) => value === 'true'),
+
+  // Custom Arweave tags on public uploads (comma-separated, "none" to disable)
+  // Available: Email-Subject, Email-From-Domain, Email-Date, Email-Message-Id-Hash, Email-Tag
+  // Defaults avoid subject/sender - tags are permanently public on Arweave GraphQL
+  ARWEAVE_TAGS: z.string().default('Email-Date,Email-Message-Id-Hash,Email-Tag'),
+
   // OAuth2 Configuration (optional, for Microsoft 365)
   OAUTH_CLIENT_ID: z.string().optional(),
   OAUTH_CLIENT_SECRET: z.string().optional(),
@@ -31,6 +83,9 @@ const envSchema = z.object({
   // - 'single': Use master wallet for all uploads (simpler, current behavior)
   // - 'multi': Create per-user wallets with Turbo credit sharing (isolated, production-ready)
   WALLET_MODE: z.enum(['single', 'multi']).default('single'),
+  // Wallet export (EXPORT SEED / EXPORT KEYFILE commands, multi mode only)
+  WALLET_EXPORT_CODE_TTL_MS: z.coerce.number().int().positive().default(900000), // 15 minutes to reply with CONFIRM <code>
+  WALLET_EXPORT_MAX_PER_DAY: z.coerce.number().int().positive().default(3),
 
   // Database
   DATABASE_URL: z.string().default('./data/forward.db'),
@@ -44,15 +99,55 @@ const envSchema = z.object({
     .regex(/^[0-9a-fA-F]{64}$/, 'ENCRYPTION_KEY must be valid hex'),
   API_KEY_SECRET: z.string().min(32, 'API_KEY_SECRET must be at least 32 characters'),
 
+  // Archiving over HTTP (POST /api/archive with a user API key, created with the APIKEY command)
+  // Uploads are spooled in API_SPOOL_DIR until the email processor has archived them
+  API_SPOOL_DIR: z.string().default('./data/spool'),
+  API_MAX_UPLOAD_BYTES: z.coerce.number().int().positive().default(104857600), // 100MB (plan limits still apply)
+  API_MAX_KEYS_PER_USER: z.coerce.number().int().positive().default(5), // Active keys per user
+  // Copies of failed uploads are kept this long for admin retries, then removed by the daily spool sweep
+  API_SPOOL_RETENTION_DAYS: z.coerce.number().int().positive().default(7),
+
   // Stripe (optional for MVP, required for production)
   STRIPE_SECRET_KEY: z.string().startsWith('sk_').optional(),
   STRIPE_WEBHOOK_SECRET: z.string().startsWith('whsec_').optional(),
   STRIPE_PRICE_ID: z.string().startsWith('price_').optional(),
+  // Where Stripe Checkout sends users after upgrading / cancelling
+  CHECKOUT_SUCCESS_URL: z.string().url().default('https://app.ardrive.io'),
+  CHECKOUT_CANCEL_URL: z.string().url().default('https://app.ardrive.io'),
+  // When to invoice closed usage periods (cron syntax, default daily at 03:00 - runs are idempotent)
+  BILLING_CRON: z.string().default('0 3 * * *'),
 
   // Billing Configuration
   FREE_EMAILS_PER_MONTH: z.coerce.number().int().nonnegative().default(10),
   COST_PER_EMAIL: z.coerce.number().positive().default(0.10), // $0.10 per email
 
+  // Pricing of billable emails
+  // - 'flat': COST_PER_EMAIL per email
+  // - 'tiered': by size, PRICING_TIERS format "<maxMB>:<usd>,...,*:<usd>"
+  // - 'cost_plus': Turbo storage cost of the email's bytes plus PRICING_MARGIN_PERCENT
+  PRICING_MODEL: z.enum(['flat', 'tiered', 'cost_plus']).default('flat'),
+  PRICING_TIERS: z.string().default('1:0.05,10:0.10,*:0.25'),
+  PRICING_MARGIN_PERCENT: z.coerce.number().nonnegative().default(200),
+  PRICE_QUOTE_TTL_MS: z.coerce.number().int().positive().default(3600000), // 1 hour (Turbo winc/USD quote cache)
+
+  // Plan Limits (bytes; unset = unlimited)
+  // Free plan: FREE_EMAILS_PER_MONTH emails, then uploads are blocked or deferred to next month
+  FREE_BYTES_PER_MONTH: z.coerce.number().int().positive().optional(),
+  FREE_MAX_MESSAGE_BYTES: z.coerce.number().int().positive().default(26214400), // 25MB
+  FREE_OVER_LIMIT_ACTION: z.enum(['block', 'defer']).default('block'),
+  // Paid plan: unlimited emails (billed per email beyond the free tier)
+  PAID_BYTES_PER_MONTH: z.coerce.number().int().positive().optional(),
+  PAID_MAX_MESSAGE_BYTES: z.coerce.number().int().positive().optional(),
+
+  // Archive notifications (per-user preference, set with the NOTIFY command)
+  // Digests for NOTIFY DAILY / NOTIFY WEEKLY users are sent by DIGEST_CRON
+  DIGEST_CRON: z.string().default('0 8 * * *'), // Daily at 08:00
+  DIGEST_WEEKLY_DAY: z.coerce.number().int().min(0).max(6).default(1), // Weekly digests go out on this day (0 = Sunday)
+
+  // Notification templates: a file in TEMPLATE_DIR (e.g. welcome.html, partials/usage.txt)
+  // replaces the built-in one from src/templates with the same name
+  TEMPLATE_DIR: z.string().optional(),
+
   // Email Allowlist (comma-separated)
   // Format: "user1@example.com,user2@example.com,*@example.org"
   FORWARD_ALLOWED_EMAILS: z.string().min(1, 'FORWARD_ALLOWED_EMAILS is required'),
@@ -0,0 +1,87 @@
+import { config } from './env';
+
+export type DriveType = 'private' | 'public';
+
+/**
+ * Routing rule for a monitored IMAP folder
+ */
+export interface FolderRule {
+  folder: string; // IMAP folder path
+  ignore: boolean; // Never poll this folder
+  driveType?: DriveType; // Overrides address-based drive selection
+  destinationFolder?: string; // Named ArDrive folder (under the drive root) to archive into
+}
+
+/**
+ * Parse a route target: "ignore" | "private" | "public", optionally followed by ":Destination Folder"
+ */
+export function parseRouteTarget(target: string): Omit<FolderRule, 'folder'> {
+  const [type = '', ...rest] = target.split(':');
+  const kind = type.trim().toLowerCase();
+  const destinationFolder = rest.join(':').trim();
+
+  if (kind === 'ignore') {
+    return { ignore: true };
+  }
+
+  if (kind !== 'private' && kind !== 'public') {
+    throw new Error(`Invalid route target "${target}" (expected ignore, private or public)`);
+  }
+
+  return {
+    ignore: false,
+    driveType: kind,
+    ...(destinationFolder ? { destinationFolder } : {}),
+  };
+}
+
+/**
+ * Parse IMAP_FOLDERS
+ * Format: comma-separated "Folder" or "Folder=target"
+ * Example: "INBOX,Receipts=private:Receipts,Press=public:Press Releases,[Gmail]/Spam=ignore"
+ *
+ * When unset, monitors INBOX (plus [Gmail]/Spam on Gmail hosts)
+ */
+export function parseFolderRules(value: string | undefined, emailHost: string): FolderRule[] {
+  if (!value || !value.trim()) {
+    const defaults = emailHost.includes('gmail') ? ['INBOX', '[Gmail]/Spam'] : ['INBOX'];
+    return defaults.map((folder) => ({ folder, ignore: false }));
+  }
+
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf('=');
+      if (separator === -1) {
+        return { folder: entry, ignore: false };
+      }
+
+      const folder = entry.slice(0, separator).trim();
+      if (!folder) {
+        throw new Error(`Invalid IMAP_FOLDERS entry "${entry}" (missing folder name)`);
+      }
+
+      return { folder, ...parseRouteTarget(entry.slice(separator + 1)) };
+    });
+}
+
+let cachedRules: FolderRule[] | null = null;
+
+/**
+ * Get all configured folder rules (including ignored folders)
+ */
+export function getFolderRules(): FolderRule[] {
+  if (!cachedRules) {
+    cachedRules = parseFolderRules(config.IMAP_FOLDERS, config.EMAIL_HOST);
+  }
+  return cachedRules;
+}
+
+/**
+ * Get folders that should be polled
+ */
+export function getMonitoredFolders(): FolderRule[] {
+  return getFolderRules().filter((rule) => !rule.ignore);
+}
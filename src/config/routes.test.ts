@@ -0,0 +1,56 @@
+import { describe, test, expect } from 'bun:test';
+import { parseAliasRoutes, resolveAddressRoute } from './routes';
+
+const routes = parseAliasRoutes([
+  'archive@example.com=private:Archive',
+  'archive+legal@example.com=private:Legal#contracts',
+  'press+release=public:Press',
+  'press=public',
+].join(','));
+
+describe('resolveAddressRoute', () => {
+  test('matches a full-address alias', () => {
+    expect(resolveAddressRoute(['Archive@Example.com'], routes)).toEqual({
+      driveType: 'private',
+      destinationFolder: 'Archive',
+      tags: [],
+      matchedAddress: 'archive@example.com',
+    });
+  });
+
+  test('strips the plus tag before matching a full-address alias', () => {
+    expect(resolveAddressRoute(['archive+project-x@example.com'], routes)).toMatchObject({
+      destinationFolder: 'Archive',
+      tags: ['project-x'],
+    });
+  });
+
+  test('prefers a full-address alias that includes the plus tag', () => {
+    expect(resolveAddressRoute(['archive+legal@example.com'], routes)).toMatchObject({
+      destinationFolder: 'Legal',
+      tags: ['contracts', 'legal'],
+    });
+  });
+
+  test('falls back from local+tag to the local part', () => {
+    expect(resolveAddressRoute(['press+release@example.com'], routes)).toMatchObject({ driveType: 'public', destinationFolder: 'Press' });
+    expect(resolveAddressRoute(['press+misc@example.com'], routes)).toEqual({
+      driveType: 'public',
+      tags: ['misc'],
+      matchedAddress: 'press+misc@example.com',
+    });
+  });
+
+  test('only matches local-part aliases on the bridge domain', () => {
+    expect(resolveAddressRoute(['press@partner.org', 'Press+Release@Example.com'], routes)).toMatchObject({
+      destinationFolder: 'Press',
+      matchedAddress: 'press+release@example.com',
+    });
+    expect(resolveAddressRoute(['press@partner.org'], routes)).toEqual({ driveType: 'private', tags: [] });
+    expect(resolveAddressRoute(['press@partner.org'], routes, 'partner.org')).toMatchObject({ driveType: 'public' });
+  });
+
+  test('does not match a full-address alias on another domain', () => {
+    expect(resolveAddressRoute(['archive@other.org'], routes)).toEqual({ driveType: 'private', tags: [] });
+  });
+});
@@ -0,0 +1,127 @@
+import { config } from './env';
+import { parseRouteTarget, type DriveType } from './folders';
+
+/**
+ * Routing rule for a destination alias
+ */
+export interface AliasRoute {
+  alias: string; // Local part ("archive", "archive+legal") or full address ("archive@example.com")
+  driveType: DriveType;
+  destinationFolder?: string; // Named ArDrive folder (under the drive root) to archive into
+  tags: string[];
+}
+
+/**
+ * Result of routing a message by its recipients
+ */
+export interface ResolvedRoute {
+  driveType: DriveType;
+  destinationFolder?: string;
+  tags: string[];
+  matchedAddress?: string; // Recipient that selected the route
+}
+
+/**
+ * Parse EMAIL_ROUTES
+ * Format: comma-separated "alias=private|public[:Folder Name][#tag1#tag2]"
+ * Example: "public-preserve=public,archive=private:Archive,archive+legal=private:Legal#legal"
+ */
+export function parseAliasRoutes(value: string): AliasRoute[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf('=');
+      const alias = entry.slice(0, separator).trim().toLowerCase();
+      if (separator === -1 || !alias) {
+        throw new Error(`Invalid EMAIL_ROUTES entry "${entry}" (expected alias=target)`);
+      }
+
+      const [target = '', ...tags] = entry.slice(separator + 1).split('#');
+      const rule = parseRouteTarget(target);
+      if (rule.ignore || !rule.driveType) {
+        throw new Error(`Invalid EMAIL_ROUTES entry "${entry}" (ignore is only valid in IMAP_FOLDERS)`);
+      }
+
+      return {
+        alias,
+        driveType: rule.driveType,
+        ...(rule.destinationFolder ? { destinationFolder: rule.destinationFolder } : {}),
+        tags: tags.map((tag) => tag.trim()).filter(Boolean),
+      };
+    });
+}
+
+/**
+ * Split "local+tag@domain" into its parts
+ */
+export function parseAddress(address: string): { local: string; plusTag?: string; domain: string } {
+  const lower = address.trim().toLowerCase();
+  const at = lower.lastIndexOf('@');
+  const localPart = at === -1 ? lower : lower.slice(0, at);
+  const domain = at === -1 ? '' : lower.slice(at + 1);
+  const plus = localPart.indexOf('+');
+
+  if (plus === -1) {
+    return { local: localPart, domain };
+  }
+
+  const plusTag = localPart.slice(plus + 1);
+  return {
+    local: localPart.slice(0, plus),
+    ...(plusTag ? { plusTag } : {}),
+    domain,
+  };
+}
+
+let cachedRoutes: AliasRoute[] | null = null;
+
+/**
+ * Get configured alias routes
+ */
+export function getAliasRoutes(): AliasRoute[] {
+  if (!cachedRoutes) {
+    cachedRoutes = parseAliasRoutes(config.EMAIL_ROUTES);
+  }
+  return cachedRoutes;
+}
+
+/**
+ * Pick a route for a message from its recipients (checked in order)
+ * Lookup order per recipient: full address (with, then without the plus tag), local+tag, local part.
+ * Local-part aliases only match on the bridge's own domain (EMAIL_USER), so other people's
+ * addresses in To/Cc (press@partner.org) don't select a route.
+ * Plus tags are added as tags, so "archive@example.com" also routes archive+legal@example.com.
+ * Falls back to the private drive when no recipient matches.
+ */
+export function resolveAddressRoute(
+  recipients: string[],
+  routes: AliasRoute[] = getAliasRoutes(),
+  ownDomain: string = parseAddress(config.EMAIL_USER).domain
+): ResolvedRoute {
+  for (const recipient of recipients) {
+    const { local, plusTag, domain } = parseAddress(recipient);
+    const candidates = [
+      ...(plusTag ? [`${local}+${plusTag}@${domain}`] : []),
+      `${local}@${domain}`,
+      ...(domain === ownDomain ? [...(plusTag ? [`${local}+${plusTag}`] : []), local] : []),
+    ];
+
+    for (const candidate of candidates) {
+      const route = routes.find((r) => r.alias === candidate);
+      if (!route) continue;
+
+      const tags = plusTag && !route.tags.includes(plusTag) ? [...route.tags, plusTag] : route.tags;
+
+      return {
+        driveType: route.driveType,
+        ...(route.destinationFolder ? { destinationFolder: route.destinationFolder } : {}),
+        tags,
+        matchedAddress: recipient.toLowerCase(),
+      };
+    }
+  }
+
+  return { driveType: 'private', tags: [] };
+}
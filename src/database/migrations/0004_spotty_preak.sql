@@ -0,0 +1,14 @@
+CREATE TABLE `imap_folder_state` (
+	`id` text PRIMARY KEY NOT NULL,
+	`folder` text NOT NULL,
+	`uid_validity` integer NOT NULL,
+	`highest_uid` integer DEFAULT 0 NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `imap_folder_state_folder_unique` ON `imap_folder_state` (`folder`);--> statement-breakpoint
+DROP INDEX `processed_emails_uid_unique`;--> statement-breakpoint
+ALTER TABLE `processed_emails` ADD `folder` text DEFAULT 'INBOX' NOT NULL;--> statement-breakpoint
+ALTER TABLE `processed_emails` ADD `uid_validity` integer;--> statement-breakpoint
+CREATE UNIQUE INDEX `processed_emails_folder_uid_unique` ON `processed_emails` (`folder`,`uid_validity`,`uid`);
\ No newline at end of file
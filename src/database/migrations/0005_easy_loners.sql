@@ -0,0 +1,19 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_drive_folders` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`drive_id` text NOT NULL,
+	`folder_type` text NOT NULL,
+	`folder_name` text NOT NULL,
+	`parent_folder_id` text NOT NULL,
+	`folder_entity_id` text NOT NULL,
+	`year` integer,
+	`month` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_drive_folders`("id", "user_id", "drive_id", "folder_type", "folder_name", "parent_folder_id", "folder_entity_id", "year", "month", "created_at") SELECT "id", "user_id", "drive_id", "folder_type", "folder_name", "parent_folder_id", "folder_entity_id", "year", "month", "created_at" FROM `drive_folders`;--> statement-breakpoint
+DROP TABLE `drive_folders`;--> statement-breakpoint
+ALTER TABLE `__new_drive_folders` RENAME TO `drive_folders`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `users` ADD `arweave_tags_opt_out` integer DEFAULT false NOT NULL;
\ No newline at end of file
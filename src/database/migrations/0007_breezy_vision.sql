@@ -0,0 +1,16 @@
+CREATE TABLE `email_threads` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`drive_id` text NOT NULL,
+	`root_message_id` text NOT NULL,
+	`subject` text,
+	`folder_entity_id` text,
+	`message_count` integer DEFAULT 0 NOT NULL,
+	`last_message_at` integer,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `email_threads_user_drive_root_unique` ON `email_threads` (`user_id`,`drive_id`,`root_message_id`);--> statement-breakpoint
+ALTER TABLE `processed_emails` ADD `thread_id` text;
\ No newline at end of file
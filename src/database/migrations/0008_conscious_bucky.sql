@@ -0,0 +1,2 @@
+ALTER TABLE `payments` ADD `stripe_invoice_id` text;--> statement-breakpoint
+CREATE UNIQUE INDEX `payments_stripe_invoice_id_unique` ON `payments` (`stripe_invoice_id`);
\ No newline at end of file
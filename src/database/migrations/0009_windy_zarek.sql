@@ -0,0 +1,8 @@
+CREATE TABLE `stripe_events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`type` text NOT NULL,
+	`status` text DEFAULT 'processing' NOT NULL,
+	`error_message` text,
+	`received_at` integer NOT NULL,
+	`processed_at` integer
+);
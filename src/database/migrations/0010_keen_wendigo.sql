@@ -0,0 +1 @@
+ALTER TABLE `uploads` ADD `price_usd` real;
\ No newline at end of file
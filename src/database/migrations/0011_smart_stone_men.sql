@@ -0,0 +1,13 @@
+CREATE TABLE `wallet_exports` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`kind` text NOT NULL,
+	`code_hash` text NOT NULL,
+	`passphrase_encrypted` text,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`failed_attempts` integer DEFAULT 0 NOT NULL,
+	`expires_at` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	`delivered_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,2 @@
+ALTER TABLE `users` ADD `notification_preference` text DEFAULT 'immediate' NOT NULL;--> statement-breakpoint
+ALTER TABLE `users` ADD `last_digest_sent_at` integer;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE `notification_suppressions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`email` text NOT NULL,
+	`bounce_count` integer DEFAULT 0 NOT NULL,
+	`last_error` text,
+	`last_bounce_at` integer NOT NULL,
+	`suppressed_at` integer,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `notification_suppressions_email_unique` ON `notification_suppressions` (`email`);--> statement-breakpoint
+CREATE TABLE `notifications` (
+	`id` text PRIMARY KEY NOT NULL,
+	`recipient` text NOT NULL,
+	`kind` text NOT NULL,
+	`subject` text NOT NULL,
+	`status` text DEFAULT 'queued' NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`last_error` text,
+	`created_at` integer NOT NULL,
+	`sent_at` integer
+);
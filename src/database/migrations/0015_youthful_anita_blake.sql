@@ -0,0 +1,12 @@
+CREATE TABLE `api_keys` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`key_prefix` text NOT NULL,
+	`key_hash` text NOT NULL,
+	`scope` text DEFAULT 'admin' NOT NULL,
+	`last_used_at` integer,
+	`revoked_at` integer,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `api_keys_key_hash_unique` ON `api_keys` (`key_hash`);
\ No newline at end of file
@@ -0,0 +1,30 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_processed_emails` (
+	`id` text PRIMARY KEY NOT NULL,
+	`source` text DEFAULT 'imap' NOT NULL,
+	`folder` text DEFAULT 'INBOX',
+	`uid_validity` integer,
+	`uid` integer,
+	`api_key_id` text,
+	`message_id` text,
+	`thread_id` text,
+	`sender` text NOT NULL,
+	`subject` text,
+	`status` text DEFAULT 'queued' NOT NULL,
+	`error_message` text,
+	`folder_entity_id` text,
+	`eml_file_entity_id` text,
+	`eml_file_key` text,
+	`folder_name` text,
+	`queued_at` integer NOT NULL,
+	`processed_at` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`api_key_id`) REFERENCES `api_keys`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_processed_emails`("id", "folder", "uid_validity", "uid", "message_id", "thread_id", "sender", "subject", "status", "error_message", "folder_entity_id", "eml_file_entity_id", "eml_file_key", "folder_name", "queued_at", "processed_at", "created_at") SELECT "id", "folder", "uid_validity", "uid", "message_id", "thread_id", "sender", "subject", "status", "error_message", "folder_entity_id", "eml_file_entity_id", "eml_file_key", "folder_name", "queued_at", "processed_at", "created_at" FROM `processed_emails`;--> statement-breakpoint
+DROP TABLE `processed_emails`;--> statement-breakpoint
+ALTER TABLE `__new_processed_emails` RENAME TO `processed_emails`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE UNIQUE INDEX `processed_emails_folder_uid_unique` ON `processed_emails` (`folder`,`uid_validity`,`uid`);--> statement-breakpoint
+ALTER TABLE `api_keys` ADD `user_id` text REFERENCES users(id);
\ No newline at end of file
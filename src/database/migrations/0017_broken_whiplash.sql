@@ -0,0 +1,2 @@
+ALTER TABLE `usage` ADD `stripe_invoice_item_id` text;--> statement-breakpoint
+ALTER TABLE `usage` ADD `stripe_invoice_id` text;
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, real } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, uniqueIndex } from 'drizzle-orm/sqlite-core';
 
 // Users table
 export const users = sqliteTable('users', {
@@ -15,6 +15,16 @@ export const users = sqliteTable('users', {
   userWalletJwkEncrypted: text('user_wallet_jwk_encrypted'), // Full JWK (encrypted for system use)
   seedPhraseDownloadedAt: integer('seed_phrase_downloaded_at', { mode: 'timestamp' }), // Track if user downloaded
 
+  // Opt out of custom Arweave tags (subject, sender domain, ...) on public uploads
+  arweaveTagsOptOut: integer('arweave_tags_opt_out', { mode: 'boolean' }).notNull().default(false),
+
+  // Archive notifications: a confirmation per email, a daily/weekly digest, or none
+  notificationPreference: text('notification_preference', { enum: ['immediate', 'daily', 'weekly', 'off'] }).notNull().default('immediate'),
+  lastDigestSentAt: integer('last_digest_sent_at', { mode: 'timestamp' }), // End of the last digest window
+
+  // Notification language (a supported locale code); null until detected from a first email or set with LANG
+  locale: text('locale'),
+
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
@@ -35,6 +45,7 @@ export const uploads = sqliteTable('uploads', {
   dataTxId: text('data_tx_id'), // Transaction ID on Arweave
   fileKey: text('file_key'), // For private uploads
   emailFolderEntityId: text('email_folder_entity_id'), // Parent folder for this email's files
+  priceUsd: real('price_usd'), // Price charged for the email (set on the .eml row; 0 within the free tier)
 
   errorMessage: text('error_message'),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
@@ -57,6 +68,9 @@ export const usage = sqliteTable('usage', {
   // Billing
   costUsd: real('cost_usd').notNull().default(0), // Total cost for this period
   billed: integer('billed', { mode: 'boolean' }).notNull().default(false),
+  // Stripe objects of an invoicing run, saved as they're created so a later run resumes instead of re-charging
+  stripeInvoiceItemId: text('stripe_invoice_item_id'),
+  stripeInvoiceId: text('stripe_invoice_id'),
 
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
@@ -69,6 +83,7 @@ export const payments = sqliteTable('payments', {
 
   // Stripe details
   stripePaymentIntentId: text('stripe_payment_intent_id').unique(),
+  stripeInvoiceId: text('stripe_invoice_id').unique(), // Invoice for a closed usage period
   stripeChargeId: text('stripe_charge_id'),
 
   amountUsd: real('amount_usd').notNull(),
@@ -81,6 +96,17 @@ export const payments = sqliteTable('payments', {
   completedAt: integer('completed_at', { mode: 'timestamp' }),
 });
 
+// Stripe webhook events (idempotency - each event is handled once)
+export const stripeEvents = sqliteTable('stripe_events', {
+  id: text('id').primaryKey(), // Stripe event ID (evt_...)
+  type: text('type').notNull(), // e.g., "invoice.paid"
+  status: text('status', { enum: ['processing', 'processed', 'failed'] }).notNull().default('processing'),
+  errorMessage: text('error_message'),
+
+  receivedAt: integer('received_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  processedAt: integer('processed_at', { mode: 'timestamp' }),
+});
+
 // ArDrive drives per user (one private drive per user)
 export const userDrives = sqliteTable('user_drives', {
   id: text('id').primaryKey().$defaultFn(() => (globalThis.crypto as any).randomUUID()),
@@ -98,32 +124,39 @@ export const userDrives = sqliteTable('user_drives', {
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
-// ArDrive folder cache (year/month folders to avoid recreating)
+// ArDrive folder cache (year/month/named folders to avoid recreating)
 export const driveFolders = sqliteTable('drive_folders', {
   id: text('id').primaryKey().$defaultFn(() => (globalThis.crypto as any).randomUUID()),
   userId: text('user_id').notNull().references(() => users.id),
   driveId: text('drive_id').notNull(),
 
-  folderType: text('folder_type', { enum: ['year', 'month'] }).notNull(),
-  folderName: text('folder_name').notNull(), // e.g., "2025" or "01"
+  folderType: text('folder_type', { enum: ['year', 'month', 'named'] }).notNull(),
+  folderName: text('folder_name').notNull(), // e.g., "2025", "01" or "Receipts"
   parentFolderId: text('parent_folder_id').notNull(), // Parent folder entity ID
   folderEntityId: text('folder_entity_id').notNull(), // This folder's entity ID
 
-  year: integer('year').notNull(), // e.g., 2025
+  year: integer('year'), // e.g., 2025 (year and month folders)
   month: integer('month'), // e.g., 1 (only for month folders)
 
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
 // Processed emails tracking (prevents duplicate processing)
+// IMAP UIDs are only unique per folder and UIDVALIDITY, so messages are keyed on all three
+// Messages uploaded through the HTTP API (source 'api') have no folder or UID
 export const processedEmails = sqliteTable('processed_emails', {
   id: text('id').primaryKey().$defaultFn(() => (globalThis.crypto as any).randomUUID()),
-  uid: integer('uid').notNull().unique(), // IMAP UID
+  source: text('source', { enum: ['imap', 'api'] }).notNull().default('imap'),
+  folder: text('folder').default('INBOX'), // IMAP folder the message was found in
+  uidValidity: integer('uid_validity'), // Folder UIDVALIDITY when queued (null for legacy rows)
+  uid: integer('uid'), // IMAP UID
+  apiKeyId: text('api_key_id').references(() => apiKeys.id), // Key the message was uploaded with (API uploads)
   messageId: text('message_id'), // Email Message-ID header
+  threadId: text('thread_id'), // Conversation thread (set once processed)
   sender: text('sender').notNull(), // From address
   subject: text('subject'), // Email subject
 
-  status: text('status', { enum: ['queued', 'processing', 'completed', 'failed'] }).notNull().default('queued'),
+  status: text('status', { enum: ['queued', 'processing', 'deferred', 'completed', 'failed'] }).notNull().default('queued'),
   errorMessage: text('error_message'),
 
   // ArDrive folder and .eml file tracking
@@ -135,9 +168,104 @@ export const processedEmails = sqliteTable('processed_emails', {
   queuedAt: integer('queued_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   processedAt: integer('processed_at', { mode: 'timestamp' }),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  uniqueIndex('processed_emails_folder_uid_unique').on(table.folder, table.uidValidity, table.uid),
+]);
+
+// Conversation threads (grouped by In-Reply-To/References)
+// Replies are archived into a per-thread ArDrive folder
+export const emailThreads = sqliteTable('email_threads', {
+  id: text('id').primaryKey().$defaultFn(() => (globalThis.crypto as any).randomUUID()),
+  userId: text('user_id').notNull().references(() => users.id),
+  driveId: text('drive_id').notNull(),
+
+  rootMessageId: text('root_message_id').notNull(), // Message-ID of the first message in the conversation
+  subject: text('subject'), // Subject without Re:/Fwd: prefixes
+  folderEntityId: text('folder_entity_id'), // Thread folder in ArDrive (created on first reply)
+  messageCount: integer('message_count').notNull().default(0),
+
+  lastMessageAt: integer('last_message_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => [
+  uniqueIndex('email_threads_user_drive_root_unique').on(table.userId, table.driveId, table.rootMessageId),
+]);
+
+// IMAP folder sync state (UIDVALIDITY and UID high-water mark per folder)
+export const imapFolderState = sqliteTable('imap_folder_state', {
+  id: text('id').primaryKey().$defaultFn(() => (globalThis.crypto as any).randomUUID()),
+  folder: text('folder').notNull().unique(), // IMAP folder path
+  uidValidity: integer('uid_validity').notNull(), // Last seen UIDVALIDITY
+  highestUid: integer('highest_uid').notNull().default(0), // Highest UID already handled
+
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Wallet export requests (EXPORT SEED / EXPORT KEYFILE, confirmed by a one-time code)
+// Rows are kept as the audit log of every export
+export const walletExports = sqliteTable('wallet_exports', {
+  id: text('id').primaryKey().$defaultFn(() => (globalThis.crypto as any).randomUUID()),
+  userId: text('user_id').notNull().references(() => users.id),
+
+  kind: text('kind', { enum: ['seed_phrase', 'keyfile'] }).notNull(),
+  codeHash: text('code_hash').notNull(), // SHA-256 of the confirmation code (never stored in plain text)
+  passphraseEncrypted: text('passphrase_encrypted'), // Keyfile passphrase (cleared once delivered or expired)
+  status: text('status', { enum: ['pending', 'delivered', 'expired', 'locked'] }).notNull().default('pending'),
+  failedAttempts: integer('failed_attempts').notNull().default(0),
+
+  expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  deliveredAt: integer('delivered_at', { mode: 'timestamp' }),
+});
+
+// Outbound notification emails (delivered by the notifications queue)
+// Message content lives only in the queue job - rows record who was notified and the outcome
+export const notifications = sqliteTable('notifications', {
+  id: text('id').primaryKey().$defaultFn(() => (globalThis.crypto as any).randomUUID()),
+  recipient: text('recipient').notNull(), // Lowercased address
+  kind: text('kind', { enum: ['confirmation', 'welcome', 'error', 'limit', 'digest', 'command-reply', 'payment-failed'] }).notNull(),
+  subject: text('subject').notNull(),
+
+  status: text('status', { enum: ['queued', 'sent', 'failed', 'suppressed'] }).notNull().default('queued'),
+  attempts: integer('attempts').notNull().default(0),
+  lastError: text('last_error'),
+
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  sentAt: integer('sent_at', { mode: 'timestamp' }),
+});
+
+// Addresses that bounced our notifications (SMTP 5xx rejections and delivery status reports)
+// Suppressed once bounceCount reaches NOTIFICATION_BOUNCE_LIMIT
+export const notificationSuppressions = sqliteTable('notification_suppressions', {
+  id: text('id').primaryKey().$defaultFn(() => (globalThis.crypto as any).randomUUID()),
+  email: text('email').notNull().unique(), // Lowercased address
+  bounceCount: integer('bounce_count').notNull().default(0),
+  lastError: text('last_error'),
+
+  lastBounceAt: integer('last_bounce_at', { mode: 'timestamp' }).notNull(),
+  suppressedAt: integer('suppressed_at', { mode: 'timestamp' }), // Null while below the limit
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// API keys - only an HMAC of the key is stored (API_KEY_SECRET)
+// - 'admin': the admin API (/admin/*)
+// - 'user': archiving over HTTP (/api/*) as the owning user
+export const apiKeys = sqliteTable('api_keys', {
+  id: text('id').primaryKey().$defaultFn(() => (globalThis.crypto as any).randomUUID()),
+  name: text('name').notNull(), // What the key is for, e.g. "ops dashboard"
+  keyPrefix: text('key_prefix').notNull(), // First characters of the key, to tell keys apart
+  keyHash: text('key_hash').notNull().unique(),
+  scope: text('scope', { enum: ['admin', 'user'] }).notNull().default('admin'),
+  userId: text('user_id').references(() => users.id), // Owner of a 'user' key
+
+  lastUsedAt: integer('last_used_at', { mode: 'timestamp' }),
+  revokedAt: integer('revoked_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
 export type User = typeof users.$inferSelect;
+export type NotificationPreference = User['notificationPreference'];
 export type NewUser = typeof users.$inferInsert;
 
 export type Upload = typeof uploads.$inferSelect;
@@ -149,6 +277,9 @@ export type NewUsage = typeof usage.$inferInsert;
 export type Payment = typeof payments.$inferSelect;
 export type NewPayment = typeof payments.$inferInsert;
 
+export type StripeEvent = typeof stripeEvents.$inferSelect;
+export type NewStripeEvent = typeof stripeEvents.$inferInsert;
+
 export type UserDrive = typeof userDrives.$inferSelect;
 export type NewUserDrive = typeof userDrives.$inferInsert;
 
@@ -158,6 +289,24 @@ export type NewProcessedEmail = typeof processedEmails.$inferInsert;
 export type DriveFolder = typeof driveFolders.$inferSelect;
 export type NewDriveFolder = typeof driveFolders.$inferInsert;
 
+export type ImapFolderState = typeof imapFolderState.$inferSelect;
+export type NewImapFolderState = typeof imapFolderState.$inferInsert;
+
+export type EmailThread = typeof emailThreads.$inferSelect;
+export type NewEmailThread = typeof emailThreads.$inferInsert;
+
+export type WalletExport = typeof walletExports.$inferSelect;
+export type NewWalletExport = typeof walletExports.$inferInsert;
+
+export type Notification = typeof notifications.$inferSelect;
+export type NewNotification = typeof notifications.$inferInsert;
+
+export type NotificationSuppression = typeof notificationSuppressions.$inferSelect;
+export type NewNotificationSuppression = typeof notificationSuppressions.$inferInsert;
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type NewApiKey = typeof apiKeys.$inferInsert;
+
 // Credit shares table (Turbo credit sharing in 'multi' wallet mode)
 export const creditShares = sqliteTable('credit_shares', {
   id: text('id').primaryKey().$defaultFn(() => (globalThis.crypto as any).randomUUID()),
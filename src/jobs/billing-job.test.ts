@@ -0,0 +1,169 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import { getDb } from '../database/db';
+import { users, usage, payments, type Usage } from '../database/schema';
+import { FakeStripe } from '../test/fake-stripe';
+import { billUsagePeriod, closeUsagePeriods } from './billing-job';
+
+let stripe: FakeStripe;
+
+async function createUsagePeriod(costUsd: number): Promise<Usage> {
+  const db = await getDb();
+  const [user] = await db.insert(users)
+    .values({ email: `billing-${crypto.randomUUID()}@example.com`, stripeCustomerId: 'cus_test' })
+    .returning();
+
+  const [period] = await db.insert(usage)
+    .values({
+      userId: user!.id,
+      periodStart: new Date('2025-01-01T00:00:00Z'),
+      periodEnd: new Date('2025-02-01T00:00:00Z'),
+      uploadsCount: 25,
+      costUsd,
+    })
+    .returning();
+  return period!;
+}
+
+async function reload(period: Usage): Promise<Usage> {
+  const db = await getDb();
+  const [row] = await db.select().from(usage).where(eq(usage.id, period.id));
+  return row!;
+}
+
+async function paymentsFor(period: Usage) {
+  const db = await getDb();
+  return db.select().from(payments).where(eq(payments.usageId, period.id));
+}
+
+beforeEach(() => {
+  stripe = new FakeStripe();
+});
+
+describe('billUsagePeriod', () => {
+  test('invoices a period and records the Stripe IDs', async () => {
+    const period = await createUsagePeriod(1.5);
+
+    expect(await billUsagePeriod(period, stripe.asClient())).toBe(true);
+
+    expect(stripe.invoiceItemRecords).toHaveLength(1);
+    expect(stripe.invoiceItemRecords[0]).toMatchObject({ amount: 150, metadata: { usageId: period.id } });
+    expect(stripe.invoiceRecords).toHaveLength(1);
+    expect(stripe.invoiceRecords[0]).toMatchObject({ status: 'open', autoAdvance: true, lines: [stripe.invoiceItemRecords[0]!.id] });
+
+    const billed = await reload(period);
+    expect(billed).toMatchObject({
+      billed: true,
+      stripeInvoiceItemId: stripe.invoiceItemRecords[0]!.id,
+      stripeInvoiceId: stripe.invoiceRecords[0]!.id,
+    });
+    expect(await paymentsFor(period)).toMatchObject([{ stripeInvoiceId: stripe.invoiceRecords[0]!.id, amountUsd: 1.5, status: 'pending' }]);
+  });
+
+  test('marks free periods billed without calling Stripe', async () => {
+    const period = await createUsagePeriod(0);
+
+    expect(await billUsagePeriod(period, stripe.asClient())).toBe(false);
+
+    expect(stripe.invoiceItemRecords).toHaveLength(0);
+    expect((await reload(period)).billed).toBe(true);
+  });
+
+  test('leaves the customer\'s other pending invoice items off the invoice', async () => {
+    const period = await createUsagePeriod(1.5);
+    const other = await stripe.invoiceItems.create({ customer: 'cus_test', amount: 999, metadata: { subscription: 'sub_1' } });
+
+    await billUsagePeriod(period, stripe.asClient());
+
+    const item = stripe.invoiceItemRecords.find((record) => record.metadata.usageId === period.id)!;
+    expect(stripe.invoiceRecords[0]!.lines).toEqual([item.id]);
+    expect(other.invoice).toBeNull();
+  });
+
+  test('reuses the invoice a failed run created once idempotency keys have expired', async () => {
+    const period = await createUsagePeriod(2);
+    stripe.failNext('invoices.create', new Error('Stripe unavailable'));
+
+    const failed = await closeUsagePeriods(new Date(), stripe.asClient());
+    expect(failed).toEqual({ closed: 0, invoiced: 0, failed: 1 });
+
+    // The failed call still created the invoice - the next day's run must reuse it, not charge again
+    stripe.expireIdempotencyKeys();
+    const retried = await closeUsagePeriods(new Date(), stripe.asClient());
+    expect(retried).toMatchObject({ invoiced: 1, failed: 0 });
+
+    expect(stripe.invoiceItemRecords).toHaveLength(1);
+    expect(stripe.invoiceRecords).toHaveLength(1);
+    expect(stripe.invoiceRecords[0]!.status).toBe('open');
+    expect(await paymentsFor(period)).toHaveLength(1);
+  });
+
+  test('finalizes the saved invoice on a later run without creating another', async () => {
+    const period = await createUsagePeriod(2);
+    stripe.failNext('invoices.finalizeInvoice');
+
+    await expect(billUsagePeriod(period, stripe.asClient())).rejects.toThrow('invoices.finalizeInvoice failed');
+    const pending = await reload(period);
+    expect(pending.billed).toBe(false);
+    expect(pending.stripeInvoiceId).toBe(stripe.invoiceRecords[0]!.id);
+
+    stripe.expireIdempotencyKeys();
+    expect(await billUsagePeriod(pending, stripe.asClient())).toBe(true);
+
+    expect(stripe.invoiceItemRecords).toHaveLength(1);
+    expect(stripe.invoiceRecords).toHaveLength(1);
+    expect(stripe.invoiceRecords[0]!.status).toBe('open');
+  });
+
+  test('does not finalize an invoice twice', async () => {
+    const period = await createUsagePeriod(3);
+    await billUsagePeriod(period, stripe.asClient());
+
+    // E.g. the process stopped after Stripe finalized the invoice but before the period was marked billed
+    const db = await getDb();
+    await db.update(usage).set({ billed: false }).where(eq(usage.id, period.id));
+    stripe.expireIdempotencyKeys();
+
+    expect(await billUsagePeriod(await reload(period), stripe.asClient())).toBe(true);
+    expect(stripe.invoiceRecords).toHaveLength(1);
+    expect(await paymentsFor(period)).toHaveLength(1);
+  });
+
+  test('attaches the item to the saved invoice on a later run', async () => {
+    const period = await createUsagePeriod(2);
+    stripe.failNext('invoiceItems.create');
+
+    await expect(billUsagePeriod(period, stripe.asClient())).rejects.toThrow('invoiceItems.create failed');
+    const pending = await reload(period);
+    expect(pending.stripeInvoiceId).toBe(stripe.invoiceRecords[0]!.id);
+    expect(stripe.invoiceRecords[0]!.status).toBe('draft');
+
+    stripe.expireIdempotencyKeys();
+    expect(await billUsagePeriod(pending, stripe.asClient())).toBe(true);
+
+    expect(stripe.invoiceRecords).toHaveLength(1);
+    expect(stripe.invoiceRecords[0]).toMatchObject({ status: 'open', lines: [stripe.invoiceItemRecords[0]!.id] });
+  });
+
+  test('recovers an invoice item whose ID was never saved', async () => {
+    const period = await createUsagePeriod(2);
+    const invoice = await stripe.invoices.create({ customer: 'cus_test', metadata: { usageId: period.id } });
+    await stripe.invoiceItems.create({ customer: 'cus_test', amount: 200, metadata: { usageId: period.id }, invoice: invoice.id });
+
+    await billUsagePeriod(period, stripe.asClient());
+
+    expect(stripe.invoiceItemRecords).toHaveLength(1);
+    expect((await reload(period)).stripeInvoiceItemId).toBe(stripe.invoiceItemRecords[0]!.id);
+  });
+
+  test('replaces a pending item of the period instead of leaving it to be charged again', async () => {
+    const period = await createUsagePeriod(2);
+    const pending = await stripe.invoiceItems.create({ customer: 'cus_test', amount: 200, metadata: { usageId: period.id } });
+
+    await billUsagePeriod(period, stripe.asClient());
+
+    expect(stripe.invoiceItemRecords.find((item) => item.id === pending.id)).toBeUndefined();
+    expect(stripe.invoiceItemRecords).toHaveLength(1);
+    expect(stripe.invoiceRecords[0]!.lines).toEqual([stripe.invoiceItemRecords[0]!.id]);
+  });
+});
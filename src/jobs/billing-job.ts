@@ -0,0 +1,217 @@
+import cron, { type ScheduledTask } from 'node-cron';
+import type Stripe from 'stripe';
+import { eq, and, lt } from 'drizzle-orm';
+import { getDb } from '../database/db';
+import { usage, users, payments, type Usage } from '../database/schema';
+import { createLogger } from '../config/logger';
+import { config } from '../config/env';
+import { getStripeClient, getOrCreateStripeCustomer, isStripeConfigured } from '../services/stripe-service';
+
+const logger = createLogger('billing-job');
+
+let billingTask: ScheduledTask | null = null;
+
+export interface BillingRunResult {
+  closed: number; // Periods marked billed
+  invoiced: number; // Periods that produced a Stripe invoice
+  failed: number; // Periods left unbilled (retried next run)
+}
+
+/**
+ * Find a Stripe object created for a usage period (tagged with its usage ID) whose ID was never saved
+ */
+async function findInvoiceItem(stripe: Stripe, customer: string, usageId: string): Promise<Stripe.InvoiceItem | undefined> {
+  const items = await stripe.invoiceItems.list({ customer, limit: 100 });
+  return items.data.find((item) => item.metadata?.usageId === usageId);
+}
+
+async function findInvoice(stripe: Stripe, customer: string, usageId: string): Promise<Stripe.Invoice | undefined> {
+  const invoices = await stripe.invoices.list({ customer, limit: 100 });
+  return invoices.data.find((invoice) => invoice.metadata?.usageId === usageId);
+}
+
+function invoiceIdOf(item: Stripe.InvoiceItem): string | null {
+  return typeof item.invoice === 'string' ? item.invoice : item.invoice?.id ?? null;
+}
+
+/**
+ * Bill one closed usage period: invoice with the period's item in Stripe, pending payment row, billed flag
+ * Stripe idempotency keys only last 24 hours, so each Stripe ID is saved on the usage row as soon as it
+ * exists and later runs resume from there. An ID lost to a crash is recovered from the object's metadata.
+ */
+export async function billUsagePeriod(usageRecord: Usage, stripe: Stripe = getStripeClient()): Promise<boolean> {
+  const db = await getDb();
+
+  // Nothing billable (within free tier)
+  if (usageRecord.costUsd <= 0) {
+    await db.update(usage)
+      .set({ billed: true, updatedAt: new Date() })
+      .where(eq(usage.id, usageRecord.id));
+    return false;
+  }
+
+  const user = await (db.query as any).users?.findFirst({
+    where: eq(users.id, usageRecord.userId),
+  });
+  if (!user) {
+    throw new Error(`User ${usageRecord.userId} not found`);
+  }
+
+  const customerId = await getOrCreateStripeCustomer(user, stripe);
+  const amountCents = Math.round(usageRecord.costUsd * 100);
+  const billableEmails = Math.max(0, usageRecord.uploadsCount - config.FREE_EMAILS_PER_MONTH);
+  const periodLabel = usageRecord.periodStart.toISOString().slice(0, 7); // e.g., "2025-10"
+  const metadata = { usageId: usageRecord.id, userId: user.id };
+
+  let invoiceId = usageRecord.stripeInvoiceId ?? (await findInvoice(stripe, customerId, usageRecord.id))?.id;
+
+  // The invoice only gets this period's item - other pending items (other periods, subscriptions) stay pending.
+  // Not auto-advanced until finalized below, so Stripe never finalizes it before the item is attached.
+  if (!invoiceId) {
+    const invoice = await stripe.invoices.create(
+      {
+        customer: customerId,
+        collection_method: 'charge_automatically',
+        pending_invoice_items_behavior: 'exclude',
+        auto_advance: false,
+        metadata,
+      },
+      { idempotencyKey: `usage-invoice-${usageRecord.id}` }
+    );
+
+    if (!invoice.id) {
+      throw new Error('Stripe returned an invoice without an ID');
+    }
+    invoiceId = invoice.id;
+  }
+
+  if (invoiceId !== usageRecord.stripeInvoiceId) {
+    await db.update(usage)
+      .set({ stripeInvoiceId: invoiceId, updatedAt: new Date() })
+      .where(eq(usage.id, usageRecord.id));
+  }
+
+  if (!usageRecord.stripeInvoiceItemId) {
+    let invoiceItem = await findInvoiceItem(stripe, customerId, usageRecord.id);
+
+    // A pending item (not on any invoice) would be swept onto some later invoice and charged twice
+    if (invoiceItem && invoiceIdOf(invoiceItem) !== invoiceId) {
+      if (invoiceIdOf(invoiceItem) !== null) {
+        throw new Error(`Invoice item ${invoiceItem.id} of usage period ${usageRecord.id} is on another invoice`);
+      }
+      await stripe.invoiceItems.del(invoiceItem.id);
+      invoiceItem = undefined;
+    }
+
+    invoiceItem ??= await stripe.invoiceItems.create(
+      {
+        customer: customerId,
+        invoice: invoiceId,
+        amount: amountCents,
+        currency: 'usd',
+        description: `ForwARd email archiving ${periodLabel}: ${billableEmails} billable email(s)`,
+        metadata,
+      },
+      { idempotencyKey: `usage-invoice-item-${usageRecord.id}` }
+    );
+
+    await db.update(usage)
+      .set({ stripeInvoiceItemId: invoiceItem.id, updatedAt: new Date() })
+      .where(eq(usage.id, usageRecord.id));
+  }
+
+  // A run that stopped after finalizing leaves an open invoice - finalizing it again would fail
+  const invoice = await stripe.invoices.retrieve(invoiceId);
+  if (invoice.status === 'draft') {
+    await stripe.invoices.finalizeInvoice(invoiceId, { auto_advance: true }); // Stripe collects payment from here
+  }
+
+  // Payment stays pending until Stripe reports the invoice as paid
+  await db.insert(payments)
+    .values({
+      userId: user.id,
+      stripeInvoiceId: invoiceId,
+      amountUsd: amountCents / 100,
+      status: 'pending',
+      usageId: usageRecord.id,
+    })
+    .onConflictDoNothing({ target: payments.stripeInvoiceId });
+
+  await db.update(usage)
+    .set({ billed: true, updatedAt: new Date() })
+    .where(eq(usage.id, usageRecord.id));
+
+  logger.info({ userId: user.id, usageId: usageRecord.id, invoiceId, amountCents }, 'Usage period invoiced');
+
+  return true;
+}
+
+/**
+ * Close every unbilled usage period that ended before `now`
+ * Failures are logged and retried on the next run
+ */
+export async function closeUsagePeriods(
+  now: Date = new Date(),
+  stripe: Stripe = getStripeClient()
+): Promise<BillingRunResult> {
+  const db = await getDb();
+
+  const periods: Usage[] = await db.select()
+    .from(usage)
+    .where(and(
+      eq(usage.billed, false),
+      lt(usage.periodEnd, now)
+    ));
+
+  const result: BillingRunResult = { closed: 0, invoiced: 0, failed: 0 };
+
+  for (const period of periods) {
+    try {
+      const invoiced = await billUsagePeriod(period, stripe);
+      result.closed++;
+      if (invoiced) result.invoiced++;
+    } catch (error) {
+      result.failed++;
+      logger.error({ error, usageId: period.id, userId: period.userId }, 'Failed to bill usage period');
+    }
+  }
+
+  logger.info({ ...result, pending: periods.length }, 'Billing run complete');
+
+  return result;
+}
+
+/**
+ * Schedule the billing run (BILLING_CRON)
+ * Does nothing when Stripe isn't configured
+ */
+export function startBillingJob(): void {
+  if (!isStripeConfigured()) {
+    logger.info('Stripe not configured, billing job disabled');
+    return;
+  }
+
+  billingTask = cron.schedule(
+    config.BILLING_CRON,
+    async () => {
+      try {
+        await closeUsagePeriods();
+      } catch (error) {
+        logger.error({ error }, 'Billing run failed');
+      }
+    },
+    { name: 'billing', noOverlap: true }
+  );
+
+  logger.info({ schedule: config.BILLING_CRON }, 'Billing job scheduled');
+}
+
+/**
+ * Stop the scheduled billing run
+ */
+export async function stopBillingJob(): Promise<void> {
+  if (billingTask) {
+    await billingTask.stop();
+    billingTask = null;
+  }
+}
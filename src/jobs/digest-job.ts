@@ -0,0 +1,157 @@
+import cron, { type ScheduledTask } from 'node-cron';
+import { eq, and, gte, lt, inArray, sql } from 'drizzle-orm';
+import { getDb } from '../database/db';
+import { users, uploads, processedEmails, type User } from '../database/schema';
+import { createLogger } from '../config/logger';
+import { config } from '../config/env';
+import { getUsageSummary } from '../services/usage-service';
+import { sendDigestEmail, type ArchiveDigest } from '../services/email-notification';
+
+const logger = createLogger('digest-job');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let digestTask: ScheduledTask | null = null;
+
+export interface DigestRunResult {
+  sent: number; // Digests emailed
+  empty: number; // Users with nothing to report (window still advanced)
+  failed: number; // Users whose digest failed (retried next run, same window)
+}
+
+/**
+ * Collect what happened for a user in [since, until): archived .eml files, final failures, usage
+ */
+export async function buildDigest(
+  user: Pick<User, 'id' | 'email' | 'notificationPreference'>,
+  since: Date,
+  until: Date
+): Promise<ArchiveDigest> {
+  const db = await getDb();
+
+  const archived = await db.select({
+    fileName: uploads.fileName,
+    entityId: uploads.entityId,
+    fileKey: uploads.fileKey,
+    createdAt: uploads.createdAt,
+  })
+    .from(uploads)
+    .where(and(
+      eq(uploads.userId, user.id),
+      eq(uploads.contentType, 'message/rfc822'),
+      eq(uploads.status, 'completed'),
+      gte(uploads.createdAt, since),
+      lt(uploads.createdAt, until)
+    ))
+    .orderBy(uploads.createdAt);
+
+  // processed_emails has no user ID - match on the (case-insensitive) sender
+  const failures = await db.select({
+    subject: processedEmails.subject,
+    errorMessage: processedEmails.errorMessage,
+    processedAt: processedEmails.processedAt,
+  })
+    .from(processedEmails)
+    .where(and(
+      sql`lower(${processedEmails.sender}) = ${user.email}`,
+      eq(processedEmails.status, 'failed'),
+      gte(processedEmails.processedAt, since),
+      lt(processedEmails.processedAt, until)
+    ))
+    .orderBy(processedEmails.processedAt);
+
+  return {
+    frequency: user.notificationPreference === 'weekly' ? 'weekly' : 'daily',
+    since,
+    until,
+    archived: archived.map((upload) => ({
+      fileName: upload.fileName,
+      archivedAt: upload.createdAt,
+      ...(upload.entityId ? { entityId: upload.entityId } : {}),
+      ...(upload.fileKey ? { fileKey: upload.fileKey } : {}),
+    })),
+    failures: failures.map((failure) => ({
+      subject: failure.subject || 'No Subject',
+      errorMessage: failure.errorMessage || 'Unknown error',
+      failedAt: failure.processedAt ?? until,
+    })),
+    usage: await getUsageSummary(user.id),
+  };
+}
+
+/**
+ * Send digests due at `now`: daily users every run, weekly users on DIGEST_WEEKLY_DAY
+ * Each digest covers everything since the user's previous digest
+ */
+export async function sendDigests(now: Date = new Date()): Promise<DigestRunResult> {
+  const db = await getDb();
+
+  const frequencies: User['notificationPreference'][] = now.getDay() === config.DIGEST_WEEKLY_DAY
+    ? ['daily', 'weekly']
+    : ['daily'];
+
+  const recipients: User[] = await db.select()
+    .from(users)
+    .where(and(
+      inArray(users.notificationPreference, frequencies),
+      eq(users.allowed, true)
+    ));
+
+  const result: DigestRunResult = { sent: 0, empty: 0, failed: 0 };
+
+  for (const user of recipients) {
+    const windowMs = user.notificationPreference === 'weekly' ? 7 * DAY_MS : DAY_MS;
+    const since = user.lastDigestSentAt ?? new Date(now.getTime() - windowMs);
+
+    try {
+      const digest = await buildDigest(user, since, now);
+
+      if (digest.archived.length > 0 || digest.failures.length > 0) {
+        await sendDigestEmail(user.email, digest);
+        result.sent++;
+      } else {
+        result.empty++;
+      }
+
+      await db.update(users)
+        .set({ lastDigestSentAt: now })
+        .where(eq(users.id, user.id));
+    } catch (error) {
+      result.failed++;
+      logger.error({ error, userId: user.id }, 'Failed to send digest');
+    }
+  }
+
+  logger.info({ ...result, frequencies }, 'Digest run complete');
+
+  return result;
+}
+
+/**
+ * Schedule the digest run (DIGEST_CRON)
+ */
+export function startDigestJob(): void {
+  digestTask = cron.schedule(
+    config.DIGEST_CRON,
+    async () => {
+      try {
+        await sendDigests();
+      } catch (error) {
+        logger.error({ error }, 'Digest run failed');
+      }
+    },
+    { name: 'digest', noOverlap: true }
+  );
+
+  logger.info({ schedule: config.DIGEST_CRON, weeklyDay: config.DIGEST_WEEKLY_DAY }, 'Digest job scheduled');
+}
+
+/**
+ * Stop the scheduled digest run
+ */
+export async function stopDigestJob(): Promise<void> {
+  if (digestTask) {
+    await digestTask.stop();
+    digestTask = null;
+  }
+}
@@ -1,18 +1,33 @@
 import { Job, Worker } from 'bullmq';
 import { ImapFlow } from 'imapflow';
 import { simpleParser, type ParsedMail } from 'mailparser';
-import { writeFileSync, unlinkSync, mkdirSync } from 'fs';
+import { unlinkSync, mkdirSync, createReadStream, createWriteStream, statSync } from 'fs';
+import { pipeline } from 'stream/promises';
+import { readFile } from 'fs/promises';
 import { join } from 'path';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, isNull } from 'drizzle-orm';
 import { config } from '../../config/env';
 import { createLogger } from '../../config/logger';
 import { getDb } from '../../database/db';
-import { processedEmails, uploads, driveFolders } from '../../database/schema';
+import { processedEmails, uploads, driveFolders, type EmailThread, type NotificationPreference } from '../../database/schema';
 import { getOrCreateUser, createPrivateDriveForUser, createDriveForUser, markWelcomeEmailSent } from '../../services/user-service';
-import { canUserUpload, recordUpload, getUsageSummary } from '../../services/usage-service';
+import { canUserUpload, recordUpload, getUsageSummary, getNextBillingPeriodStart } from '../../services/usage-service';
 import { uploadFilesToArDrive, createFolderInDrive, uploadFilesToFolder } from '../../storage/ardrive-storage';
-import { sendUploadConfirmation, sendUsageLimitEmail, sendDriveWelcomeEmail, sendUploadErrorEmail } from '../../services/email-notification';
-import { type EmailJobData } from '../queue';
+import { sendUploadConfirmation, sendUsageLimitEmail, sendDriveWelcomeEmail, sendUploadErrorEmail, sendCommandReplyEmail, type UploadedFile } from '../../services/email-notification';
+import { getUpgradeUrl } from '../../services/stripe-service';
+import { parseEmailCommand, runEmailCommand } from '../../services/email-commands';
+import { saveAttachmentToTmpFile } from '../../services/file-prep';
+import { saveHtmlSnapshot, renderPdf } from '../../services/email-renderer';
+import { assignThread, recordThreadMessage, setThreadFolder } from '../../services/thread-service';
+import { buildUploadDataTags, getArweaveTagNames } from '../../services/arweave-tags';
+import { getPricingStrategy, getWincQuote } from '../../services/pricing';
+import { validateTemplates } from '../../services/email-templates';
+import { validateLocales, detectEmailLocale } from '../../services/i18n';
+import { verifyTransport } from '../../services/mail-transport';
+import { isBounceReport, handleBounceReport } from '../../services/notification-service';
+import { buildEmailMetadata, describeAttachments, saveEmailMetadata, sha256File, withUploadResult } from '../../services/email-metadata';
+import { getSpooledMessage, removeSpooledMessage } from '../../services/api-ingest';
+import { deferEmail, type EmailJobData } from '../queue';
 import { generateDrivePassword } from '../../utils/crypto';
 import { getOrCreateUserWallet } from '../../services/wallet-service';
 import { ensureUserHasCredits } from '../../services/credit-service';
@@ -21,6 +36,8 @@ import { verifyEmailAuthentication, shouldEnforceAuthentication } from '../../ut
 
 const logger = createLogger('email-processor');
 
+const MAX_HEADER_BYTES = 1024 * 1024; // 1MB is far beyond any legitimate header block
+
 
 /**
  * Helper: Sanitize folder/file name (remove special chars, limit length)
@@ -35,41 +52,132 @@ function sanitizeName(name: string, maxLength: number = 50): string {
 }
 
 /**
- * Helper: Get or create year folder
+ * Helper: Build .eml filename: YYYY-MM-DD_Subject.eml
  */
-async function getOrCreateYearFolder(
+function buildEmlFilename(emailDate: Date, subject: string | undefined): string {
+  const dateStr = emailDate.toISOString().split('T')[0];
+  const sanitizedSubject = subject ? sanitizeName(subject, 50) : 'No-Subject';
+  return `${dateStr}_${sanitizedSubject}.eml`;
+}
+
+/**
+ * Helper: Parse only the header block of a raw email file
+ * Reads up to the first blank line, so body size doesn't matter
+ */
+async function parseEmailHeaders(filepath: string): Promise<ParsedMail> {
+  const chunks: Buffer[] = [];
+  let length = 0;
+
+  for await (const chunk of createReadStream(filepath, { highWaterMark: 64 * 1024 })) {
+    chunks.push(chunk as Buffer);
+    length += (chunk as Buffer).length;
+
+    const buffer = Buffer.concat(chunks, length);
+    const crlfEnd = buffer.indexOf('\r\n\r\n');
+    const headerEnd = crlfEnd !== -1 ? crlfEnd : buffer.indexOf('\n\n');
+    if (headerEnd !== -1) {
+      return simpleParser(buffer.subarray(0, headerEnd));
+    }
+
+    if (length > MAX_HEADER_BYTES) {
+      throw new Error(`Email headers exceed ${MAX_HEADER_BYTES} bytes`);
+    }
+  }
+
+  // Headers only, no body
+  return simpleParser(Buffer.concat(chunks, length));
+}
+
+/**
+ * Helper: Make a filename unique within one upload (ArDrive overwrites same-name files)
+ * "report.pdf" -> "report_2.pdf"
+ */
+function uniqueFileName(filename: string, usedNames: Set<string>): string {
+  let candidate = filename;
+  let counter = 2;
+
+  while (usedNames.has(candidate.toLowerCase())) {
+    const dot = filename.lastIndexOf('.');
+    candidate = dot > 0
+      ? `${filename.slice(0, dot)}_${counter}${filename.slice(dot)}`
+      : `${filename}_${counter}`;
+    counter++;
+  }
+
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+}
+
+/**
+ * Helper: Delete a job's temp files (best-effort)
+ */
+function cleanupTempFiles(tempFiles: string[]): void {
+  for (const filepath of tempFiles) {
+    try {
+      unlinkSync(filepath);
+    } catch (error) {
+      logger.warn({ filepath }, 'Failed to cleanup temp file');
+    }
+  }
+}
+
+/**
+ * A file uploaded next to the .eml
+ */
+interface ArchiveFile {
+  kind: 'attachment' | 'snapshot' | 'metadata';
+  filepath: string;
+  filename: string;
+  contentType: string;
+  sizeBytes: number;
+}
+
+interface FolderSpec {
+  folderType: 'year' | 'month' | 'named';
+  folderName: string;
+  parentFolderId: string;
+  year?: number;
+  month?: number;
+}
+
+/**
+ * Helper: Get or create a folder (cached in drive_folders by parent + name)
+ */
+async function getOrCreateFolder(
   userId: string,
   driveId: string,
-  rootFolderId: string,
-  year: number,
+  spec: FolderSpec,
   drivePassword?: string,
   userJwk?: object
 ): Promise<string> {
   const db = await getDb();
+  const { folderType, folderName, parentFolderId } = spec;
 
-  // Check if year folder exists in cache
-  const existingFolder = await (db.query as any).driveFolders?.findFirst({
+  const findCachedFolder = () => (db.query as any).driveFolders?.findFirst({
     where: and(
       eq(driveFolders.userId, userId),
       eq(driveFolders.driveId, driveId),
-      eq(driveFolders.folderType, 'year'),
-      eq(driveFolders.year, year)
+      eq(driveFolders.folderType, folderType),
+      eq(driveFolders.parentFolderId, parentFolderId),
+      eq(driveFolders.folderName, folderName)
     ),
   });
 
+  // Check if folder exists in cache
+  const existingFolder = await findCachedFolder();
+
   if (existingFolder) {
-    logger.info({ year, folderId: existingFolder.folderEntityId }, 'Using cached year folder');
+    logger.info({ folderType, folderName, folderId: existingFolder.folderEntityId }, 'Using cached folder');
     return existingFolder.folderEntityId;
   }
 
-  // Create year folder
-  logger.info({ year }, 'Creating year folder');
+  logger.info({ folderType, folderName }, 'Creating folder');
 
   try {
     const { folderId } = await createFolderInDrive(
       driveId,
-      year.toString(),
-      rootFolderId,
+      folderName,
+      parentFolderId,
       drivePassword,
       userJwk
     );
@@ -78,35 +186,28 @@ async function getOrCreateYearFolder(
     await db.insert(driveFolders).values({
       userId,
       driveId,
-      folderType: 'year',
-      folderName: year.toString(),
-      parentFolderId: rootFolderId,
+      folderType,
+      folderName,
+      parentFolderId,
       folderEntityId: folderId,
-      year,
-      month: null,
+      year: spec.year ?? null,
+      month: spec.month ?? null,
     });
 
     // Wait for indexing (reduced from 10s to 6s)
-    logger.info({ year, folderId }, 'Waiting 6s for year folder indexing');
+    logger.info({ folderType, folderName, folderId }, 'Waiting 6s for folder indexing');
     await new Promise(resolve => setTimeout(resolve, 6000));
 
     return folderId;
   } catch (error) {
     // If folder already exists (e.g., on retry), try to find it
-    logger.warn({ year, error }, 'Year folder creation failed, checking if exists');
+    logger.warn({ folderType, folderName, error }, 'Folder creation failed, checking if exists');
 
     // Check cache again (might have been created by concurrent process)
-    const retryFolder = await (db.query as any).driveFolders?.findFirst({
-      where: and(
-        eq(driveFolders.userId, userId),
-        eq(driveFolders.driveId, driveId),
-        eq(driveFolders.folderType, 'year'),
-        eq(driveFolders.year, year)
-      ),
-    });
+    const retryFolder = await findCachedFolder();
 
     if (retryFolder) {
-      logger.info({ year, folderId: retryFolder.folderEntityId }, 'Found year folder in cache after error');
+      logger.info({ folderType, folderName, folderId: retryFolder.folderEntityId }, 'Found folder in cache after error');
       return retryFolder.folderEntityId;
     }
 
@@ -116,7 +217,27 @@ async function getOrCreateYearFolder(
 }
 
 /**
- * Helper: Get or create month folder
+ * Helper: Get or create year folder
+ */
+async function getOrCreateYearFolder(
+  userId: string,
+  driveId: string,
+  parentFolderId: string,
+  year: number,
+  drivePassword?: string,
+  userJwk?: object
+): Promise<string> {
+  return getOrCreateFolder(
+    userId,
+    driveId,
+    { folderType: 'year', folderName: year.toString(), parentFolderId, year },
+    drivePassword,
+    userJwk
+  );
+}
+
+/**
+ * Helper: Get or create month folder (format: "01", "02", etc.)
  */
 async function getOrCreateMonthFolder(
   userId: string,
@@ -127,76 +248,33 @@ async function getOrCreateMonthFolder(
   drivePassword?: string,
   userJwk?: object
 ): Promise<string> {
-  const db = await getDb();
-
-  // Check if month folder exists in cache
-  const existingFolder = await (db.query as any).driveFolders?.findFirst({
-    where: and(
-      eq(driveFolders.userId, userId),
-      eq(driveFolders.driveId, driveId),
-      eq(driveFolders.folderType, 'month'),
-      eq(driveFolders.year, year),
-      eq(driveFolders.month, month)
-    ),
-  });
-
-  if (existingFolder) {
-    logger.info({ year, month, folderId: existingFolder.folderEntityId }, 'Using cached month folder');
-    return existingFolder.folderEntityId;
-  }
-
-  // Create month folder (format: "01", "02", etc.)
-  const monthStr = month.toString().padStart(2, '0');
-  logger.info({ year, month: monthStr }, 'Creating month folder');
-
-  try {
-    const { folderId } = await createFolderInDrive(
-      driveId,
-      monthStr,
-      yearFolderId,
-      drivePassword,
-      userJwk
-    );
-
-    // Save to cache
-    await db.insert(driveFolders).values({
-      userId,
-      driveId,
-      folderType: 'month',
-      folderName: monthStr,
-      parentFolderId: yearFolderId,
-      folderEntityId: folderId,
-      year,
-      month,
-    });
-
-    // Wait for indexing (reduced from 10s to 6s)
-    logger.info({ year, month: monthStr, folderId }, 'Waiting 6s for month folder indexing');
-    await new Promise(resolve => setTimeout(resolve, 6000));
-
-    return folderId;
-  } catch (error) {
-    // If folder already exists (e.g., on retry), try to find it
-    logger.warn({ year, month, error }, 'Month folder creation failed, checking if exists');
-
-    // Check cache again
-    const retryFolder = await (db.query as any).driveFolders?.findFirst({
-      where: and(
-        eq(driveFolders.userId, userId),
-        eq(driveFolders.driveId, driveId),
-        eq(driveFolders.folderType, 'month'),
-        eq(driveFolders.year, year),
-        eq(driveFolders.month, month)
-      ),
-    });
-
-    if (retryFolder) {
-      logger.info({ year, month, folderId: retryFolder.folderEntityId }, 'Found month folder in cache after error');
-      return retryFolder.folderEntityId;
-    }
+  return getOrCreateFolder(
+    userId,
+    driveId,
+    { folderType: 'month', folderName: month.toString().padStart(2, '0'), parentFolderId: yearFolderId, year, month },
+    drivePassword,
+    userJwk
+  );
+}
 
-    throw error;
-  }
+/**
+ * Helper: Get or create a named folder (e.g. a folder rule's destination)
+ */
+async function getOrCreateNamedFolder(
+  userId: string,
+  driveId: string,
+  parentFolderId: string,
+  name: string,
+  drivePassword?: string,
+  userJwk?: object
+): Promise<string> {
+  return getOrCreateFolder(
+    userId,
+    driveId,
+    { folderType: 'named', folderName: name.trim(), parentFolderId },
+    drivePassword,
+    userJwk
+  );
 }
 
 export class EmailProcessor {
@@ -206,6 +284,24 @@ export class EmailProcessor {
   async start(): Promise<void> {
     logger.info('Starting email processor worker...');
 
+    // Validate tag config up front (throws on invalid ARWEAVE_TAGS)
+    logger.info({ arweaveTags: getArweaveTagNames() }, 'Custom Arweave tags for public uploads');
+
+    // Validate pricing config up front (throws on invalid PRICING_TIERS)
+    const pricing = getPricingStrategy();
+    logger.info({ model: pricing.model, pricing: pricing.describe() }, 'Pricing strategy');
+    if (pricing.model === 'cost_plus') {
+      // Warm the quote cache so the first billable email doesn't depend on Turbo being reachable
+      await getWincQuote().catch((error) => logger.warn({ error }, 'Could not fetch initial Turbo price quote'));
+    }
+
+    // Compile notification templates and translations up front (throws on a broken TEMPLATE_DIR override)
+    validateTemplates();
+    validateLocales();
+
+    // Check outgoing mail (warns only - archiving works without notifications)
+    await verifyTransport();
+
     // Determine authentication method
     let authConfig: any;
     if (oauth2Service.isOAuth2Configured()) {
@@ -272,32 +368,52 @@ export class EmailProcessor {
   }
 
   private async processJob(job: Job<EmailJobData>): Promise<void> {
-    const { uid, folder, driveType } = job.data;
+    const { processedEmailId, driveType, destinationFolder, tags = [] } = job.data;
+    // Uploads over HTTP are already on disk and belong to the API key's owner
+    const apiUpload = job.data.source === 'api' ? job.data : undefined;
+    const uid = job.data.source === 'api' ? undefined : job.data.uid;
     const db = await getDb();
 
-    logger.info({ uid, folder, driveType, jobId: job.id, attemptsMade: job.attemptsMade }, 'Processing email...');
+    logger.info({ uid, folder: job.data.source === 'api' ? undefined : job.data.folder, apiKeyId: apiUpload?.apiKeyId, driveType, destinationFolder, tags, jobId: job.id, attemptsMade: job.attemptsMade }, 'Processing email...');
 
     const tempFiles: string[] = []; // Track all temp files for cleanup
     let userEmail: string | undefined;
     let emailSubject: string | undefined;
+    let notificationPreference: NotificationPreference | undefined; // Known once the user is resolved
 
     try {
       // Update status to processing
       await db.update(processedEmails)
         .set({ status: 'processing' })
-        .where(eq(processedEmails.uid, uid));
-
-      // 1. Fetch full email from IMAP
-      const email = await this.fetchEmail(uid, folder);
-      if (!email) {
-        throw new Error(`Could not fetch email with UID ${uid}`);
+        .where(eq(processedEmails.id, processedEmailId));
+
+      // 1. Stream raw email from IMAP to a temp file (single fetch per job)
+      // API uploads use their spooled copy (kept until the upload is settled, so retries can re-read it)
+      const rawFile = job.data.source === 'api'
+        ? getSpooledMessage(processedEmailId)
+        : await this.downloadEmail(job.data.uid, job.data.uidValidity, job.data.folder, processedEmailId);
+      if (!rawFile) {
+        throw new Error(apiUpload ? 'Uploaded message is no longer spooled' : `Could not fetch email with UID ${uid}`);
+      }
+      if (!apiUpload) {
+        tempFiles.push(rawFile.filepath);
       }
 
-      const from = email.from?.value[0]?.address;
+      // Parse headers only - the body stays on disk
+      const email = await parseEmailHeaders(rawFile.filepath);
+
+      const from = apiUpload ? apiUpload.sender : email.from?.value[0]?.address;
       if (!from) {
         throw new Error('Email has no sender');
       }
 
+      // API uploads are recorded before their headers are read
+      if (apiUpload) {
+        await db.update(processedEmails)
+          .set({ subject: email.subject ?? null, messageId: email.messageId ?? null })
+          .where(and(eq(processedEmails.id, processedEmailId), isNull(processedEmails.subject)));
+      }
+
       // Track for error notifications
       userEmail = from;
       emailSubject = email.subject;
@@ -305,12 +421,14 @@ export class EmailProcessor {
       const emailDate = email.date || new Date();
       const subject = email.subject;
 
-      logger.info({ uid, from, subject }, 'Email fetched');
+      logger.info({ uid, from, subject, sizeBytes: rawFile.sizeBytes }, 'Email fetched');
 
       // 1.5. Verify email authentication (DKIM/SPF) to prevent spoofing
-      if (shouldEnforceAuthentication()) {
-        const authResult = verifyEmailAuthentication(email, from);
-
+      // Always evaluated so the verdict can be recorded in metadata.json
+      // Not enforced for API uploads - the API key already identifies the user
+      const authEnforced = !apiUpload && shouldEnforceAuthentication();
+      const authResult = verifyEmailAuthentication(email, from);
+      if (authEnforced) {
         if (!authResult.isAuthenticated) {
           const errorMsg = `Email failed authentication: ${authResult.failureReason}`;
           logger.error(
@@ -332,9 +450,10 @@ export class EmailProcessor {
               processedAt: new Date(),
               errorMessage: `Authentication failed: ${authResult.failureReason}`,
             })
-            .where(eq(processedEmails.uid, uid));
+            .where(eq(processedEmails.id, processedEmailId));
 
           // Don't send notification to potential attacker
+          cleanupTempFiles(tempFiles);
           return;
         }
 
@@ -348,30 +467,80 @@ export class EmailProcessor {
           },
           '✅ Email authentication verified'
         );
+      } else if (apiUpload) {
+        logger.info({ from, apiKeyId: apiUpload.apiKeyId }, 'API upload (sender identified by API key)');
       } else {
         logger.warn({ uid, from }, 'Email authentication check SKIPPED (development mode)');
       }
 
-      // 2. Get or create user (validates allowlist)
-      const { user, drive } = await getOrCreateUser(from, driveType);
+      // 1.6. Bounce reports for our notifications are recorded, never archived (the sender isn't a user)
+      if (!apiUpload && isBounceReport(email)) {
+        const bounces = await handleBounceReport(await readFile(rawFile.filepath, 'utf8'));
+
+        await db.update(processedEmails)
+          .set({ status: 'completed', processedAt: new Date(), errorMessage: `Bounce report (${bounces} recorded)` })
+          .where(eq(processedEmails.id, processedEmailId));
+
+        logger.info({ uid, from, bounces }, 'Bounce report handled');
+        cleanupTempFiles(tempFiles);
+        return;
+      }
+
+      // 2. Get or create user (validates allowlist); the email's language headers set a new user's locale
+      const { user, drive } = await getOrCreateUser(from, driveType, detectEmailLocale(email.headers));
+      notificationPreference = user.notificationPreference;
 
       logger.info({ userId: user.id, email: from, driveType }, 'User validated');
 
-      // 3. Check usage limits
-      const { allowed, reason } = await canUserUpload(user.id);
-      if (!allowed) {
-        logger.warn({ userId: user.id, reason }, 'User upload blocked');
+      // 2.5. Subject-line commands (see EMAIL_COMMANDS) are answered instead of archived (never billed)
+      // Uploads are always archived, whatever their subject
+      const command = apiUpload ? null : parseEmailCommand(subject);
+      if (command) {
+        const reply = await runEmailCommand(command, user, {
+          authenticated: authResult.isAuthenticated,
+          readBody: async () => (await simpleParser(createReadStream(rawFile.filepath))).text || '',
+        });
+        if (reply) {
+          await sendCommandReplyEmail(from, reply);
+        }
 
-        const summary = await getUsageSummary(user.id);
-        await sendUsageLimitEmail(from, reason || 'Usage limit exceeded', summary);
+        await db.update(processedEmails)
+          .set({ status: 'completed', processedAt: new Date() })
+          .where(eq(processedEmails.id, processedEmailId));
+
+        logger.info({ uid, userId: user.id, command: command.name }, 'Email command handled');
+        cleanupTempFiles(tempFiles);
+        return;
+      }
+
+      // 3. Check plan limits (email count, monthly bytes, message size)
+      const { allowed, limit } = await canUserUpload(user.id, rawFile.sizeBytes);
+      if (!allowed && limit) {
+        const deferredUntil = limit.action === 'defer' ? getNextBillingPeriodStart() : undefined;
+        logger.warn({ userId: user.id, code: limit.code, action: limit.action, deferredUntil }, 'User upload limited');
+
+        // Only notify once per email, not on every deferral
+        if (!job.data.deferrals) {
+          const summary = await getUsageSummary(user.id);
+          const upgradeUrl = limit.code === 'account_disabled' ? null : await getUpgradeUrl(user);
+          await sendUsageLimitEmail(from, limit, summary, deferredUntil, upgradeUrl ?? undefined);
+        }
+
+        if (deferredUntil) {
+          await deferEmail(job.data, deferredUntil);
+        } else if (apiUpload) {
+          removeSpooledMessage(processedEmailId);
+        }
 
         await db.update(processedEmails)
           .set({
-            status: 'completed',
-            processedAt: new Date(),
-            errorMessage: `Upload blocked: ${reason}`,
+            status: deferredUntil ? 'deferred' : 'completed',
+            processedAt: deferredUntil ? null : new Date(),
+            errorMessage: `Upload ${deferredUntil ? 'deferred' : 'blocked'} (${limit.code}): ${limit.message}`,
           })
-          .where(eq(processedEmails.uid, uid));
+          .where(eq(processedEmails.id, processedEmailId));
+
+        cleanupTempFiles(tempFiles);
         return;
       }
 
@@ -402,13 +571,74 @@ export class EmailProcessor {
         logger.info('Single-wallet mode: Using master wallet for uploads');
       }
 
-      // 4. Save email as .eml file (includes all embedded attachments)
-      const emlFile = await this.saveEmailAsEml(uid, emailDate, subject);
-      if (emlFile) {
-        tempFiles.push(emlFile.filepath);
-        logger.info({ uid, emlSize: emlFile.sizeBytes }, 'Email saved as .eml');
+      // 4. The raw message is uploaded as-is as the .eml (includes all embedded attachments)
+      const emlFile = {
+        filepath: rawFile.filepath,
+        filename: buildEmlFilename(emailDate, subject),
+        sizeBytes: rawFile.sizeBytes,
+      };
+
+      // 5. Full parse (streams from disk) only when something besides the .eml is archived
+      const archiveFiles: ArchiveFile[] = [];
+      const fullEmail = config.ARCHIVE_ATTACHMENTS || config.ARCHIVE_HTML_SNAPSHOT || config.ARCHIVE_METADATA
+        ? await simpleParser(createReadStream(rawFile.filepath))
+        : null;
+      const usedNames = new Set<string>([emlFile.filename.toLowerCase()]);
+      const baseName = emlFile.filename.replace(/\.eml$/, '');
+
+      // 5.1. Optionally extract attachments as separate files
+      if (fullEmail && config.ARCHIVE_ATTACHMENTS) {
+        fullEmail.attachments.forEach((attachment, index) => {
+          const saved = saveAttachmentToTmpFile(
+            `${processedEmailId}-${index}`,
+            attachment.filename || `attachment-${index + 1}`,
+            attachment.content,
+            attachment.contentType
+          );
+          tempFiles.push(saved.path);
+
+          archiveFiles.push({
+            kind: 'attachment',
+            filepath: saved.path,
+            filename: uniqueFileName(saved.name, usedNames),
+            contentType: attachment.contentType || 'application/octet-stream',
+            sizeBytes: attachment.size,
+          });
+        });
+
+        logger.info({ uid, attachmentCount: archiveFiles.length }, 'Extracted attachments');
       }
 
+      // 5.2. Optionally render a browser-viewable snapshot (HTML, plus PDF if a converter is configured)
+      if (fullEmail && config.ARCHIVE_HTML_SNAPSHOT) {
+        const htmlPath = join(process.cwd(), 'tmp', `${processedEmailId}.html`);
+        tempFiles.push(htmlPath);
+        const html = saveHtmlSnapshot(fullEmail, htmlPath);
+        archiveFiles.push({
+          kind: 'snapshot',
+          filepath: html.filepath,
+          filename: uniqueFileName(`${baseName}.html`, usedNames),
+          contentType: 'text/html',
+          sizeBytes: html.sizeBytes,
+        });
+
+        const pdf = await renderPdf(htmlPath, join(process.cwd(), 'tmp', `${processedEmailId}.pdf`));
+        if (pdf) {
+          tempFiles.push(pdf.filepath);
+          archiveFiles.push({
+            kind: 'snapshot',
+            filepath: pdf.filepath,
+            filename: uniqueFileName(`${baseName}.pdf`, usedNames),
+            contentType: 'application/pdf',
+            sizeBytes: pdf.sizeBytes,
+          });
+        }
+
+        logger.info({ uid, pdf: !!pdf }, 'Rendered email snapshot');
+      }
+
+      const hasAttachments = archiveFiles.some((file) => file.kind === 'attachment');
+
       // 6. Get or create drive for user (private or public based on driveType)
       let driveInfo = drive;
       let isNewDrive = false;
@@ -455,7 +685,7 @@ export class EmailProcessor {
           driveKeyBase64: driveKeyBase64 || null,
           welcomeEmailSent: false,
           createdAt: new Date(),
-          drivePassword,
+          ...(drivePassword ? { drivePassword } : {}),
         };
 
         logger.info({ userId: user.id, driveId, rootFolderId, driveType }, `${driveType} drive created`);
@@ -465,10 +695,10 @@ export class EmailProcessor {
         await new Promise(resolve => setTimeout(resolve, 6000));
       }
 
-      // 7. Send welcome email if this is a new drive (only once)
-      if (isNewDrive) {
-        logger.info({ userId: user.id, driveType }, 'Sending welcome email...');
-        await sendDriveWelcomeEmail(
+      // 7. Send the welcome email until it has gone out once (a failed send is retried with the next email)
+      if (!driveInfo.welcomeEmailSent) {
+        logger.info({ userId: user.id, driveType, isNewDrive }, 'Sending welcome email...');
+        const welcomeStatus = await sendDriveWelcomeEmail(
           from,
           driveInfo.driveId,
           driveType,
@@ -476,20 +706,34 @@ export class EmailProcessor {
           user.email,
           userWallet?.address // Include wallet address in multi mode
         );
-        await markWelcomeEmailSent(user.id, driveType);
-        logger.info({ userId: user.id, driveType }, 'Welcome email sent');
+        // Queued messages are retried by the notifications worker; direct sends only count once delivered
+        if (welcomeStatus === 'sent' || welcomeStatus === 'queued') {
+          await markWelcomeEmailSent(user.id, driveType);
+        }
       }
 
-      // 8. Create folder hierarchy: Year/Month/Email
+      // 8. Create folder hierarchy: [Destination/]Year/Month
       const year = emailDate.getFullYear();
       const month = emailDate.getMonth() + 1; // JS months are 0-indexed
 
-      logger.info({ year, month }, 'Creating folder hierarchy');
+      logger.info({ year, month, destinationFolder }, 'Creating folder hierarchy');
+
+      // Folder rules can route mail into a named folder under the drive root
+      const baseFolderId = destinationFolder
+        ? await getOrCreateNamedFolder(
+          user.id,
+          driveInfo.driveId,
+          driveInfo.rootFolderId,
+          destinationFolder,
+          driveInfo.drivePassword,
+          userWallet?.jwk
+        )
+        : driveInfo.rootFolderId;
 
       const yearFolderId = await getOrCreateYearFolder(
         user.id,
         driveInfo.driveId,
-        driveInfo.rootFolderId,
+        baseFolderId,
         year,
         driveInfo.drivePassword,
         userWallet?.jwk
@@ -505,31 +749,170 @@ export class EmailProcessor {
         userWallet?.jwk
       );
 
-      // 9. Upload .eml file directly to month folder (no separate email folder needed)
-      if (!emlFile) {
-        throw new Error('No .eml file to upload');
+      // 8.1. Group into a conversation thread - replies go to a per-thread folder (Month/Thread_<subject>/)
+      // The root message stays in its month folder: it is archived before anyone replies, and moving it
+      // later would mean another ArDrive metadata transaction per thread. The thread folder is created
+      // under the month of the first reply and reused for every later reply, so a conversation that runs
+      // into the next month still ends up in one folder.
+      let thread: EmailThread | undefined;
+      let parentFolderId = monthFolderId;
+      if (config.ARCHIVE_THREADS) {
+        const assignment = await assignThread(user.id, driveInfo.driveId, email, processedEmailId);
+        thread = assignment.thread;
+
+        if (assignment.isReply) {
+          parentFolderId = thread.folderEntityId || await getOrCreateNamedFolder(
+            user.id,
+            driveInfo.driveId,
+            monthFolderId,
+            // Thread ID suffix keeps same-subject conversations apart
+            `Thread_${sanitizeName(thread.subject || 'No-Subject', 50)}_${thread.id.slice(0, 8)}`,
+            driveInfo.drivePassword,
+            userWallet?.jwk
+          );
+
+          if (!thread.folderEntityId) {
+            await setThreadFolder(thread.id, parentFolderId);
+          }
+        }
+
+        logger.info({ threadId: thread.id, isReply: assignment.isReply }, 'Assigned email thread');
       }
 
-      logger.info('Uploading .eml file to month folder');
+      // 8.5. Emails with extracted attachments get their own folder: <parent>/<date>_<subject>_<id>/
+      // The short processed email ID keeps same-day emails with the same subject apart, and the folder
+      // is recorded on the processed email right away so retries reuse it
+      let emailFolderId = parentFolderId;
+      if (hasAttachments) {
+        const processedEmail = await (db.query as any).processedEmails?.findFirst({
+          where: eq(processedEmails.id, processedEmailId),
+        });
+
+        emailFolderId = processedEmail?.folderEntityId || await getOrCreateNamedFolder(
+          user.id,
+          driveInfo.driveId,
+          parentFolderId,
+          `${baseName}_${processedEmailId.slice(0, 8)}`,
+          driveInfo.drivePassword,
+          userWallet?.jwk
+        );
+
+        await db.update(processedEmails)
+          .set({ folderEntityId: emailFolderId })
+          .where(eq(processedEmails.id, processedEmailId));
+      }
+
+      // 8.6. Custom Arweave tags (public drives only, unless the user opted out)
+      const dataGqlTags = buildUploadDataTags(user, driveType, email, tags);
+
+      // 9. Upload .eml (plus attachments and snapshots) in one bundled upload
+      logger.info({ extraFiles: archiveFiles.length }, 'Uploading .eml file');
       const uploadResults = await uploadFilesToFolder(
         driveInfo.driveId,
-        monthFolderId,
-        [{
-          filepath: emlFile.filepath,
-          filename: emlFile.filename,
-          contentType: 'message/rfc822' // Proper MIME type for .eml files
-        }],
+        emailFolderId,
+        [
+          {
+            filepath: emlFile.filepath,
+            filename: emlFile.filename,
+            contentType: 'message/rfc822', // Proper MIME type for .eml files
+            ...(dataGqlTags ? { dataGqlTags } : {}),
+          },
+          ...archiveFiles.map(({ filepath, filename, contentType }) => ({
+            filepath,
+            filename,
+            contentType,
+            ...(dataGqlTags ? { dataGqlTags } : {}),
+          })),
+        ],
         driveInfo.drivePassword,
         userWallet?.jwk // Pass user wallet in multi mode
       );
 
-      const emlUploadResult = uploadResults[0];
+      const [emlUploadResult, ...archiveUploadResults] = uploadResults;
       if (!emlUploadResult) {
         throw new Error('.eml file upload failed - no result returned');
       }
-      logger.info({ entityId: emlUploadResult.entityId }, '.eml file uploaded');
+      logger.info({ entityId: emlUploadResult.entityId, extraFilesUploaded: archiveUploadResults.length }, '.eml file uploaded');
+
+      // 9.5. Upload metadata.json sidecar (needs the entity IDs from step 9, so it's a second upload)
+      // Best-effort: the .eml is already archived, so a failed sidecar must not retry (and re-upload) the email
+      if (fullEmail && config.ARCHIVE_METADATA) {
+        try {
+          const uploadedOfKind = (kind: ArchiveFile['kind']) =>
+            archiveFiles.flatMap((file, index) => file.kind === kind ? [{ file, result: archiveUploadResults[index] }] : []);
+
+          // Attachment files were extracted in order, one per attachment
+          const uploadedAttachmentFiles = uploadedOfKind('attachment');
+          const attachmentsMetadata = describeAttachments(fullEmail)
+            .map((file, index) => withUploadResult(file, uploadedAttachmentFiles[index]?.result));
+
+          const snapshotsMetadata = await Promise.all(
+            uploadedOfKind('snapshot').map(async ({ file, result }) => withUploadResult({
+              fileName: file.filename,
+              contentType: file.contentType,
+              sizeBytes: file.sizeBytes,
+              sha256: await sha256File(file.filepath),
+            }, result))
+          );
+
+          const metadata = buildEmailMetadata({
+            email: fullEmail,
+            source: job.data.source === 'api'
+              ? { apiKeyId: job.data.apiKeyId }
+              : { folder: job.data.folder, uidValidity: job.data.uidValidity ?? null, uid: job.data.uid },
+            authResult,
+            authEnforced,
+            drive: { driveId: driveInfo.driveId, driveType, folderId: emailFolderId },
+            eml: withUploadResult({
+              fileName: emlFile.filename,
+              contentType: 'message/rfc822',
+              sizeBytes: emlFile.sizeBytes,
+              sha256: await sha256File(emlFile.filepath),
+            }, emlUploadResult),
+            attachments: attachmentsMetadata,
+            snapshots: snapshotsMetadata,
+            ...(thread ? { thread: { id: thread.id, rootMessageId: thread.rootMessageId } } : {}),
+          });
+
+          const metadataPath = join(process.cwd(), 'tmp', `${processedEmailId}.metadata.json`);
+          tempFiles.push(metadataPath);
+          const metadataFile: ArchiveFile = {
+            kind: 'metadata',
+            filepath: metadataPath,
+            // The per-email folder only holds this email's files
+            filename: hasAttachments ? 'metadata.json' : `${baseName}.metadata.json`,
+            contentType: 'application/json',
+            sizeBytes: saveEmailMetadata(metadata, metadataPath).sizeBytes,
+          };
+
+          const [metadataResult] = await uploadFilesToFolder(
+            driveInfo.driveId,
+            emailFolderId,
+            [{
+              filepath: metadataFile.filepath,
+              filename: metadataFile.filename,
+              contentType: metadataFile.contentType,
+              ...(dataGqlTags ? { dataGqlTags } : {}),
+            }],
+            driveInfo.drivePassword,
+            userWallet?.jwk
+          );
+
+          if (metadataResult) {
+            archiveFiles.push(metadataFile);
+            archiveUploadResults.push(metadataResult);
+            logger.info({ entityId: metadataResult.entityId }, 'metadata.json uploaded');
+          }
+        } catch (error) {
+          logger.warn({ error, processedEmailId }, 'metadata.json upload failed, email archived without it');
+        }
+      }
+
+      // 10. Record usage and the .eml upload in database
+      // Billed once per email; bytes include the separately stored files
+      const archiveBytes = archiveFiles.reduce((total, file) => total + file.sizeBytes, 0);
+      const { cost } = await recordUpload(user.id, emlFile.sizeBytes + archiveBytes);
 
-      // 10. Record .eml upload in database
       await db.insert(uploads).values({
         userId: user.id,
         emailMessageId: email.messageId || null,
@@ -541,54 +924,95 @@ export class EmailProcessor {
         entityId: emlUploadResult.entityId,
         dataTxId: emlUploadResult.dataTxId || null,
         fileKey: emlUploadResult.fileKey || null,
-        emailFolderEntityId: monthFolderId, // Store month folder ID for organization
+        emailFolderEntityId: emailFolderId, // Store folder ID for organization
+        priceUsd: cost,
         completedAt: new Date(),
       });
 
-      await recordUpload(user.id, emlFile.sizeBytes);
+      // Record attachments, snapshots and metadata (results come back in upload order)
+      const uploadedAttachments: UploadedFile[] = [];
+      const uploadedSnapshots: UploadedFile[] = [];
+      for (const [index, result] of archiveUploadResults.entries()) {
+        const archiveFile = archiveFiles[index];
+        if (!archiveFile) break;
+
+        await db.insert(uploads).values({
+          userId: user.id,
+          emailMessageId: email.messageId || null,
+          fileName: result.fileName,
+          sizeBytes: archiveFile.sizeBytes,
+          contentType: archiveFile.contentType,
+          status: 'completed',
+          driveId: driveInfo.driveId,
+          entityId: result.entityId,
+          dataTxId: result.dataTxId || null,
+          fileKey: result.fileKey || null,
+          emailFolderEntityId: emailFolderId,
+          completedAt: new Date(),
+        });
+
+        if (archiveFile.kind === 'metadata') continue;
+
+        (archiveFile.kind === 'attachment' ? uploadedAttachments : uploadedSnapshots).push({
+          fileName: result.fileName,
+          entityId: result.entityId,
+          ...(result.dataTxId ? { dataTxId: result.dataTxId } : {}),
+          ...(result.fileKey ? { fileKey: result.fileKey } : {}),
+        });
+      }
 
       // 11. Update processedEmails with .eml info
       await db.update(processedEmails)
         .set({
-          folderEntityId: monthFolderId, // Month folder where .eml is stored
+          folderEntityId: emailFolderId, // Folder where .eml is stored
           folderName: `${year}-${String(month).padStart(2, '0')}`, // e.g., "2025-10"
           emlFileEntityId: emlUploadResult.entityId,
           emlFileKey: emlUploadResult.fileKey || null,
         })
-        .where(eq(processedEmails.uid, uid));
+        .where(eq(processedEmails.id, processedEmailId));
 
-      // 12. Send confirmation email
-      const summary = await getUsageSummary(user.id);
-
-      const emlInfo = {
-        fileName: emlUploadResult.fileName,
-        entityId: emlUploadResult.entityId,
-        fileKey: emlUploadResult.fileKey,
-      };
+      if (thread) {
+        await recordThreadMessage(thread.id, processedEmailId, emailDate);
+      }
 
-      await sendUploadConfirmation(
-        from,
-        emlInfo,
-        subject || 'No Subject',
-        summary,
-        driveType
-      );
+      // 12. Send confirmation email (digest users get it in their daily/weekly digest instead)
+      // Best-effort: the email is already archived, so a failure here must not retry (and re-upload) it
+      if (user.notificationPreference === 'immediate') {
+        try {
+          const summary = await getUsageSummary(user.id);
 
-      logger.info({ userId: user.id, driveType }, 'Confirmation email sent');
+          const emlInfo = {
+            fileName: emlUploadResult.fileName,
+            entityId: emlUploadResult.entityId,
+            fileKey: emlUploadResult.fileKey,
+          };
 
-      // 14. Clean up temp files
-      for (const filepath of tempFiles) {
-        try {
-          unlinkSync(filepath);
+          await sendUploadConfirmation(
+            from,
+            emlInfo,
+            subject || 'No Subject',
+            summary,
+            driveType,
+            uploadedAttachments,
+            uploadedSnapshots
+          );
         } catch (error) {
-          logger.warn({ filepath }, 'Failed to cleanup temp file');
+          logger.error({ error, userId: user.id }, 'Failed to send confirmation email');
         }
+      } else {
+        logger.info({ userId: user.id, notificationPreference: user.notificationPreference }, 'Confirmation email skipped (notification preference)');
+      }
+
+      // 14. Clean up temp files (and the spooled copy of an API upload)
+      cleanupTempFiles(tempFiles);
+      if (apiUpload) {
+        removeSpooledMessage(processedEmailId);
       }
 
       // 15. Mark as completed
       await db.update(processedEmails)
         .set({ status: 'completed', processedAt: new Date() })
-        .where(eq(processedEmails.uid, uid));
+        .where(eq(processedEmails.id, processedEmailId));
 
       logger.info({ uid, userId: user.id }, 'Email processing complete');
     } catch (error) {
@@ -596,13 +1020,7 @@ export class EmailProcessor {
       logger.error({ uid, error, attemptsMade: job.attemptsMade }, 'Error processing email');
 
       // Clean up temp files on error
-      for (const filepath of tempFiles) {
-        try {
-          unlinkSync(filepath);
-        } catch (cleanupError) {
-          logger.warn({ filepath }, 'Failed to cleanup temp file after error');
-        }
-      }
+      cleanupTempFiles(tempFiles);
 
       // Mark as failed
       await db.update(processedEmails)
@@ -611,14 +1029,15 @@ export class EmailProcessor {
           errorMessage,
           processedAt: new Date(),
         })
-        .where(eq(processedEmails.uid, uid));
+        .where(eq(processedEmails.id, processedEmailId));
 
       // Send error notification email on final failure (after all retries exhausted)
       // BullMQ default: 3 attempts (attemptsMade starts at 1)
       const maxAttempts = 3;
       const isFinalFailure = job.attemptsMade >= maxAttempts;
 
-      if (isFinalFailure && userEmail) {
+      // Digest users see failures in their next digest ('off' means no archive notifications at all)
+      if (isFinalFailure && userEmail && (notificationPreference ?? 'immediate') === 'immediate') {
         logger.warn({ uid, userEmail, attemptsMade: job.attemptsMade }, 'Final failure - sending error email to user');
         try {
           await sendUploadErrorEmail(
@@ -636,36 +1055,16 @@ export class EmailProcessor {
     }
   }
 
-  private async fetchEmail(uid: number, folder: string): Promise<ParsedMail | null> {
-    if (!this.imapClient) {
-      throw new Error('IMAP client not connected');
-    }
-
-    const lock = await this.imapClient.getMailboxLock(folder);
-
-    try {
-      // Fetch full email
-      const message = await this.imapClient.fetchOne(String(uid), {
-        source: true,
-      });
-
-      if (!message || !message.source) {
-        return null;
-      }
-
-      // Parse email
-      const parsed = await simpleParser(message.source);
-      return parsed;
-    } finally {
-      lock.release();
-    }
-  }
-
-  private async saveEmailAsEml(
+  /**
+   * Stream the raw RFC822 source of a message to a temp file
+   * Avoids holding large messages in memory
+   */
+  private async downloadEmail(
     uid: number,
-    emailDate: Date,
-    subject: string | undefined
-  ): Promise<{ filepath: string; filename: string; sizeBytes: number } | null> {
+    uidValidity: number | undefined,
+    folder: string,
+    processedEmailId: string
+  ): Promise<{ filepath: string; sizeBytes: number } | null> {
     if (!this.imapClient) {
       throw new Error('IMAP client not connected');
     }
@@ -673,41 +1072,39 @@ export class EmailProcessor {
     const tmpDir = join(process.cwd(), 'tmp');
     mkdirSync(tmpDir, { recursive: true });
 
-    const lock = await this.imapClient.getMailboxLock('INBOX');
+    const lock = await this.imapClient.getMailboxLock(folder);
 
     try {
-      // Fetch raw email source
-      const message = await this.imapClient.fetchOne(String(uid), {
-        source: true,
-      });
-
-      if (!message || !message.source) {
-        logger.warn({ uid }, 'Could not fetch email source for .eml');
-        return null;
+      // UIDs from a previous UIDVALIDITY may now point at a different message
+      // (jobs queued before UIDVALIDITY was tracked don't carry one and are fetched as-is)
+      const currentUidValidity = this.imapClient.mailbox ? Number(this.imapClient.mailbox.uidValidity) : undefined;
+      if (uidValidity !== undefined && currentUidValidity !== uidValidity) {
+        throw new Error(`UIDVALIDITY of ${folder} changed since message was queued (${uidValidity} -> ${currentUidValidity})`);
       }
 
-      const emailSource = message.source;
-      const sizeBytes = Buffer.byteLength(emailSource);
-
-      // Check 50MB limit
-      const FIFTY_MB = 50 * 1024 * 1024;
-      if (sizeBytes > FIFTY_MB) {
-        logger.warn({ uid, sizeBytes, limit: FIFTY_MB }, 'Email exceeds 50MB limit, skipping .eml save');
+      const { content } = await this.imapClient.download(String(uid), undefined, { uid: true });
+      if (!content) {
+        logger.warn({ uid, folder }, 'Could not fetch email source');
         return null;
       }
 
-      // Create filename: YYYY-MM-DD_Subject.eml
-      const dateStr = emailDate.toISOString().split('T')[0];
-      const sanitizedSubject = subject ? sanitizeName(subject, 50) : 'No-Subject';
-      const filename = `${dateStr}_${sanitizedSubject}.eml`;
-      const filepath = join(tmpDir, `${uid}-${filename}`);
-
-      // Save .eml file
-      writeFileSync(filepath, emailSource);
+      const filepath = join(tmpDir, `${processedEmailId}.eml`);
+      try {
+        await pipeline(content, createWriteStream(filepath));
+      } catch (error) {
+        // Don't leave a partial source behind
+        try {
+          unlinkSync(filepath);
+        } catch (cleanupError) {
+          logger.warn({ filepath }, 'Failed to cleanup partial email source');
+        }
+        throw error;
+      }
 
-      logger.info({ uid, filename, sizeBytes }, 'Saved email as .eml');
+      const sizeBytes = statSync(filepath).size;
+      logger.info({ uid, folder, sizeBytes }, 'Downloaded raw email');
 
-      return { filepath, filename, sizeBytes };
+      return { filepath, sizeBytes };
     } finally {
       lock.release();
     }
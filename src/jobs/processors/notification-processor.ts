@@ -0,0 +1,56 @@
+import { Job, Worker, UnrecoverableError } from 'bullmq';
+import { config } from '../../config/env';
+import { createLogger } from '../../config/logger';
+import { deliverNotification, PermanentDeliveryError } from '../../services/notification-service';
+import { type NotificationJobData } from '../queue';
+
+const logger = createLogger('notification-processor');
+
+export class NotificationProcessor {
+  private worker: Worker | null = null;
+
+  async start(): Promise<void> {
+    logger.info('Starting notification worker...');
+
+    this.worker = new Worker('notifications', this.processJob.bind(this), {
+      connection: {
+        host: new URL(config.REDIS_URL).hostname,
+        port: parseInt(new URL(config.REDIS_URL).port) || 6379,
+      },
+      concurrency: config.SMTP_POOL_SIZE, // One job per pooled SMTP connection
+    });
+
+    this.worker.on('failed', (job, error) => {
+      logger.error({ jobId: job?.id, attemptsMade: job?.attemptsMade, error }, 'Notification delivery failed');
+    });
+
+    logger.info('Notification worker started');
+  }
+
+  async stop(): Promise<void> {
+    logger.info('Stopping notification worker...');
+
+    if (this.worker) {
+      await this.worker.close();
+      this.worker = null;
+    }
+
+    logger.info('Notification worker stopped');
+  }
+
+  private async processJob(job: Job<NotificationJobData>): Promise<void> {
+    const { notificationId, message } = job.data;
+    const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+    try {
+      await deliverNotification(notificationId, { ...message, to: String(message.to) }, finalAttempt);
+      logger.info({ notificationId, to: message.to, subject: message.subject }, 'Notification sent');
+    } catch (error) {
+      // Bounced: don't retry, the address may now be suppressed
+      if (error instanceof PermanentDeliveryError) {
+        throw new UnrecoverableError(error.message);
+      }
+      throw error; // Let BullMQ retry with backoff
+    }
+  }
+}
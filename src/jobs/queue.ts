@@ -1,4 +1,5 @@
-import { Queue, QueueEvents } from 'bullmq';
+import { Queue, QueueEvents, type Job } from 'bullmq';
+import { type SendMailOptions } from 'nodemailer';
 import { config } from '../config/env';
 import { createLogger } from '../config/logger';
 
@@ -45,29 +46,133 @@ queueEvents.on('retrying', ({ jobId, attemptsMade }) => {
 });
 
 // Job data interfaces
-export interface EmailJobData {
+interface EmailJobBase {
+  processedEmailId: string; // processed_emails row tracking this message
+  driveType: 'private' | 'public'; // Drive type based on folder rule or destination alias
+  destinationFolder?: string; // Named ArDrive folder to archive into (folder rule or alias route)
+  tags?: string[]; // Route tags (alias route tags and plus-address tags)
+  deferrals?: number; // Times the email was held back by a plan limit
+  queuedAt: number; // Timestamp
+}
+
+// Message found in a monitored IMAP folder (fetched by the job)
+export interface ImapEmailJobData extends EmailJobBase {
+  source?: 'imap'; // Unset on jobs queued before API uploads existed
   uid: number; // IMAP UID
+  uidValidity?: number; // Folder UIDVALIDITY when the message was queued (unset on jobs queued before it was tracked)
   folder: string; // IMAP folder (INBOX, [Gmail]/Spam, etc.)
-  driveType: 'private' | 'public'; // Drive type based on destination email address
-  queuedAt: number; // Timestamp
 }
 
+// Message uploaded over HTTP (spooled on disk, see api-ingest)
+export interface ApiEmailJobData extends EmailJobBase {
+  source: 'api';
+  sender: string; // Address of the key's owner - archived as this user, whatever the From header says
+  apiKeyId: string;
+}
+
+export type EmailJobData = ImapEmailJobData | ApiEmailJobData;
+
 // Helper function to add email to queue
-export async function queueEmail(uid: number, folder: string, driveType: 'private' | 'public' = 'private'): Promise<void> {
+export async function queueEmail(data: Omit<ImapEmailJobData, 'queuedAt'>): Promise<void> {
+  await emailQueue.add('process-email', {
+    ...data,
+    queuedAt: Date.now(),
+  } as EmailJobData);
+
+  logger.info({ uid: data.uid, folder: data.folder, driveType: data.driveType }, 'Email queued for processing');
+}
+
+// Add an uploaded (spooled) message to the queue
+export async function queueApiEmail(data: Omit<ApiEmailJobData, 'queuedAt' | 'source'>): Promise<void> {
   await emailQueue.add('process-email', {
-    uid,
-    folder,
-    driveType,
+    ...data,
+    source: 'api',
     queuedAt: Date.now(),
   } as EmailJobData);
 
-  logger.info({ uid, folder, driveType }, 'Email queued for processing');
+  logger.info({ processedEmailId: data.processedEmailId, apiKeyId: data.apiKeyId, driveType: data.driveType }, 'Uploaded email queued for processing');
+}
+
+// Re-queue an email held back by a plan limit, to run again at `until`
+export async function deferEmail(data: EmailJobData, until: Date): Promise<void> {
+  await emailQueue.add('process-email', {
+    ...data,
+    deferrals: (data.deferrals || 0) + 1,
+  } as EmailJobData, {
+    delay: Math.max(0, until.getTime() - Date.now()),
+  });
+
+  logger.info({ processedEmailId: data.processedEmailId, source: data.source ?? 'imap', until }, 'Email deferred');
+}
+
+// Failed email job of a processed_emails row (failed jobs are kept, see removeOnFail)
+async function findFailedEmailJob(processedEmailId: string): Promise<Job<EmailJobData> | undefined> {
+  const failed: Job<EmailJobData>[] = await emailQueue.getFailed();
+  return failed.find((job) => job.data.processedEmailId === processedEmailId);
+}
+
+// Run a failed email job again with a fresh set of attempts (false if there is no failed job)
+export async function retryFailedEmail(processedEmailId: string): Promise<boolean> {
+  const job = await findFailedEmailJob(processedEmailId);
+  if (!job) {
+    return false;
+  }
+
+  await job.retry('failed', { resetAttemptsMade: true });
+
+  logger.info({ jobId: job.id, processedEmailId }, 'Failed email job retried');
+  return true;
+}
+
+// Remove a failed email job for good (false if there is no failed job)
+export async function discardFailedEmail(processedEmailId: string): Promise<boolean> {
+  const job = await findFailedEmailJob(processedEmailId);
+  if (!job) {
+    return false;
+  }
+
+  await job.remove();
+
+  logger.info({ jobId: job.id, processedEmailId }, 'Failed email job discarded');
+  return true;
+}
+
+// Outbound notification queue (retried independently of the email that triggered it)
+export const notificationQueue = new Queue('notifications', {
+  connection: {
+    host: new URL(config.REDIS_URL).hostname,
+    port: parseInt(new URL(config.REDIS_URL).port) || 6379,
+  },
+  defaultJobOptions: {
+    attempts: config.NOTIFICATION_MAX_ATTEMPTS,
+    backoff: {
+      type: 'exponential',
+      delay: 30000, // 30s, 1m, 2m, 4m, ...
+    },
+    removeOnComplete: true, // Jobs carry the rendered message (never one with drive or file keys) - the notifications table keeps the record
+    removeOnFail: {
+      age: 7 * 24 * 60 * 60, // Keep failed jobs for 7 days
+    },
+  },
+});
+
+export interface NotificationJobData {
+  notificationId: string; // notifications row tracking this message
+  message: SendMailOptions; // Rendered message (to, subject, text, html, headers)
+}
+
+// Helper function to add a rendered notification to the queue
+export async function queueNotification(data: NotificationJobData): Promise<void> {
+  await notificationQueue.add('send-notification', data, { jobId: data.notificationId });
+
+  logger.debug({ notificationId: data.notificationId }, 'Notification queued');
 }
 
 // Graceful shutdown
 export async function closeQueue(): Promise<void> {
   logger.info('Closing job queue...');
   await emailQueue.close();
+  await notificationQueue.close();
   await queueEvents.close();
   logger.info('Job queue closed');
 }
@@ -0,0 +1,39 @@
+import cron, { type ScheduledTask } from 'node-cron';
+import { createLogger } from '../config/logger';
+import { config } from '../config/env';
+import { sweepSpool } from '../services/api-ingest';
+
+const logger = createLogger('spool-job');
+
+const SWEEP_CRON = '30 4 * * *'; // Daily at 04:30
+
+let spoolTask: ScheduledTask | null = null;
+
+/**
+ * Schedule the daily sweep of expired API upload spool files (API_SPOOL_RETENTION_DAYS)
+ */
+export function startSpoolJob(): void {
+  spoolTask = cron.schedule(
+    SWEEP_CRON,
+    async () => {
+      try {
+        await sweepSpool();
+      } catch (error) {
+        logger.error({ error }, 'Spool sweep failed');
+      }
+    },
+    { name: 'spool-sweep', noOverlap: true }
+  );
+
+  logger.info({ schedule: SWEEP_CRON, retentionDays: config.API_SPOOL_RETENTION_DAYS }, 'Spool sweep scheduled');
+}
+
+/**
+ * Stop the scheduled spool sweep
+ */
+export async function stopSpoolJob(): Promise<void> {
+  if (spoolTask) {
+    await spoolTask.stop();
+    spoolTask = null;
+  }
+}
@@ -0,0 +1,199 @@
+import { describe, test, expect, beforeAll, beforeEach, type Mock } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import { getDb } from '../database/db';
+import { users, processedEmails, type User, type ProcessedEmail } from '../database/schema';
+import * as queue from '../jobs/queue';
+import { createApiKey, createUserApiKey } from './api-keys';
+import { handleAdminRequest } from './admin-api';
+
+const retryFailedEmail = queue.retryFailedEmail as Mock<typeof queue.retryFailedEmail>;
+const discardFailedEmail = queue.discardFailedEmail as Mock<typeof queue.discardFailedEmail>;
+
+let adminKey: string;
+
+async function createUser(email = `admin-${crypto.randomUUID()}@example.com`): Promise<User> {
+  const db = await getDb();
+  const [user] = await db.insert(users).values({ email }).returning();
+  return user!;
+}
+
+async function createFailedEmail(): Promise<ProcessedEmail> {
+  const db = await getDb();
+  const [email] = await db.insert(processedEmails).values({
+    folder: 'INBOX',
+    sender: 'alice@example.com',
+    status: 'failed',
+    errorMessage: 'Turbo upload failed',
+    processedAt: new Date(),
+  }).returning();
+  return email!;
+}
+
+async function reloadEmail(email: ProcessedEmail): Promise<ProcessedEmail> {
+  const db = await getDb();
+  const [row] = await db.select().from(processedEmails).where(eq(processedEmails.id, email.id));
+  return row!;
+}
+
+async function reload(user: User): Promise<User> {
+  const db = await getDb();
+  const [row] = await db.select().from(users).where(eq(users.id, user.id));
+  return row!;
+}
+
+function request(method: string, path: string, body?: unknown, key: string | null = adminKey) {
+  return handleAdminRequest({
+    method,
+    url: new URL(path, 'http://localhost'),
+    authorization: key ? `Bearer ${key}` : undefined,
+    body: body === undefined ? null : JSON.stringify(body),
+  });
+}
+
+beforeAll(async () => {
+  adminKey = (await createApiKey('admin-api test')).key;
+});
+
+beforeEach(() => {
+  retryFailedEmail.mockReset();
+  retryFailedEmail.mockResolvedValue(false);
+  discardFailedEmail.mockReset();
+  discardFailedEmail.mockResolvedValue(false);
+});
+
+describe('handleAdminRequest', () => {
+  test('rejects requests without an admin API key', async () => {
+    const user = await createUser();
+    const userKey = (await createUserApiKey(user.id, 'test'))!.key;
+
+    expect(await request('GET', '/admin/users', undefined, null)).toEqual({ statusCode: 401, body: { error: 'Unauthorized' } });
+    expect((await request('GET', '/admin/users', undefined, 'fwd_not-a-key')).statusCode).toBe(401);
+    expect((await request('GET', '/admin/users', undefined, userKey)).statusCode).toBe(401);
+  });
+
+  test('answers 404 for unknown paths and users, 405 for the wrong method', async () => {
+    expect(await request('GET', '/admin/nothing')).toEqual({ statusCode: 404, body: { error: 'Not found' } });
+    expect(await request('GET', `/admin/users/${crypto.randomUUID()}`)).toEqual({ statusCode: 404, body: { error: 'User not found' } });
+    expect(await request('DELETE', '/admin/users')).toEqual({ statusCode: 405, body: { error: 'Method not allowed' } });
+  });
+
+  test('reports invalid query parameters and bodies as 400 with the issues', async () => {
+    expect(await request('GET', '/admin/users?limit=0&plan=gold')).toMatchObject({
+      statusCode: 400,
+      body: {
+        error: 'Invalid request',
+        issues: [expect.objectContaining({ path: 'limit' }), expect.objectContaining({ path: 'plan' })],
+      },
+    });
+
+    const response = await handleAdminRequest({
+      method: 'PATCH',
+      url: new URL(`/admin/users/${(await createUser()).id}`, 'http://localhost'),
+      authorization: `Bearer ${adminKey}`,
+      body: '{not json',
+    });
+    expect(response).toEqual({ statusCode: 400, body: { error: 'Request body is not valid JSON' } });
+  });
+});
+
+describe('GET /admin/users', () => {
+  test('treats % and _ in the search as literal characters', async () => {
+    const token = crypto.randomUUID();
+    const underscore = await createUser(`${token}_a@example.com`);
+    await createUser(`${token}xa@example.com`);
+    const percent = await createUser(`${token}%b@example.com`);
+    await createUser(`${token}-any-b@example.com`);
+
+    const response = await request('GET', `/admin/users?search=${encodeURIComponent(`${token}_a`)}`);
+    expect(response.body).toMatchObject({ total: 1, users: [{ id: underscore.id }] });
+
+    const percentResponse = await request('GET', `/admin/users?search=${encodeURIComponent(`${token}%b`)}`);
+    expect(percentResponse.body).toMatchObject({ total: 1, users: [{ id: percent.id }] });
+  });
+});
+
+describe('POST /admin/emails/:id/retry', () => {
+  test('marks the email queued before the job is re-run', async () => {
+    const email = await createFailedEmail();
+    let statusAtRetry: string | undefined;
+    retryFailedEmail.mockImplementationOnce(async () => {
+      statusAtRetry = (await reloadEmail(email)).status;
+      return true;
+    });
+
+    const response = await request('POST', `/admin/emails/${email.id}/retry`);
+
+    expect(response).toEqual({ statusCode: 202, body: { id: email.id, status: 'queued' } });
+    expect(statusAtRetry).toBe('queued');
+    expect(await reloadEmail(email)).toMatchObject({ status: 'queued', errorMessage: null, processedAt: null });
+  });
+
+  test('restores the failure when there is no job to retry', async () => {
+    const email = await createFailedEmail();
+
+    const response = await request('POST', `/admin/emails/${email.id}/retry`);
+
+    expect(response.statusCode).toBe(409);
+    expect(await reloadEmail(email)).toMatchObject({ status: 'failed', errorMessage: 'Turbo upload failed', processedAt: email.processedAt });
+  });
+
+  test('restores the failure when the queue is unavailable', async () => {
+    const email = await createFailedEmail();
+    retryFailedEmail.mockRejectedValueOnce(new Error('Redis unavailable'));
+
+    await expect(request('POST', `/admin/emails/${email.id}/retry`)).rejects.toThrow('Redis unavailable');
+    expect((await reloadEmail(email)).status).toBe('failed');
+  });
+
+  test('only retries failed emails', async () => {
+    const email = await createFailedEmail();
+    const db = await getDb();
+    await db.update(processedEmails).set({ status: 'completed' }).where(eq(processedEmails.id, email.id));
+
+    expect((await request('POST', `/admin/emails/${email.id}/retry`)).statusCode).toBe(409);
+    expect(retryFailedEmail).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /admin/emails/:id/discard', () => {
+  test('completes the email so it is never picked up again', async () => {
+    const email = await createFailedEmail();
+    discardFailedEmail.mockResolvedValueOnce(true);
+
+    const response = await request('POST', `/admin/emails/${email.id}/discard`);
+
+    expect(response).toEqual({ statusCode: 200, body: { id: email.id, status: 'completed', jobRemoved: true } });
+    expect(await reloadEmail(email)).toMatchObject({ status: 'completed', errorMessage: 'Discarded by admin: Turbo upload failed' });
+  });
+});
+
+describe('PATCH /admin/users/:id', () => {
+  test('opts a user out of custom Arweave tags', async () => {
+    const user = await createUser();
+
+    const response = await request('PATCH', `/admin/users/${user.id}`, { arweaveTagsOptOut: true });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toMatchObject({ user: { id: user.id, arweaveTagsOptOut: true, allowed: true } });
+    expect((await reload(user)).arweaveTagsOptOut).toBe(true);
+  });
+
+  test('disables a user', async () => {
+    const user = await createUser();
+
+    const response = await request('PATCH', `/admin/users/${user.id}`, { allowed: false });
+
+    expect(response.statusCode).toBe(200);
+    expect(await reload(user)).toMatchObject({ allowed: false, arweaveTagsOptOut: false });
+  });
+
+  test('rejects an empty or unknown update', async () => {
+    const user = await createUser();
+
+    expect((await request('PATCH', `/admin/users/${user.id}`, {})).statusCode).toBe(400);
+    expect(await request('PATCH', `/admin/users/${user.id}`, { plan: 'paid' })).toMatchObject({
+      statusCode: 400,
+      body: { error: 'Invalid request', issues: expect.arrayContaining([expect.objectContaining({ message: expect.stringContaining('plan') })]) },
+    });
+  });
+});
@@ -0,0 +1,360 @@
+import { z } from 'zod';
+import { eq, and, desc, count, sql, type SQL } from 'drizzle-orm';
+import { getDb } from '../database/db';
+import { users, userDrives, uploads, usage, processedEmails, type ProcessedEmail, type User } from '../database/schema';
+import { createLogger } from '../config/logger';
+import { verifyApiKey, type ApiKeyInfo } from './api-keys';
+import { setUserAllowed, setArweaveTagsOptOut } from './user-service';
+import { getUsageSummary } from './usage-service';
+import { removeSpooledMessage } from './api-ingest';
+import { retryFailedEmail, discardFailedEmail } from '../jobs/queue';
+
+const logger = createLogger('admin-api');
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export interface AdminResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+export interface AdminRequest {
+  method: string;
+  url: URL;
+  authorization: string | undefined;
+  body: string | null; // Raw JSON body (PATCH/POST)
+}
+
+// Request schemas (query strings arrive as strings, hence the coercion)
+const paginationSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const listUsersQuery = paginationSchema.extend({
+  search: z.string().trim().min(1).max(254).optional(), // Part of the email address
+  plan: z.enum(users.plan.enumValues).optional(),
+  allowed: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+});
+
+const listUploadsQuery = paginationSchema.extend({
+  status: z.enum(uploads.status.enumValues).optional(),
+});
+
+const listEmailsQuery = paginationSchema.extend({
+  status: z.enum(processedEmails.status.enumValues).optional(),
+  sender: z.string().trim().min(1).max(254).optional(),
+});
+
+const updateUserBody = z.object({
+  allowed: z.boolean().optional(),
+  arweaveTagsOptOut: z.boolean().optional(), // No custom Arweave tags on the user's public uploads
+}).strict().refine((body) => Object.keys(body).length > 0, 'Nothing to update');
+
+type Handler = (params: string[], query: Record<string, string>, body: unknown, apiKey: ApiKeyInfo) => Promise<AdminResponse>;
+
+class AdminError extends Error {
+  constructor(public readonly statusCode: number, message: string, public readonly issues?: Array<{ path: string; message: string }>) {
+    super(message);
+    this.name = 'AdminError';
+  }
+}
+
+function parse<T extends z.ZodType>(schema: T, input: unknown): z.infer<T> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new AdminError(400, 'Invalid request', result.error.issues.map((issue) => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    })));
+  }
+  return result.data;
+}
+
+// Columns that are safe to return (no encrypted wallet material)
+const userColumns = {
+  id: users.id,
+  email: users.email,
+  emailVerified: users.emailVerified,
+  allowed: users.allowed,
+  plan: users.plan,
+  stripeCustomerId: users.stripeCustomerId,
+  userWalletAddress: users.userWalletAddress,
+  seedPhraseDownloadedAt: users.seedPhraseDownloadedAt,
+  arweaveTagsOptOut: users.arweaveTagsOptOut,
+  notificationPreference: users.notificationPreference,
+  locale: users.locale,
+  createdAt: users.createdAt,
+  updatedAt: users.updatedAt,
+};
+
+// No drive passwords or drive keys
+const driveColumns = {
+  id: userDrives.id,
+  driveId: userDrives.driveId,
+  driveType: userDrives.driveType,
+  rootFolderId: userDrives.rootFolderId,
+  welcomeEmailSent: userDrives.welcomeEmailSent,
+  createdAt: userDrives.createdAt,
+};
+
+// No file keys
+const uploadColumns = {
+  id: uploads.id,
+  emailMessageId: uploads.emailMessageId,
+  fileName: uploads.fileName,
+  sizeBytes: uploads.sizeBytes,
+  contentType: uploads.contentType,
+  status: uploads.status,
+  driveId: uploads.driveId,
+  entityId: uploads.entityId,
+  dataTxId: uploads.dataTxId,
+  priceUsd: uploads.priceUsd,
+  errorMessage: uploads.errorMessage,
+  createdAt: uploads.createdAt,
+  completedAt: uploads.completedAt,
+};
+
+// No file keys
+const emailColumns = {
+  id: processedEmails.id,
+  source: processedEmails.source,
+  folder: processedEmails.folder,
+  uid: processedEmails.uid,
+  messageId: processedEmails.messageId,
+  sender: processedEmails.sender,
+  subject: processedEmails.subject,
+  status: processedEmails.status,
+  errorMessage: processedEmails.errorMessage,
+  folderName: processedEmails.folderName,
+  apiKeyId: processedEmails.apiKeyId,
+  queuedAt: processedEmails.queuedAt,
+  processedAt: processedEmails.processedAt,
+};
+
+async function findUser(id: string): Promise<Pick<User, keyof typeof userColumns>> {
+  const db = await getDb();
+  const [user] = await db.select(userColumns).from(users).where(eq(users.id, id));
+  if (!user) {
+    throw new AdminError(404, 'User not found');
+  }
+  return user;
+}
+
+async function findFailedEmail(id: string): Promise<ProcessedEmail> {
+  const db = await getDb();
+
+  const email: ProcessedEmail | undefined = await (db.query as any).processedEmails?.findFirst({
+    where: eq(processedEmails.id, id),
+  });
+
+  if (!email) {
+    throw new AdminError(404, 'Email not found');
+  }
+  if (email.status !== 'failed') {
+    throw new AdminError(409, `Only failed emails can be retried or discarded (status: ${email.status})`);
+  }
+  return email;
+}
+
+/**
+ * Escape LIKE wildcards so a search for "a_b" doesn't also match "axb" (used with ESCAPE '\')
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+const listUsers: Handler = async (_params, query) => {
+  const { limit, offset, search, plan, allowed } = parse(listUsersQuery, query);
+  const db = await getDb();
+
+  const filters: SQL[] = [];
+  if (search) {
+    const pattern = `%${escapeLike(search.toLowerCase())}%`;
+    filters.push(sql`${users.email} like ${pattern} escape '\\'`);
+  }
+  if (plan) filters.push(eq(users.plan, plan));
+  if (allowed !== undefined) filters.push(eq(users.allowed, allowed));
+  const where = filters.length > 0 ? and(...filters) : undefined;
+
+  const [rows, [total]] = await Promise.all([
+    db.select(userColumns).from(users).where(where).orderBy(desc(users.createdAt)).limit(limit).offset(offset),
+    db.select({ total: count() }).from(users).where(where),
+  ]);
+
+  return { statusCode: 200, body: { users: rows, total: total?.total ?? 0, limit, offset } };
+};
+
+const getUser: Handler = async ([id]) => {
+  const user = await findUser(id!);
+  const usageSummary = await getUsageSummary(user.id);
+
+  return { statusCode: 200, body: { user, usage: usageSummary } };
+};
+
+const updateUser: Handler = async ([id], _query, body, apiKey) => {
+  const { allowed, arweaveTagsOptOut } = parse(updateUserBody, body);
+  await findUser(id!);
+
+  if (allowed !== undefined) {
+    await setUserAllowed(id!, allowed);
+  }
+  if (arweaveTagsOptOut !== undefined) {
+    await setArweaveTagsOptOut(id!, arweaveTagsOptOut);
+  }
+  logger.info({ userId: id, allowed, arweaveTagsOptOut, apiKeyId: apiKey.id }, 'Admin updated user');
+
+  return { statusCode: 200, body: { user: await findUser(id!) } };
+};
+
+const listUserDrives: Handler = async ([id]) => {
+  await findUser(id!);
+  const db = await getDb();
+
+  const drives = await db.select(driveColumns).from(userDrives).where(eq(userDrives.userId, id!));
+
+  return { statusCode: 200, body: { drives } };
+};
+
+const listUserUploads: Handler = async ([id], query) => {
+  const { limit, offset, status } = parse(listUploadsQuery, query);
+  await findUser(id!);
+  const db = await getDb();
+
+  const where = and(eq(uploads.userId, id!), status ? eq(uploads.status, status) : undefined);
+
+  const [rows, [total]] = await Promise.all([
+    db.select(uploadColumns).from(uploads).where(where).orderBy(desc(uploads.createdAt)).limit(limit).offset(offset),
+    db.select({ total: count() }).from(uploads).where(where),
+  ]);
+
+  return { statusCode: 200, body: { uploads: rows, total: total?.total ?? 0, limit, offset } };
+};
+
+const listUserUsage: Handler = async ([id]) => {
+  await findUser(id!);
+  const db = await getDb();
+
+  const periods = await db.select().from(usage).where(eq(usage.userId, id!)).orderBy(desc(usage.periodStart));
+
+  return { statusCode: 200, body: { current: await getUsageSummary(id!), periods } };
+};
+
+const listEmails: Handler = async (_params, query) => {
+  const { limit, offset, status, sender } = parse(listEmailsQuery, query);
+  const db = await getDb();
+
+  const filters: SQL[] = [];
+  if (status) filters.push(eq(processedEmails.status, status));
+  // processed_emails keeps the sender as received - compare case-insensitively
+  if (sender) filters.push(sql`lower(${processedEmails.sender}) = ${sender.toLowerCase()}`);
+  const where = filters.length > 0 ? and(...filters) : undefined;
+
+  const [rows, [total]] = await Promise.all([
+    db.select(emailColumns).from(processedEmails).where(where).orderBy(desc(processedEmails.queuedAt)).limit(limit).offset(offset),
+    db.select({ total: count() }).from(processedEmails).where(where),
+  ]);
+
+  return { statusCode: 200, body: { emails: rows, total: total?.total ?? 0, limit, offset } };
+};
+
+const retryEmail: Handler = async ([id], _query, _body, apiKey) => {
+  const email = await findFailedEmail(id!);
+  const db = await getDb();
+
+  // Queued before the job is re-run - a worker can pick it up (and record the outcome) before retryFailedEmail returns
+  await db.update(processedEmails)
+    .set({ status: 'queued', errorMessage: null, processedAt: null })
+    .where(eq(processedEmails.id, email.id));
+
+  // The job carries the routing (drive type, folder, tags) - without it the email can't be re-run
+  let retried = false;
+  try {
+    retried = await retryFailedEmail(email.id);
+  } finally {
+    if (!retried) {
+      await db.update(processedEmails)
+        .set({ status: 'failed', errorMessage: email.errorMessage, processedAt: email.processedAt })
+        .where(eq(processedEmails.id, email.id));
+    }
+  }
+
+  if (!retried) {
+    throw new AdminError(409, 'No failed job found for this email (it may have been removed from the queue)');
+  }
+
+  logger.info({ processedEmailId: email.id, apiKeyId: apiKey.id }, 'Admin retried failed email');
+  return { statusCode: 202, body: { id: email.id, status: 'queued' } };
+};
+
+const discardEmail: Handler = async ([id], _query, _body, apiKey) => {
+  const email = await findFailedEmail(id!);
+  const db = await getDb();
+
+  const jobRemoved = await discardFailedEmail(email.id);
+  if (email.source === 'api') {
+    removeSpooledMessage(email.id);
+  }
+
+  // Completed, so the IMAP poller never queues it again
+  await db.update(processedEmails)
+    .set({ status: 'completed', errorMessage: `Discarded by admin: ${email.errorMessage ?? 'no error recorded'}`, processedAt: new Date() })
+    .where(eq(processedEmails.id, email.id));
+
+  logger.info({ processedEmailId: email.id, jobRemoved, apiKeyId: apiKey.id }, 'Admin discarded failed email');
+  return { statusCode: 200, body: { id: email.id, status: 'completed', jobRemoved } };
+};
+
+const ROUTES: Array<{ method: string; pattern: RegExp; handler: Handler }> = [
+  { method: 'GET', pattern: /^\/admin\/users$/, handler: listUsers },
+  { method: 'GET', pattern: /^\/admin\/users\/([\w-]+)$/, handler: getUser },
+  { method: 'PATCH', pattern: /^\/admin\/users\/([\w-]+)$/, handler: updateUser },
+  { method: 'GET', pattern: /^\/admin\/users\/([\w-]+)\/drives$/, handler: listUserDrives },
+  { method: 'GET', pattern: /^\/admin\/users\/([\w-]+)\/uploads$/, handler: listUserUploads },
+  { method: 'GET', pattern: /^\/admin\/users\/([\w-]+)\/usage$/, handler: listUserUsage },
+  { method: 'GET', pattern: /^\/admin\/emails$/, handler: listEmails },
+  { method: 'POST', pattern: /^\/admin\/emails\/([\w-]+)\/retry$/, handler: retryEmail },
+  { method: 'POST', pattern: /^\/admin\/emails\/([\w-]+)\/discard$/, handler: discardEmail },
+];
+
+/**
+ * Handle an /admin/* request (Authorization: Bearer <admin API key>)
+ */
+export async function handleAdminRequest(request: AdminRequest): Promise<AdminResponse> {
+  const key = request.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  const apiKey = key ? await verifyApiKey(key, 'admin') : null;
+
+  if (!apiKey) {
+    logger.warn({ method: request.method, path: request.url.pathname }, 'Admin API request rejected (missing or invalid API key)');
+    return { statusCode: 401, body: { error: 'Unauthorized' } };
+  }
+
+  const matches = ROUTES.filter((route) => route.pattern.test(request.url.pathname));
+  const route = matches.find((candidate) => candidate.method === request.method);
+
+  if (!route) {
+    return matches.length > 0
+      ? { statusCode: 405, body: { error: 'Method not allowed' } }
+      : { statusCode: 404, body: { error: 'Not found' } };
+  }
+
+  try {
+    let body: unknown = undefined;
+    if (request.body) {
+      try {
+        body = JSON.parse(request.body);
+      } catch {
+        throw new AdminError(400, 'Request body is not valid JSON');
+      }
+    }
+
+    const params = request.url.pathname.match(route.pattern)!.slice(1);
+    return await route.handler(params, Object.fromEntries(request.url.searchParams), body, apiKey);
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return { statusCode: error.statusCode, body: { error: error.message, ...(error.issues ? { issues: error.issues } : {}) } };
+    }
+    throw error;
+  }
+}
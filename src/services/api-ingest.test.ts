@@ -0,0 +1,136 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, type Mock } from 'bun:test';
+import http from 'http';
+import { existsSync, readdirSync, utimesSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { AddressInfo } from 'net';
+import { config } from '../config/env';
+import { getDb } from '../database/db';
+import { users, processedEmails } from '../database/schema';
+import * as queue from '../jobs/queue';
+import { createUserApiKey } from './api-keys';
+import { sweepSpool } from './api-ingest';
+import { startHealthServer } from './health-server';
+
+const queueApiEmail = queue.queueApiEmail as Mock<typeof queue.queueApiEmail>;
+
+let server: http.Server;
+let port: number;
+let key: string;
+
+interface UploadResult {
+  statusCode: number | undefined;
+  connection: string | undefined;
+  body: string;
+}
+
+/**
+ * POST chunks without a Content-Length (so only the streamed limit can catch an oversized body)
+ * Keeps writing until the server answers or the chunks run out
+ */
+function upload(chunks: Buffer[]): Promise<UploadResult> {
+  return new Promise((resolve, reject) => {
+    let answered = false;
+    const request = http.request({
+      port,
+      method: 'POST',
+      path: '/api/archive?filename=notes.txt',
+      headers: { 'Authorization': `Bearer ${key}`, 'Content-Type': 'text/plain', 'Transfer-Encoding': 'chunked' },
+    }, (response) => {
+      answered = true;
+      let body = '';
+      response.on('data', (chunk) => { body += chunk; });
+      response.on('end', () => resolve({ statusCode: response.statusCode, connection: response.headers.connection, body }));
+    });
+    request.on('error', (error) => {
+      if (!answered) reject(error);
+    });
+
+    const writeNext = (index: number) => {
+      if (answered || index === chunks.length) {
+        request.end();
+        return;
+      }
+      request.write(chunks[index], () => setTimeout(() => writeNext(index + 1), 5));
+    };
+    writeNext(0);
+  });
+}
+
+beforeAll(async () => {
+  server = startHealthServer(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  port = (server.address() as AddressInfo).port;
+
+  const db = await getDb();
+  const [user] = await db.insert(users).values({ email: `api-${crypto.randomUUID()}@example.com` }).returning();
+  key = (await createUserApiKey(user!.id, 'test'))!.key;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  queueApiEmail.mockClear();
+  Object.assign(config, { API_MAX_UPLOAD_BYTES: 64 * 1024 });
+});
+
+describe('POST /api/archive', () => {
+  test('queues an upload within the limit', async () => {
+    const result = await upload([Buffer.from('meeting notes')]);
+
+    expect(result.statusCode).toBe(202);
+    expect(queueApiEmail).toHaveBeenCalledTimes(1);
+  });
+
+  test('answers 413 and closes the connection when the body exceeds the limit mid-stream', async () => {
+    const before = readdirSync(config.API_SPOOL_DIR).length;
+    const chunks = Array.from({ length: 64 }, () => Buffer.alloc(16 * 1024, 'a'));
+
+    const result = await upload(chunks);
+
+    expect(result.statusCode).toBe(413);
+    expect(result.connection).toBe('close');
+    expect(JSON.parse(result.body)).toEqual({ error: `Upload exceeds ${64 * 1024} bytes` });
+    expect(queueApiEmail).not.toHaveBeenCalled();
+    expect(readdirSync(config.API_SPOOL_DIR)).toHaveLength(before); // Partial upload removed
+  });
+});
+
+describe('sweepSpool', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const now = new Date();
+  const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS);
+
+  // A spooled file written `days` ago, optionally with its upload row
+  async function spooled(name: string, days: number, row?: { status: 'queued' | 'deferred' | 'failed'; processedAt?: Date }) {
+    const id = crypto.randomUUID();
+    const filepath = join(config.API_SPOOL_DIR, name.replace('<id>', id));
+    writeFileSync(filepath, 'Subject: test\r\n\r\nbody');
+    utimesSync(filepath, daysAgo(days), daysAgo(days));
+
+    if (row) {
+      const db = await getDb();
+      await db.insert(processedEmails).values({ id, source: 'api', folder: null, sender: 'api@example.com', ...row });
+    }
+    return filepath;
+  }
+
+  test('removes copies of long-failed uploads and leftovers, keeps what uploads still need', async () => {
+    Object.assign(config, { API_SPOOL_RETENTION_DAYS: 7 });
+
+    const expiredFailure = await spooled('<id>.eml', 10, { status: 'failed', processedAt: daysAgo(8) });
+    const recentFailure = await spooled('<id>.eml', 10, { status: 'failed', processedAt: daysAgo(2) });
+    const deferred = await spooled('<id>.eml', 10, { status: 'deferred' });
+    const orphan = await spooled('<id>.upload', 10);
+    const fresh = await spooled('<id>.eml.tmp', 1);
+
+    expect(await sweepSpool(now)).toBe(2);
+
+    expect(existsSync(expiredFailure)).toBe(false);
+    expect(existsSync(orphan)).toBe(false);
+    expect(existsSync(recentFailure)).toBe(true);
+    expect(existsSync(deferred)).toBe(true);
+    expect(existsSync(fresh)).toBe(true);
+  });
+});
@@ -0,0 +1,366 @@
+import { z } from 'zod';
+import { randomUUID } from 'crypto';
+import { join } from 'path';
+import { createWriteStream, existsSync, mkdirSync, readdirSync, renameSync, statSync, unlinkSync } from 'fs';
+import { Transform, type Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { eq, and, sql } from 'drizzle-orm';
+import MailComposer from 'nodemailer/lib/mail-composer';
+import { getDb } from '../database/db';
+import { users, processedEmails, type User } from '../database/schema';
+import { createLogger } from '../config/logger';
+import { config } from '../config/env';
+import { verifyApiKey, type ApiKeyInfo } from './api-keys';
+import { isAllowedEmail } from './user-service';
+import { queueApiEmail } from '../jobs/queue';
+
+const logger = createLogger('api-ingest');
+
+const RFC822_CONTENT_TYPE = 'message/rfc822';
+const TAG_PATTERN = /^[a-z0-9._-]{1,32}$/i; // Same characters as plus-address tags
+const MAX_TAGS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ApiResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+export interface ApiRequest {
+  method: string;
+  url: URL;
+  authorization: string | undefined;
+  contentType: string | undefined;
+  contentLength: number | undefined;
+  body: Readable; // Streamed to the spool (uploads can be large)
+}
+
+// POST /api/archive query string
+const archiveQuery = z.object({
+  drive: z.enum(['private', 'public']).default('private'),
+  folder: z.string().trim().min(1).max(100).regex(/^[^/\\\u0000-\u001f]+$/, 'Folder names cannot contain slashes').optional(),
+  tags: z.string().optional()
+    .transform((value) => (value ?? '').split(',').map((tag) => tag.trim()).filter(Boolean))
+    .pipe(z.array(z.string().regex(TAG_PATTERN, 'Tags may only contain letters, digits, ".", "_" and "-"')).max(MAX_TAGS)),
+  filename: z.string().trim().min(1).max(255).regex(/^[^/\\\u0000-\u001f]+$/, 'File names cannot contain slashes').optional(),
+});
+
+type Handler = (params: string[], request: ApiRequest, user: User, apiKey: ApiKeyInfo) => Promise<ApiResponse>;
+
+class IngestError extends Error {
+  constructor(public readonly statusCode: number, message: string, public readonly issues?: Array<{ path: string; message: string }>) {
+    super(message);
+    this.name = 'IngestError';
+  }
+}
+
+function parse<T extends z.ZodType>(schema: T, input: unknown): z.infer<T> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw new IngestError(400, 'Invalid request', result.error.issues.map((issue) => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+    })));
+  }
+  return result.data;
+}
+
+function spoolDir(): string {
+  const dir = config.API_SPOOL_DIR;
+  mkdirSync(dir, { recursive: true });
+  return dir;
+}
+
+function spoolPath(processedEmailId: string): string {
+  return join(spoolDir(), `${processedEmailId}.eml`);
+}
+
+/**
+ * Spooled message of an API upload (null if it's gone)
+ */
+export function getSpooledMessage(processedEmailId: string): { filepath: string; sizeBytes: number } | null {
+  const filepath = spoolPath(processedEmailId);
+  if (!existsSync(filepath)) {
+    return null;
+  }
+  return { filepath, sizeBytes: statSync(filepath).size };
+}
+
+/**
+ * Delete the spooled message once its upload is settled (archived, blocked or discarded)
+ * Failed uploads keep theirs, so they can still be retried - until sweepSpool() expires it
+ */
+export function removeSpooledMessage(processedEmailId: string): void {
+  try {
+    unlinkSync(spoolPath(processedEmailId));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.warn({ processedEmailId, error }, 'Failed to remove spooled message');
+    }
+  }
+}
+
+/**
+ * Delete spool files older than API_SPOOL_RETENTION_DAYS that no upload still needs:
+ * copies of uploads that failed that long ago (and were never retried) and leftovers without an upload (e.g. after a crash)
+ * Returns the number of files removed
+ */
+export async function sweepSpool(now: Date = new Date()): Promise<number> {
+  const cutoff = now.getTime() - config.API_SPOOL_RETENTION_DAYS * DAY_MS;
+  const dir = spoolDir();
+  const db = await getDb();
+  let removed = 0;
+
+  for (const name of readdirSync(dir)) {
+    const filepath = join(dir, name);
+    let modifiedAt: number;
+    try {
+      modifiedAt = statSync(filepath).mtimeMs;
+    } catch {
+      continue; // Removed meanwhile
+    }
+    if (modifiedAt >= cutoff) {
+      continue;
+    }
+
+    // <id>.eml, <id>.upload or <id>.eml.tmp
+    const [email] = await db.select({ status: processedEmails.status, processedAt: processedEmails.processedAt })
+      .from(processedEmails)
+      .where(eq(processedEmails.id, name.split('.')[0]!));
+
+    // Queued, processing and deferred uploads still need their copy
+    if (email && email.status !== 'failed' && email.status !== 'completed') {
+      continue;
+    }
+    // A failure counts from when it happened, not from the upload
+    if (email?.status === 'failed' && email.processedAt && email.processedAt.getTime() >= cutoff) {
+      continue;
+    }
+
+    try {
+      unlinkSync(filepath);
+      removed++;
+    } catch (error) {
+      logger.warn({ filepath, error }, 'Failed to remove expired spool file');
+    }
+  }
+
+  if (removed > 0) {
+    logger.info({ removed, retentionDays: config.API_SPOOL_RETENTION_DAYS }, 'Expired spool files removed');
+  }
+
+  return removed;
+}
+
+/**
+ * Stream a request body to disk, failing once it exceeds maxBytes
+ * The body is only unpiped and paused, not destroyed - the caller can still answer on its connection (413)
+ */
+async function writeBody(body: Readable, filepath: string, maxBytes: number): Promise<number> {
+  let sizeBytes = 0;
+  const limit = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      sizeBytes += chunk.length;
+      if (sizeBytes > maxBytes) {
+        body.unpipe(limit);
+        body.pause();
+        callback(new IngestError(413, `Upload exceeds ${maxBytes} bytes`));
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+
+  const onError = (error: Error) => limit.destroy(error);
+  const onClose = () => {
+    if (!body.readableEnded) {
+      limit.destroy(new Error('Upload aborted'));
+    }
+  };
+  body.on('error', onError);
+  body.on('close', onClose);
+
+  try {
+    body.pipe(limit);
+    await pipeline(limit, createWriteStream(filepath));
+  } catch (error) {
+    // Don't leave a partial upload behind
+    try {
+      unlinkSync(filepath);
+    } catch {
+      // Nothing was written
+    }
+    throw error;
+  } finally {
+    body.off('error', onError);
+    body.off('close', onClose);
+  }
+
+  return sizeBytes;
+}
+
+/**
+ * Wrap an uploaded file in an email from the user to themselves, so it's archived like a forwarded attachment
+ */
+async function composeFileMessage(user: User, filepath: string, filename: string, contentType: string, outputPath: string): Promise<void> {
+  const message = new MailComposer({
+    from: user.email,
+    to: user.email,
+    subject: filename,
+    date: new Date(),
+    text: `${filename} - uploaded through the ForwARd API.`,
+    attachments: [{ filename, path: filepath, contentType }],
+  });
+
+  await pipeline(message.compile().createReadStream(), createWriteStream(outputPath));
+}
+
+const archive: Handler = async (_params, request, user, apiKey) => {
+  const { drive, folder, tags, filename } = parse(archiveQuery, Object.fromEntries(request.url.searchParams));
+  const contentType = (request.contentType ?? 'application/octet-stream').split(';')[0]!.trim().toLowerCase();
+  const isMessage = contentType === RFC822_CONTENT_TYPE;
+
+  if (!isMessage && !filename) {
+    throw new IngestError(400, `A filename query parameter is required unless the body is a ${RFC822_CONTENT_TYPE} message`);
+  }
+
+  if (request.contentLength !== undefined && request.contentLength > config.API_MAX_UPLOAD_BYTES) {
+    throw new IngestError(413, `Upload exceeds ${config.API_MAX_UPLOAD_BYTES} bytes`);
+  }
+
+  const processedEmailId = randomUUID();
+  const messagePath = spoolPath(processedEmailId);
+  const uploadPath = isMessage ? messagePath : join(spoolDir(), `${processedEmailId}.upload`);
+
+  const sizeBytes = await writeBody(request.body, uploadPath, config.API_MAX_UPLOAD_BYTES);
+  if (sizeBytes === 0) {
+    unlinkSync(uploadPath);
+    throw new IngestError(400, 'Request body is empty');
+  }
+
+  if (!isMessage) {
+    try {
+      await composeFileMessage(user, uploadPath, filename!, contentType, `${messagePath}.tmp`);
+      renameSync(`${messagePath}.tmp`, messagePath);
+    } finally {
+      unlinkSync(uploadPath);
+    }
+  }
+
+  const db = await getDb();
+
+  // Subject and Message-ID of uploaded messages are filled in once the processor has read the headers
+  await db.insert(processedEmails).values({
+    id: processedEmailId,
+    source: 'api',
+    folder: null,
+    apiKeyId: apiKey.id,
+    sender: user.email,
+    subject: isMessage ? null : filename!,
+    status: 'queued',
+  });
+
+  try {
+    await queueApiEmail({
+      processedEmailId,
+      sender: user.email,
+      apiKeyId: apiKey.id,
+      driveType: drive,
+      ...(folder ? { destinationFolder: folder } : {}),
+      ...(tags.length > 0 ? { tags } : {}),
+    });
+  } catch (error) {
+    removeSpooledMessage(processedEmailId);
+    await db.update(processedEmails)
+      .set({ status: 'failed', errorMessage: 'Could not be queued', processedAt: new Date() })
+      .where(eq(processedEmails.id, processedEmailId));
+    throw error;
+  }
+
+  logger.info({ processedEmailId, userId: user.id, apiKeyId: apiKey.id, sizeBytes, contentType, driveType: drive }, 'API upload queued');
+  return { statusCode: 202, body: { id: processedEmailId, status: 'queued' } };
+};
+
+const archiveStatus: Handler = async ([id], _request, user) => {
+  const db = await getDb();
+
+  // processed_emails has no user ID - match on the (case-insensitive) sender
+  const [email] = await db.select({
+    id: processedEmails.id,
+    source: processedEmails.source,
+    subject: processedEmails.subject,
+    status: processedEmails.status,
+    errorMessage: processedEmails.errorMessage,
+    folderName: processedEmails.folderName,
+    emlFileEntityId: processedEmails.emlFileEntityId,
+    queuedAt: processedEmails.queuedAt,
+    processedAt: processedEmails.processedAt,
+  })
+    .from(processedEmails)
+    .where(and(eq(processedEmails.id, id!), sql`lower(${processedEmails.sender}) = ${user.email}`));
+
+  if (!email) {
+    throw new IngestError(404, 'Upload not found');
+  }
+
+  return { statusCode: 200, body: email };
+};
+
+const ROUTES: Array<{ method: string; pattern: RegExp; handler: Handler }> = [
+  { method: 'POST', pattern: /^\/api\/archive$/, handler: archive },
+  { method: 'GET', pattern: /^\/api\/archive\/([\w-]+)$/, handler: archiveStatus },
+];
+
+/**
+ * Resolve the owner of a user API key (null if the account may not archive)
+ */
+async function findKeyOwner(apiKey: ApiKeyInfo): Promise<User | null> {
+  if (!apiKey.userId) {
+    return null;
+  }
+
+  const db = await getDb();
+  const user: User | undefined = await (db.query as any).users?.findFirst({
+    where: eq(users.id, apiKey.userId),
+  });
+
+  return user && user.allowed && isAllowedEmail(user.email) ? user : null;
+}
+
+/**
+ * Handle an /api/* request (Authorization: Bearer <user API key>)
+ */
+export async function handleApiRequest(request: ApiRequest): Promise<ApiResponse> {
+  const key = request.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  const apiKey = key ? await verifyApiKey(key, 'user') : null;
+
+  if (!apiKey) {
+    logger.warn({ method: request.method, path: request.url.pathname }, 'API request rejected (missing or invalid API key)');
+    return { statusCode: 401, body: { error: 'Unauthorized' } };
+  }
+
+  const user = await findKeyOwner(apiKey);
+  if (!user) {
+    logger.warn({ apiKeyId: apiKey.id, userId: apiKey.userId }, 'API request rejected (account disabled or not allowed)');
+    return { statusCode: 403, body: { error: 'Account is not allowed to archive' } };
+  }
+
+  const matches = ROUTES.filter((route) => route.pattern.test(request.url.pathname));
+  const route = matches.find((candidate) => candidate.method === request.method);
+
+  if (!route) {
+    return matches.length > 0
+      ? { statusCode: 405, body: { error: 'Method not allowed' } }
+      : { statusCode: 404, body: { error: 'Not found' } };
+  }
+
+  try {
+    const params = request.url.pathname.match(route.pattern)!.slice(1);
+    return await route.handler(params, request, user, apiKey);
+  } catch (error) {
+    if (error instanceof IngestError) {
+      return { statusCode: error.statusCode, body: { error: error.message, ...(error.issues ? { issues: error.issues } : {}) } };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,161 @@
+import { eq, and, isNull, desc, count } from 'drizzle-orm';
+import { getDb } from '../database/db';
+import { apiKeys, type ApiKey } from '../database/schema';
+import { createLogger } from '../config/logger';
+import { config } from '../config/env';
+import { generateApiKey, hashApiKey } from '../utils/crypto';
+
+const logger = createLogger('api-keys');
+
+const KEY_PREFIX = 'fwd_';
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+
+/**
+ * Shown prefix of a key (e.g. "fwd_Ab3x_9"), used to revoke a key without the full key
+ */
+export const KEY_PREFIX_PATTERN = /^fwd_[A-Za-z0-9_-]{6}$/;
+
+export type ApiKeyScope = ApiKey['scope'];
+
+/**
+ * API key details that are safe to show (no hash)
+ */
+export type ApiKeyInfo = Omit<ApiKey, 'keyHash'>;
+
+function toInfo({ keyHash: _keyHash, ...info }: ApiKey): ApiKeyInfo {
+  return info;
+}
+
+/**
+ * Create an API key - the plain key is returned once and never stored
+ * 'user' keys belong to (and archive as) the given user
+ */
+export async function createApiKey(
+  name: string,
+  scope: ApiKeyScope = 'admin',
+  userId: string | null = null
+): Promise<{ key: string; apiKey: ApiKeyInfo }> {
+  if ((scope === 'user') !== !!userId) {
+    throw new Error(scope === 'user' ? 'User API keys need an owner' : 'Admin API keys cannot belong to a user');
+  }
+
+  const db = await getDb();
+  const key = `${KEY_PREFIX}${generateApiKey()}`;
+
+  const [apiKey] = await db.insert(apiKeys).values({
+    name,
+    scope,
+    userId,
+    keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+  }).returning();
+
+  if (!apiKey) {
+    throw new Error('Failed to create API key');
+  }
+
+  logger.info({ apiKeyId: apiKey.id, name, scope, userId }, 'API key created');
+  return { key, apiKey: toInfo(apiKey) };
+}
+
+/**
+ * Create a key for a user, unless they already have API_MAX_KEYS_PER_USER active keys
+ * Returns null when the limit is reached
+ */
+export async function createUserApiKey(userId: string, name: string): Promise<{ key: string; apiKey: ApiKeyInfo } | null> {
+  const db = await getDb();
+
+  const [active] = await db.select({ total: count() })
+    .from(apiKeys)
+    .where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)));
+
+  if ((active?.total ?? 0) >= config.API_MAX_KEYS_PER_USER) {
+    logger.warn({ userId, limit: config.API_MAX_KEYS_PER_USER }, 'API key limit reached');
+    return null;
+  }
+
+  return createApiKey(name, 'user', userId);
+}
+
+/**
+ * Look up an active key with the given scope (records when it was last used)
+ * Returns null for unknown, revoked or out-of-scope keys
+ */
+export async function verifyApiKey(key: string, scope: ApiKeyScope): Promise<ApiKeyInfo | null> {
+  if (!key.startsWith(KEY_PREFIX)) {
+    return null;
+  }
+
+  const db = await getDb();
+
+  const apiKey: ApiKey | undefined = await (db.query as any).apiKeys?.findFirst({
+    where: and(eq(apiKeys.keyHash, hashApiKey(key)), isNull(apiKeys.revokedAt)),
+  });
+
+  if (!apiKey || apiKey.scope !== scope) {
+    return null;
+  }
+
+  await db.update(apiKeys)
+    .set({ lastUsedAt: new Date() })
+    .where(eq(apiKeys.id, apiKey.id));
+
+  return toInfo(apiKey);
+}
+
+/**
+ * Revoke a key (kept for the record, but no longer accepted)
+ */
+export async function revokeApiKey(id: string): Promise<boolean> {
+  const db = await getDb();
+
+  const revoked = await db.update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)))
+    .returning();
+
+  if (revoked.length > 0) {
+    logger.info({ apiKeyId: id }, 'API key revoked');
+  }
+
+  return revoked.length > 0;
+}
+
+/**
+ * Revoke one of a user's keys by its shown prefix
+ */
+export async function revokeUserApiKey(userId: string, keyPrefix: string): Promise<boolean> {
+  const db = await getDb();
+
+  const revoked = await db.update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(apiKeys.userId, userId), eq(apiKeys.keyPrefix, keyPrefix), isNull(apiKeys.revokedAt)))
+    .returning();
+
+  if (revoked.length > 0) {
+    logger.info({ userId, apiKeyIds: revoked.map((apiKey) => apiKey.id) }, 'User API key revoked');
+  }
+
+  return revoked.length > 0;
+}
+
+/**
+ * A user's active keys, newest first
+ */
+export async function listUserApiKeys(userId: string): Promise<ApiKeyInfo[]> {
+  const db = await getDb();
+  const rows = await db.select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+    .orderBy(desc(apiKeys.createdAt));
+  return rows.map(toInfo);
+}
+
+/**
+ * All keys, newest first (including revoked ones)
+ */
+export async function listApiKeys(): Promise<ApiKeyInfo[]> {
+  const db = await getDb();
+  const rows = await db.select().from(apiKeys).orderBy(desc(apiKeys.createdAt));
+  return rows.map(toInfo);
+}
@@ -0,0 +1,46 @@
+import { describe, test, expect } from 'bun:test';
+import { type ParsedMail } from 'mailparser';
+import { buildEmailDataTags, buildUploadDataTags, parseArweaveTagNames } from './arweave-tags';
+
+const email = {
+  subject: 'Quarterly report',
+  from: { value: [{ address: 'Alice@Example.COM', name: 'Alice' }] },
+  date: new Date('2025-03-04T10:00:00Z'),
+  messageId: '<report@example.com>',
+} as unknown as ParsedMail;
+
+describe('buildEmailDataTags', () => {
+  test('builds the configured tags only', () => {
+    expect(buildEmailDataTags(email, ['work'], ['Email-From-Domain', 'Email-Date', 'Email-Tag'])).toEqual({
+      'Email-From-Domain': 'example.com',
+      'Email-Date': '2025-03-04T10:00:00.000Z',
+      'Email-Tag': ['work'],
+    });
+  });
+
+  test('hashes the Message-ID instead of revealing it', () => {
+    const tags = buildEmailDataTags(email, [], ['Email-Message-Id-Hash']);
+
+    expect(tags['Email-Message-Id-Hash']).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.stringify(tags)).not.toContain('report@example.com');
+  });
+
+  test('rejects unknown tag names', () => {
+    expect(() => parseArweaveTagNames('Email-Date,Email-Body')).toThrow();
+    expect(parseArweaveTagNames('none')).toEqual([]);
+  });
+});
+
+describe('buildUploadDataTags', () => {
+  test('tags public uploads', () => {
+    expect(buildUploadDataTags({ arweaveTagsOptOut: false }, 'public', email, ['work'])).toMatchObject({ 'Email-Tag': ['work'] });
+  });
+
+  test('omits the tags for users who opted out', () => {
+    expect(buildUploadDataTags({ arweaveTagsOptOut: true }, 'public', email, ['work'])).toBeUndefined();
+  });
+
+  test('never tags private uploads', () => {
+    expect(buildUploadDataTags({ arweaveTagsOptOut: false }, 'private', email, ['work'])).toBeUndefined();
+  });
+});
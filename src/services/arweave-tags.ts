@@ -0,0 +1,124 @@
+import { type ParsedMail } from 'mailparser';
+import { createHash } from 'crypto';
+import { config } from '../config/env';
+import { type User } from '../database/schema';
+
+/**
+ * Tags that can be attached to public uploads (ARWEAVE_TAGS)
+ * - Email-Subject: subject line (truncated)
+ * - Email-From-Domain: sender domain only, never the full address
+ * - Email-Date: ISO date the email was sent
+ * - Email-Message-Id-Hash: SHA-256 of the Message-ID (lets you find an email without revealing it)
+ * - Email-Tag: route and plus-address tags (one value per tag)
+ */
+export const ARWEAVE_TAG_NAMES = [
+  'Email-Subject',
+  'Email-From-Domain',
+  'Email-Date',
+  'Email-Message-Id-Hash',
+  'Email-Tag',
+] as const;
+
+export type ArweaveTagName = typeof ARWEAVE_TAG_NAMES[number];
+
+const MAX_TAG_VALUE_LENGTH = 200; // Arweave caps total tag size at 2048 bytes per transaction
+
+/**
+ * Parse ARWEAVE_TAGS ("none" or empty disables tagging)
+ */
+export function parseArweaveTagNames(value: string): ArweaveTagName[] {
+  const names = value
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  if (names.length === 1 && names[0]?.toLowerCase() === 'none') {
+    return [];
+  }
+
+  for (const name of names) {
+    if (!(ARWEAVE_TAG_NAMES as readonly string[]).includes(name)) {
+      throw new Error(`Invalid ARWEAVE_TAGS entry "${name}" (expected one of ${ARWEAVE_TAG_NAMES.join(', ')})`);
+    }
+  }
+
+  return names as ArweaveTagName[];
+}
+
+let cachedTagNames: ArweaveTagName[] | null = null;
+
+/**
+ * Get configured tag names
+ */
+export function getArweaveTagNames(): ArweaveTagName[] {
+  if (!cachedTagNames) {
+    cachedTagNames = parseArweaveTagNames(config.ARWEAVE_TAGS);
+  }
+  return cachedTagNames;
+}
+
+/**
+ * Build custom data transaction tags for an archived email
+ * Only call this for public drives - private uploads must not carry readable tags
+ */
+export function buildEmailDataTags(
+  email: ParsedMail,
+  tags: string[],
+  tagNames: ArweaveTagName[] = getArweaveTagNames()
+): Record<string, string | string[]> {
+  const result: Record<string, string | string[]> = {};
+
+  for (const name of tagNames) {
+    switch (name) {
+      case 'Email-Subject':
+        if (email.subject) {
+          result[name] = email.subject.slice(0, MAX_TAG_VALUE_LENGTH);
+        }
+        break;
+
+      case 'Email-From-Domain': {
+        const address = email.from?.value[0]?.address;
+        const domain = address?.split('@')[1]?.toLowerCase();
+        if (domain) {
+          result[name] = domain;
+        }
+        break;
+      }
+
+      case 'Email-Date':
+        if (email.date) {
+          result[name] = email.date.toISOString();
+        }
+        break;
+
+      case 'Email-Message-Id-Hash':
+        if (email.messageId) {
+          result[name] = createHash('sha256').update(email.messageId).digest('hex');
+        }
+        break;
+
+      case 'Email-Tag': {
+        const values = tags.map((tag) => tag.slice(0, MAX_TAG_VALUE_LENGTH)).filter(Boolean);
+        if (values.length > 0) {
+          result[name] = values;
+        }
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Custom tags for an email's uploads, or undefined if it gets none
+ * (private drives, or the user opted out with arweaveTagsOptOut)
+ */
+export function buildUploadDataTags(
+  user: Pick<User, 'arweaveTagsOptOut'>,
+  driveType: 'private' | 'public',
+  email: ParsedMail,
+  tags: string[]
+): Record<string, string | string[]> | undefined {
+  return driveType === 'public' && !user.arweaveTagsOptOut ? buildEmailDataTags(email, tags) : undefined;
+}
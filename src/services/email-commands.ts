@@ -0,0 +1,625 @@
+import { eq, and, gte, lt, desc, count, sql } from 'drizzle-orm';
+import { getDb } from '../database/db';
+import { uploads, userDrives, processedEmails, type User, type UserDrive, type NotificationPreference } from '../database/schema';
+import { createLogger } from '../config/logger';
+import { config } from '../config/env';
+import { getUsageSummary } from './usage-service';
+import { getPlanPolicy, formatBytes } from './plan-policy';
+import { getPricingStrategy } from './pricing';
+import { getUpgradeUrl, isCheckoutConfigured } from './stripe-service';
+import { requestWalletExport, confirmWalletExport, type WalletExportKind } from './wallet-export';
+import { sendDriveWelcomeEmail } from './email-notification';
+import { setNotificationPreference, setUserLocale } from './user-service';
+import { createUserApiKey, listUserApiKeys, revokeUserApiKey, KEY_PREFIX_PATTERN } from './api-keys';
+import { translate, resolveLocale, SUPPORTED_LOCALES, LOCALE_NAMES, DEFAULT_LOCALE, type Locale } from './i18n';
+
+const logger = createLogger('email-commands');
+
+const MAX_LIST_ITEMS = 50;
+
+/**
+ * Commands a user can send as the subject line (instead of an email to archive)
+ * Their HELP descriptions live in the command-reply.help.commands catalog section
+ */
+export const EMAIL_COMMANDS = [
+  'HELP',
+  'STATUS',
+  'USAGE',
+  'LIST',
+  'UPGRADE',
+  'EXPORT',
+  'CONFIRM',
+  'DRIVE',
+  'NOTIFY',
+  'LANG',
+  'APIKEY',
+] as const;
+
+export type EmailCommandName = typeof EMAIL_COMMANDS[number];
+
+export interface EmailCommand {
+  name: EmailCommandName;
+  args: string[];
+}
+
+/**
+ * What the processor knows about the command email
+ */
+export interface CommandContext {
+  authenticated: boolean; // DKIM/SPF verdict (even when enforcement is off)
+  readBody: () => Promise<string>; // Plain-text body (parsed on demand)
+}
+
+export interface CommandReplyAttachment {
+  filename: string;
+  content: string;
+  contentType: string;
+}
+
+export interface CommandReplyRow {
+  label: string;
+  value: string;
+  href?: string;
+}
+
+/**
+ * Content of a command reply (rendered by sendCommandReplyEmail)
+ */
+export interface CommandReply {
+  command: EmailCommandName;
+  title: string;
+  intro: string;
+  rows: CommandReplyRow[];
+  action?: { label: string; href: string }; // Call-to-action button
+  attachments?: CommandReplyAttachment[];
+  sensitive?: boolean; // Contains secrets (export codes, seed phrases, keyfiles, file keys) - sent directly, never queued
+}
+
+const MONTH_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+const CODE_PATTERN = /^[A-Z0-9]{8}$/i;
+const LANGUAGE_TAG_PATTERN = /^[a-z]{2,3}([-_][a-z0-9]{2,8})*$/i;
+const MAX_API_KEY_NAME_LENGTH = 50;
+
+const EXPORT_KINDS: Record<string, WalletExportKind> = {
+  SEED: 'seed_phrase',
+  KEYFILE: 'keyfile',
+};
+
+const NOTIFY_PREFERENCES: Record<string, NotificationPreference> = {
+  IMMEDIATE: 'immediate',
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  OFF: 'off',
+};
+
+/**
+ * Detect a command in the subject line
+ * Only an exact command (plus valid arguments) matches, so ordinary subjects like
+ * "Status report" or "List of invoices" are still archived
+ */
+export function parseEmailCommand(subject: string | undefined): EmailCommand | null {
+  const [first, ...args] = (subject || '').trim().split(/\s+/);
+  const name = first?.toUpperCase();
+
+  if (!name || !EMAIL_COMMANDS.includes(name as EmailCommandName)) {
+    return null;
+  }
+
+  if (name === 'LIST') {
+    return args.length === 0 || (args.length === 1 && MONTH_PATTERN.test(args[0]!))
+      ? { name, args }
+      : null;
+  }
+
+  if (name === 'EXPORT') {
+    return args.length === 1 && Object.hasOwn(EXPORT_KINDS, args[0]!.toUpperCase())
+      ? { name, args: [args[0]!.toUpperCase()] }
+      : null;
+  }
+
+  if (name === 'CONFIRM') {
+    return args.length === 1 && CODE_PATTERN.test(args[0]!) ? { name, args } : null;
+  }
+
+  if (name === 'NOTIFY') {
+    return args.length === 1 && Object.hasOwn(NOTIFY_PREFERENCES, args[0]!.toUpperCase())
+      ? { name, args: [args[0]!.toUpperCase()] }
+      : null;
+  }
+
+  // Any language tag counts, so an unsupported one gets the list of languages instead of being archived
+  if (name === 'LANG') {
+    return args.length === 0 || (args.length === 1 && LANGUAGE_TAG_PATTERN.test(args[0]!))
+      ? { name, args }
+      : null;
+  }
+
+  if (name === 'APIKEY') {
+    const [action = 'LIST', ...rest] = args;
+    const upperAction = action.toUpperCase();
+    const keyName = rest.join(' ');
+
+    if (upperAction === 'LIST') {
+      return rest.length === 0 ? { name, args: ['LIST'] } : null;
+    }
+    if (upperAction === 'NEW') {
+      return keyName.length <= MAX_API_KEY_NAME_LENGTH ? { name, args: keyName ? ['NEW', keyName] : ['NEW'] } : null;
+    }
+    if (upperAction === 'REVOKE') {
+      return rest.length === 1 && KEY_PREFIX_PATTERN.test(rest[0]!) ? { name, args: ['REVOKE', rest[0]!] } : null;
+    }
+    return null;
+  }
+
+  if (name === 'DRIVE') {
+    const [action, driveType = 'PRIVATE'] = args.map((arg) => arg.toUpperCase());
+    return action === 'LINK' && args.length <= 2 && (driveType === 'PRIVATE' || driveType === 'PUBLIC')
+      ? { name, args: [action, driveType] }
+      : null;
+  }
+
+  return args.length === 0 ? { name: name as EmailCommandName, args } : null;
+}
+
+/**
+ * Text of a command reply in the user's language (command-reply section of src/locales)
+ */
+function replyText(locale: Locale, key: string, data?: Record<string, unknown>): string {
+  return translate(locale, `command-reply.${key}`, data);
+}
+
+function formatMonth(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function fileUrl(entityId: string, fileKey: string | null): string {
+  return `https://app.ardrive.io/#/file/${entityId}/view${fileKey ? `?fileKey=${fileKey}` : ''}`;
+}
+
+function driveRow(locale: Locale, label: string, drive: UserDrive | undefined): CommandReplyRow {
+  if (!drive) {
+    return { label, value: replyText(locale, 'status.notCreated') };
+  }
+  return { label, value: drive.driveId, href: `https://app.ardrive.io/#/drives/${drive.driveId}` };
+}
+
+function helpReply(locale: Locale): CommandReply {
+  return {
+    command: 'HELP',
+    title: replyText(locale, 'help.title'),
+    intro: replyText(locale, 'help.intro'),
+    rows: EMAIL_COMMANDS.map((name) => ({ label: name, value: replyText(locale, `help.commands.${name}`) })),
+  };
+}
+
+async function statusReply(user: User, locale: Locale): Promise<CommandReply> {
+  const db = await getDb();
+
+  const drives: UserDrive[] = await db.select().from(userDrives).where(eq(userDrives.userId, user.id));
+
+  const [lastUpload] = await db.select({ createdAt: uploads.createdAt })
+    .from(uploads)
+    .where(and(eq(uploads.userId, user.id), eq(uploads.contentType, 'message/rfc822')))
+    .orderBy(desc(uploads.createdAt))
+    .limit(1);
+
+  // processed_emails has no user ID - match on the (case-insensitive) sender
+  const [deferred] = await db.select({ total: count() })
+    .from(processedEmails)
+    .where(and(
+      sql`lower(${processedEmails.sender}) = ${user.email}`,
+      eq(processedEmails.status, 'deferred')
+    ));
+
+  const rows: CommandReplyRow[] = [
+    { label: replyText(locale, 'status.account'), value: replyText(locale, user.allowed ? 'status.active' : 'status.disabled') },
+    { label: replyText(locale, 'status.plan'), value: replyText(locale, user.plan === 'paid' ? 'status.paid' : 'status.free') },
+    { label: replyText(locale, 'status.notifications'), value: user.notificationPreference },
+    { label: replyText(locale, 'status.language'), value: LOCALE_NAMES[locale] },
+    driveRow(locale, replyText(locale, 'status.privateDrive'), drives.find((d) => d.driveType === 'private')),
+    driveRow(locale, replyText(locale, 'status.publicDrive'), drives.find((d) => d.driveType === 'public')),
+  ];
+
+  if (config.WALLET_MODE === 'multi') {
+    rows.push({ label: replyText(locale, 'status.wallet'), value: user.userWalletAddress || replyText(locale, 'status.notCreated') });
+  }
+
+  rows.push({
+    label: replyText(locale, 'status.lastArchived'),
+    value: lastUpload ? lastUpload.createdAt.toISOString() : replyText(locale, 'status.never'),
+  });
+
+  if (deferred && deferred.total > 0) {
+    rows.push({ label: replyText(locale, 'status.onHold'), value: replyText(locale, 'status.onHoldCount', { count: deferred.total }) });
+  }
+
+  return {
+    command: 'STATUS',
+    title: replyText(locale, 'status.title'),
+    intro: replyText(locale, 'status.intro', { email: user.email }),
+    rows,
+  };
+}
+
+async function usageReply(user: User, locale: Locale): Promise<CommandReply> {
+  const summary = await getUsageSummary(user.id);
+  const policy = getPlanPolicy(user.plan);
+
+  const rows: CommandReplyRow[] = [
+    { label: replyText(locale, 'usage.period'), value: formatMonth(new Date()) },
+    {
+      label: replyText(locale, 'usage.emailsArchived'),
+      value: policy.maxEmailsPerMonth !== null ? `${summary.uploadsThisMonth} / ${policy.maxEmailsPerMonth}` : String(summary.uploadsThisMonth),
+    },
+    { label: replyText(locale, 'usage.freeEmails'), value: `${summary.freeEmailsUsed} / ${config.FREE_EMAILS_PER_MONTH}` },
+    { label: replyText(locale, 'usage.paidEmails'), value: String(summary.paidEmailsThisMonth) },
+    {
+      label: replyText(locale, 'usage.storage'),
+      value: policy.maxBytesPerMonth !== null
+        ? `${formatBytes(summary.bytesUploadedThisMonth)} / ${formatBytes(policy.maxBytesPerMonth)}`
+        : formatBytes(summary.bytesUploadedThisMonth),
+    },
+    { label: replyText(locale, 'usage.cost'), value: `$${summary.costThisMonth.toFixed(2)}` },
+  ];
+
+  if (policy.maxMessageBytes !== null) {
+    rows.push({ label: replyText(locale, 'usage.maxEmailSize'), value: formatBytes(policy.maxMessageBytes) });
+  }
+
+  rows.push({ label: replyText(locale, 'usage.pricing'), value: getPricingStrategy().describe() });
+
+  return {
+    command: 'USAGE',
+    title: replyText(locale, 'usage.title'),
+    intro: replyText(locale, 'usage.intro', { plan: policy.plan }),
+    rows,
+  };
+}
+
+async function listReply(user: User, locale: Locale, month: string | undefined): Promise<CommandReply> {
+  const db = await getDb();
+
+  const now = new Date();
+  const [, year, monthIndex] = (month || formatMonth(now)).match(MONTH_PATTERN)!;
+  const start = new Date(Number(year), Number(monthIndex) - 1, 1);
+  const end = new Date(Number(year), Number(monthIndex), 1);
+  const label = formatMonth(start);
+
+  const archived = await db.select({
+    fileName: uploads.fileName,
+    entityId: uploads.entityId,
+    fileKey: uploads.fileKey,
+    createdAt: uploads.createdAt,
+  })
+    .from(uploads)
+    .where(and(
+      eq(uploads.userId, user.id),
+      eq(uploads.contentType, 'message/rfc822'),
+      eq(uploads.status, 'completed'),
+      gte(uploads.createdAt, start),
+      lt(uploads.createdAt, end)
+    ))
+    .orderBy(uploads.createdAt)
+    .limit(MAX_LIST_ITEMS + 1);
+
+  const shown = archived.slice(0, MAX_LIST_ITEMS);
+
+  return {
+    command: 'LIST',
+    title: replyText(locale, 'list.title', { month: label }),
+    intro: archived.length === 0
+      ? replyText(locale, 'list.empty', { month: label })
+      : archived.length > MAX_LIST_ITEMS
+        ? replyText(locale, 'list.truncated', { month: label, count: MAX_LIST_ITEMS })
+        : replyText(locale, 'list.count', { month: label, count: archived.length }),
+    rows: shown.map((upload) => ({
+      label: upload.createdAt.toISOString().slice(0, 10),
+      value: upload.fileName,
+      ...(upload.entityId ? { href: fileUrl(upload.entityId, upload.fileKey) } : {}),
+    })),
+    // Links to private files carry their file key
+    sensitive: shown.some((upload) => upload.entityId && upload.fileKey),
+  };
+}
+
+async function upgradeReply(user: User, locale: Locale): Promise<CommandReply> {
+  const upgradeUrl = await getUpgradeUrl(user);
+  const title = replyText(locale, 'upgrade.title');
+
+  if (upgradeUrl) {
+    return {
+      command: 'UPGRADE',
+      title,
+      intro: replyText(locale, 'upgrade.checkout', {
+        freeEmails: config.FREE_EMAILS_PER_MONTH,
+        price: getPricingStrategy().describe(),
+      }),
+      rows: [],
+      action: { label: replyText(locale, 'upgrade.action'), href: upgradeUrl },
+    };
+  }
+
+  return {
+    command: 'UPGRADE',
+    title,
+    intro: replyText(locale, user.plan === 'paid'
+      ? 'upgrade.alreadyPaid'
+      : isCheckoutConfigured() ? 'upgrade.checkoutFailed' : 'upgrade.unavailable'),
+    rows: [],
+  };
+}
+
+function unverifiedReply(command: EmailCommandName, locale: Locale): CommandReply {
+  return {
+    command,
+    title: replyText(locale, 'unverified.title'),
+    intro: replyText(locale, 'unverified.intro'),
+    rows: [],
+  };
+}
+
+async function exportReply(user: User, locale: Locale, kindArg: string, context: CommandContext): Promise<CommandReply> {
+  if (!context.authenticated) {
+    return unverifiedReply('EXPORT', locale);
+  }
+
+  const kind = EXPORT_KINDS[kindArg]!;
+  const passphrase = kind === 'keyfile'
+    ? (await context.readBody()).split(/\r?\n/).map((line) => line.trim()).find(Boolean)
+    : undefined;
+
+  const result = await requestWalletExport(user, kind, passphrase);
+  const title = replyText(locale, 'export.title');
+
+  switch (result.status) {
+    case 'created':
+      return {
+        command: 'EXPORT',
+        title,
+        intro: replyText(locale, kind === 'keyfile' ? 'export.confirmKeyfile' : 'export.confirmSeed', {
+          code: result.code,
+          expiresAt: result.expiresAt.toUTCString(),
+        }),
+        rows: [{ label: replyText(locale, 'export.code'), value: result.code }],
+        sensitive: true,
+      };
+    case 'unavailable':
+      return { command: 'EXPORT', title, intro: replyText(locale, 'export.unavailable'), rows: [] };
+    case 'no_wallet':
+      return { command: 'EXPORT', title, intro: replyText(locale, 'export.noWallet'), rows: [] };
+    case 'weak_passphrase':
+      return { command: 'EXPORT', title, intro: replyText(locale, 'export.weakPassphrase'), rows: [] };
+    case 'rate_limited':
+      return { command: 'EXPORT', title, intro: replyText(locale, 'export.rateLimited', { limit: result.limit }), rows: [] };
+  }
+}
+
+async function confirmReply(user: User, locale: Locale, code: string, context: CommandContext): Promise<CommandReply> {
+  if (!context.authenticated) {
+    return unverifiedReply('CONFIRM', locale);
+  }
+
+  const result = await confirmWalletExport(user, code);
+  const title = replyText(locale, 'export.title');
+
+  if (result.status === 'locked') {
+    return { command: 'CONFIRM', title, intro: replyText(locale, 'confirm.locked'), rows: [] };
+  }
+
+  if (result.status === 'invalid') {
+    return { command: 'CONFIRM', title, intro: replyText(locale, 'confirm.invalid'), rows: [] };
+  }
+
+  if (result.kind === 'seed_phrase') {
+    return {
+      command: 'CONFIRM',
+      title: replyText(locale, 'confirm.seedTitle'),
+      intro: replyText(locale, 'confirm.seedIntro'),
+      rows: [
+        { label: replyText(locale, 'confirm.walletAddress'), value: result.address },
+        { label: replyText(locale, 'confirm.seedPhrase'), value: result.seedPhrase },
+      ],
+      sensitive: true,
+    };
+  }
+
+  return {
+    command: 'CONFIRM',
+    title: replyText(locale, 'confirm.keyfileTitle'),
+    intro: replyText(locale, 'confirm.keyfileIntro'),
+    rows: [{ label: replyText(locale, 'confirm.walletAddress'), value: result.address }],
+    attachments: [{
+      filename: `wallet-${result.address}.encrypted.json`,
+      content: JSON.stringify(result.keyfile, null, 2),
+      contentType: 'application/json',
+    }],
+    sensitive: true,
+  };
+}
+
+/**
+ * Re-send the drive welcome email (drive ID, share link with drive key, wallet address)
+ * Returns a reply only if there's nothing to send or the email couldn't be sent
+ */
+async function driveLinkReply(user: User, locale: Locale, driveTypeArg: string, context: CommandContext): Promise<CommandReply | null> {
+  if (!context.authenticated) {
+    return unverifiedReply('DRIVE', locale);
+  }
+
+  const db = await getDb();
+  const driveType = driveTypeArg === 'PUBLIC' ? 'public' : 'private';
+
+  const drive: UserDrive | undefined = await (db.query as any).userDrives?.findFirst({
+    where: and(eq(userDrives.userId, user.id), eq(userDrives.driveType, driveType)),
+  });
+
+  if (!drive) {
+    return {
+      command: 'DRIVE',
+      title: replyText(locale, 'drive.title'),
+      intro: replyText(locale, driveType === 'public' ? 'drive.noPublicDrive' : 'drive.noPrivateDrive'),
+      rows: [],
+    };
+  }
+
+  const status = await sendDriveWelcomeEmail(
+    user.email,
+    drive.driveId,
+    driveType,
+    drive.driveKeyBase64 || undefined,
+    user.email,
+    user.userWalletAddress || undefined,
+    true
+  );
+
+  if (status === 'failed') {
+    // The reply has no key, so it can go through the queue (and its retries)
+    return {
+      command: 'DRIVE',
+      title: replyText(locale, 'drive.title'),
+      intro: replyText(locale, 'drive.failed'),
+      rows: [],
+    };
+  }
+
+  logger.info({ userId: user.id, driveId: drive.driveId, driveType, status }, 'Drive link re-sent');
+  return null;
+}
+
+async function notifyReply(user: User, locale: Locale, preferenceArg: string): Promise<CommandReply> {
+  const preference = NOTIFY_PREFERENCES[preferenceArg]!;
+  await setNotificationPreference(user.id, preference);
+
+  return {
+    command: 'NOTIFY',
+    title: replyText(locale, 'notify.title'),
+    intro: replyText(locale, `notify.${preference}`),
+    rows: [{ label: replyText(locale, 'notify.label'), value: preferenceArg.toLowerCase() }],
+  };
+}
+
+/**
+ * Show or change the notification language
+ * Replies in the (new) language
+ */
+async function langReply(user: User, tag: string | undefined): Promise<CommandReply> {
+  const requested = resolveLocale(tag);
+  const rows = SUPPORTED_LOCALES.map((locale) => ({ label: locale, value: LOCALE_NAMES[locale] }));
+
+  if (!requested) {
+    const current: Locale = resolveLocale(user.locale) ?? DEFAULT_LOCALE;
+    return {
+      command: 'LANG',
+      title: translate(current, 'lang.title'),
+      intro: translate(current, 'lang.current', { language: LOCALE_NAMES[current] }),
+      rows,
+    };
+  }
+
+  await setUserLocale(user.id, requested);
+
+  return {
+    command: 'LANG',
+    title: translate(requested, 'lang.updatedTitle'),
+    intro: translate(requested, 'lang.updated', { language: LOCALE_NAMES[requested] }),
+    rows: [{ label: translate(requested, 'lang.label'), value: LOCALE_NAMES[requested] }],
+  };
+}
+
+/**
+ * Create, list or revoke the user's API keys (POST /api/archive)
+ * A new key is only shown in this reply - like wallet exports, creating and revoking need an authenticated email
+ */
+async function apiKeyReply(user: User, locale: Locale, action: string, arg: string | undefined, context: CommandContext): Promise<CommandReply> {
+  const title = replyText(locale, 'apiKey.title');
+
+  if (action === 'LIST') {
+    const keys = await listUserApiKeys(user.id);
+    return {
+      command: 'APIKEY',
+      title,
+      intro: replyText(locale, keys.length > 0 ? 'apiKey.list' : 'apiKey.none'),
+      rows: keys.map((apiKey) => ({
+        label: apiKey.keyPrefix,
+        value: replyText(locale, 'apiKey.row', {
+          name: apiKey.name,
+          created: apiKey.createdAt.toISOString().slice(0, 10),
+          lastUsed: apiKey.lastUsedAt ? apiKey.lastUsedAt.toISOString().slice(0, 10) : replyText(locale, 'apiKey.never'),
+        }),
+      })),
+    };
+  }
+
+  if (!context.authenticated) {
+    return unverifiedReply('APIKEY', locale);
+  }
+
+  if (action === 'REVOKE') {
+    const revoked = await revokeUserApiKey(user.id, arg!);
+    return {
+      command: 'APIKEY',
+      title,
+      intro: replyText(locale, revoked ? 'apiKey.revoked' : 'apiKey.notFound', { prefix: arg }),
+      rows: [],
+    };
+  }
+
+  const created = await createUserApiKey(user.id, arg || 'API key');
+  if (!created) {
+    return {
+      command: 'APIKEY',
+      title,
+      intro: replyText(locale, 'apiKey.limit', { limit: config.API_MAX_KEYS_PER_USER }),
+      rows: [],
+    };
+  }
+
+  return {
+    command: 'APIKEY',
+    title: replyText(locale, 'apiKey.newTitle'),
+    intro: replyText(locale, 'apiKey.newIntro'),
+    rows: [
+      { label: replyText(locale, 'apiKey.name'), value: created.apiKey.name },
+      { label: replyText(locale, 'apiKey.key'), value: created.key },
+      { label: replyText(locale, 'apiKey.prefix'), value: created.apiKey.keyPrefix },
+    ],
+    sensitive: true,
+  };
+}
+
+/**
+ * Answer a command for an allowlisted user, in the user's notification language
+ * Wallet, drive key and API key commands additionally require the sender to pass authentication
+ * Returns null when the command sent its own email (DRIVE LINK re-sends the welcome email)
+ */
+export async function runEmailCommand(command: EmailCommand, user: User, context: CommandContext): Promise<CommandReply | null> {
+  // Never log CONFIRM codes
+  logger.info({ userId: user.id, command: command.name, args: command.name === 'CONFIRM' ? [] : command.args }, 'Running email command');
+
+  const locale: Locale = resolveLocale(user.locale) ?? DEFAULT_LOCALE;
+
+  switch (command.name) {
+    case 'HELP':
+      return helpReply(locale);
+    case 'STATUS':
+      return statusReply(user, locale);
+    case 'USAGE':
+      return usageReply(user, locale);
+    case 'LIST':
+      return listReply(user, locale, command.args[0]);
+    case 'UPGRADE':
+      return upgradeReply(user, locale);
+    case 'EXPORT':
+      return exportReply(user, locale, command.args[0]!, context);
+    case 'CONFIRM':
+      return confirmReply(user, locale, command.args[0]!, context);
+    case 'DRIVE':
+      return driveLinkReply(user, locale, command.args[1]!, context);
+    case 'NOTIFY':
+      return notifyReply(user, locale, command.args[0]!);
+    case 'LANG':
+      return langReply(user, command.args[0]);
+    case 'APIKEY':
+      return apiKeyReply(user, locale, command.args[0]!, command.args[1], context);
+  }
+}
@@ -0,0 +1,174 @@
+import { type AddressObject, type ParsedMail } from 'mailparser';
+import { createHash } from 'crypto';
+import { createReadStream, writeFileSync, statSync } from 'fs';
+import { type AuthenticationResult } from '../utils/email-security';
+import { type UploadResult } from '../storage/ardrive-storage';
+
+/**
+ * Schema version of metadata.json (bump on breaking changes)
+ */
+export const EMAIL_METADATA_VERSION = 1;
+
+export interface MetadataAddress {
+  name?: string;
+  address: string;
+}
+
+export interface MetadataFile {
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  sha256?: string;
+  entityId?: string; // Only for files uploaded to ArDrive
+  dataTxId?: string;
+}
+
+/**
+ * Machine-readable index of one archived email (uploaded as metadata.json)
+ * Never contains drive or file keys
+ */
+export interface EmailMetadata {
+  version: number;
+  archivedAt: string;
+  messageId: string | null;
+  subject: string | null;
+  date: string | null;
+  from: MetadataAddress[];
+  to: MetadataAddress[];
+  cc: MetadataAddress[];
+  replyTo: MetadataAddress[];
+  source: {
+    folder: string;
+    uidValidity: number | null; // Null for jobs queued before UIDVALIDITY was tracked
+    uid: number;
+  } | {
+    apiKeyId: string; // Uploaded over HTTP
+  };
+  authentication: {
+    enforced: boolean;
+    authenticated: boolean;
+    dkim: boolean;
+    spf: boolean;
+    dmarc: boolean;
+    failureReason?: string;
+  };
+  drive: {
+    driveId: string;
+    driveType: 'private' | 'public';
+    folderId: string;
+  };
+  thread?: {
+    id: string;
+    rootMessageId: string;
+  };
+  eml: MetadataFile;
+  attachments: MetadataFile[];
+  snapshots: MetadataFile[];
+}
+
+/**
+ * SHA-256 of a file on disk (streamed, hex)
+ */
+export async function sha256File(filepath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(filepath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * SHA-256 of an in-memory buffer (hex)
+ */
+export function sha256Buffer(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Flatten a mailparser address field to name/address pairs
+ */
+export function toMetadataAddresses(field: AddressObject | AddressObject[] | undefined): MetadataAddress[] {
+  if (!field) return [];
+  const values = Array.isArray(field) ? field.flatMap((f) => f.value) : field.value;
+  return values
+    .filter((a) => !!a.address)
+    .map((a) => ({
+      ...(a.name ? { name: a.name } : {}),
+      address: a.address as string,
+    }));
+}
+
+/**
+ * Describe every attachment in the email (whether or not it was uploaded separately)
+ */
+export function describeAttachments(email: ParsedMail): MetadataFile[] {
+  return email.attachments.map((attachment, index) => ({
+    fileName: attachment.filename || `attachment-${index + 1}`,
+    contentType: attachment.contentType || 'application/octet-stream',
+    sizeBytes: attachment.size,
+    sha256: sha256Buffer(attachment.content),
+  }));
+}
+
+/**
+ * Add ArDrive entity IDs to a file description
+ */
+export function withUploadResult(file: MetadataFile, result: UploadResult | undefined): MetadataFile {
+  if (!result) return file;
+  return {
+    ...file,
+    entityId: result.entityId,
+    ...(result.dataTxId ? { dataTxId: result.dataTxId } : {}),
+  };
+}
+
+/**
+ * Build the metadata.json contents for an archived email
+ */
+export function buildEmailMetadata(params: {
+  email: ParsedMail;
+  source: EmailMetadata['source'];
+  authResult: AuthenticationResult;
+  authEnforced: boolean;
+  drive: EmailMetadata['drive'];
+  eml: MetadataFile;
+  attachments: MetadataFile[];
+  snapshots: MetadataFile[];
+  thread?: EmailMetadata['thread'];
+}): EmailMetadata {
+  const { email, authResult } = params;
+
+  return {
+    version: EMAIL_METADATA_VERSION,
+    archivedAt: new Date().toISOString(),
+    messageId: email.messageId || null,
+    subject: email.subject || null,
+    date: email.date ? email.date.toISOString() : null,
+    from: toMetadataAddresses(email.from),
+    to: toMetadataAddresses(email.to),
+    cc: toMetadataAddresses(email.cc),
+    replyTo: toMetadataAddresses(email.replyTo),
+    source: params.source,
+    authentication: {
+      enforced: params.authEnforced,
+      authenticated: authResult.isAuthenticated,
+      dkim: authResult.dkimPass,
+      spf: authResult.spfPass,
+      dmarc: authResult.dmarcPass,
+      ...(authResult.failureReason ? { failureReason: authResult.failureReason } : {}),
+    },
+    drive: params.drive,
+    ...(params.thread ? { thread: params.thread } : {}),
+    eml: params.eml,
+    attachments: params.attachments,
+    snapshots: params.snapshots,
+  };
+}
+
+/**
+ * Write metadata.json to disk
+ */
+export function saveEmailMetadata(metadata: EmailMetadata, filepath: string): { filepath: string; sizeBytes: number } {
+  writeFileSync(filepath, JSON.stringify(metadata, null, 2), 'utf8');
+  return { filepath, sizeBytes: statSync(filepath).size };
+}
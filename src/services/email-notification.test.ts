@@ -0,0 +1,156 @@
+import { describe, test, expect, beforeEach, afterEach, type Mock } from 'bun:test';
+import { config } from '../config/env';
+import { eq } from 'drizzle-orm';
+import { getDb } from '../database/db';
+import { notifications } from '../database/schema';
+import * as queue from '../jobs/queue';
+import { FakeSmtpServer } from '../test/fake-smtp-server';
+import { getSinkMessages, clearSinkMessages, closeTransporter } from './mail-transport';
+import { sendUploadConfirmation, sendDriveWelcomeEmail, sendDigestEmail } from './email-notification';
+
+const queueNotification = queue.queueNotification as Mock<typeof queue.queueNotification>;
+
+const usage = { uploadsThisMonth: 3, freeEmailsUsed: 3, freeEmailsRemaining: 7, paidEmailsThisMonth: 0, costThisMonth: 0 };
+
+// Nothing queued may contain a key
+function queuedText(): string {
+  return JSON.stringify(queueNotification.mock.calls);
+}
+
+beforeEach(() => {
+  queueNotification.mockClear();
+  clearSinkMessages();
+  Object.assign(config, { SMTP_MODE: 'sink' });
+});
+
+afterEach(() => {
+  closeTransporter(); // Drop the sink transport
+  Object.assign(config, { SMTP_MODE: 'smtp' });
+});
+
+describe('sendUploadConfirmation', () => {
+  test('sends confirmations linking private files directly', async () => {
+    await sendUploadConfirmation(
+      'private@example.com',
+      { fileName: 'report.eml', entityId: 'eml-1', fileKey: 'secret-file-key' },
+      'Report',
+      usage,
+      'private',
+      [{ fileName: 'report.pdf', entityId: 'att-1', fileKey: 'secret-attachment-key' }]
+    );
+
+    expect(queueNotification).not.toHaveBeenCalled();
+    const [message] = getSinkMessages();
+    expect(message?.to).toBe('private@example.com');
+    expect(message?.html).toContain('fileKey=secret-file-key');
+  });
+
+  test('queues confirmations for public files', async () => {
+    await sendUploadConfirmation('public@example.com', { fileName: 'report.eml', entityId: 'eml-2' }, 'Report', usage, 'public');
+
+    expect(queueNotification).toHaveBeenCalledTimes(1);
+    expect(getSinkMessages()).toHaveLength(0);
+  });
+
+  test('logs and swallows a queueing failure (the upload already succeeded)', async () => {
+    queueNotification.mockImplementationOnce(async () => {
+      throw new Error('Redis unavailable');
+    });
+
+    await expect(
+      sendUploadConfirmation('public@example.com', { fileName: 'report.eml', entityId: 'eml-3' }, 'Report', usage, 'public')
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe('sendDriveWelcomeEmail', () => {
+  test('sends a private drive link directly', async () => {
+    await sendDriveWelcomeEmail('private@example.com', 'drive-1', 'private', 'secret-drive-key', 'private@example.com');
+
+    expect(queueNotification).not.toHaveBeenCalled();
+    expect(getSinkMessages()[0]?.html).toContain('driveKey=secret-drive-key');
+  });
+
+  test('queues a public drive link', async () => {
+    await sendDriveWelcomeEmail('public@example.com', 'drive-2', 'public', undefined, 'public@example.com');
+
+    expect(queueNotification).toHaveBeenCalledTimes(1);
+    expect(queuedText()).not.toContain('driveKey=');
+  });
+});
+
+describe('direct sends over SMTP', () => {
+  let smtp: FakeSmtpServer;
+
+  beforeEach(async () => {
+    smtp = new FakeSmtpServer();
+    Object.assign(config, { SMTP_MODE: 'smtp', SMTP_HOST: '127.0.0.1', SMTP_PORT: await smtp.listen(), SMTP_SECURE: false });
+  });
+
+  afterEach(async () => {
+    closeTransporter();
+    await smtp.close();
+  });
+
+  async function notificationRow(to: string) {
+    const db = await getDb();
+    const [row] = await db.select().from(notifications).where(eq(notifications.recipient, to));
+    return row;
+  }
+
+  test('retries a temporary SMTP failure in-process', async () => {
+    smtp.rejectNext(1);
+    const to = `retry-${crypto.randomUUID()}@example.com`;
+
+    expect(await sendDriveWelcomeEmail(to, 'drive-3', 'private', 'secret-drive-key', to)).toBe('sent');
+
+    expect(smtp.messages).toHaveLength(1);
+    expect(smtp.messages[0]!.data).toContain('secret-drive-key');
+    expect(queueNotification).not.toHaveBeenCalled();
+    expect(await notificationRow(to)).toMatchObject({ status: 'sent', attempts: 2 });
+  });
+
+  test('reports a direct send that never gets through as failed', async () => {
+    smtp.rejectNext(3);
+    const to = `down-${crypto.randomUUID()}@example.com`;
+
+    expect(await sendDriveWelcomeEmail(to, 'drive-4', 'private', 'secret-drive-key', to)).toBe('failed');
+
+    expect(smtp.messages).toHaveLength(0);
+    expect(queueNotification).not.toHaveBeenCalled();
+    expect(await notificationRow(to)).toMatchObject({ status: 'failed', attempts: 3 });
+  }, 10000);
+
+  test('does not retry a permanent rejection', async () => {
+    smtp.rejectNext(1, 550);
+    const to = `gone-${crypto.randomUUID()}@example.com`;
+
+    expect(await sendDriveWelcomeEmail(to, 'drive-5', 'private', 'secret-drive-key', to)).toBe('failed');
+    expect(await notificationRow(to)).toMatchObject({ status: 'failed', attempts: 1 });
+  });
+});
+
+describe('sendDigestEmail', () => {
+  const digest = (fileKey?: string) => ({
+    frequency: 'daily' as const,
+    since: new Date('2025-03-03T00:00:00Z'),
+    until: new Date('2025-03-04T00:00:00Z'),
+    archived: [{ fileName: 'report.eml', archivedAt: new Date('2025-03-03T12:00:00Z'), entityId: 'eml-4', ...(fileKey ? { fileKey } : {}) }],
+    failures: [],
+    usage,
+  });
+
+  test('sends digests linking private files directly', async () => {
+    await sendDigestEmail('private@example.com', digest('secret-file-key'));
+
+    expect(queueNotification).not.toHaveBeenCalled();
+    expect(getSinkMessages()[0]?.html).toContain('fileKey=secret-file-key');
+  });
+
+  test('queues digests of public files', async () => {
+    await sendDigestEmail('public@example.com', digest());
+
+    expect(queueNotification).toHaveBeenCalledTimes(1);
+    expect(queuedText()).not.toContain('fileKey=');
+  });
+});
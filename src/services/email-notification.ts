@@ -1,43 +1,19 @@
-import { createTransport, Transporter } from 'nodemailer';
 import { config } from '../config/env';
+import { type Notification } from '../database/schema';
 import { createLogger } from '../config/logger';
-import { oauth2Service } from './oauth2-service';
+import { notify } from './notification-service';
+import { formatBytes, type LimitReason } from './plan-policy';
+import { type CommandReply } from './email-commands';
+import { renderEmail } from './email-templates';
+import { translate, formatDate, type Locale } from './i18n';
+import { getUserLocale } from './user-service';
 
 const logger = createLogger('email-notification');
 
-/**
- * Create SMTP transporter with appropriate authentication
- * Uses OAuth2 if configured, otherwise falls back to password
- */
-async function getTransporter(): Promise<Transporter> {
-  let authConfig: any;
-
-  if (oauth2Service.isOAuth2Configured()) {
-    logger.debug('Creating SMTP transporter with OAuth2');
-    const accessToken = await oauth2Service.getAccessToken();
-    authConfig = {
-      type: 'OAuth2',
-      user: config.EMAIL_USER,
-      accessToken,
-    };
-  } else {
-    logger.debug('Creating SMTP transporter with password');
-    authConfig = {
-      user: config.EMAIL_USER,
-      pass: config.EMAIL_PASSWORD,
-    };
-  }
-
-  return createTransport({
-    host: 'smtp.office365.com',
-    port: 587,
-    secure: false, // Use STARTTLS
-    auth: authConfig,
-    tls: {
-      rejectUnauthorized: true
-    }
-  });
-}
+// Notifications are rendered here and handed to notify(), which queues delivery -
+// SMTP failures are retried by the notifications worker, never by the caller
+// Messages with drive or file keys are sent directly instead, so the keys never sit in Redis
+// Text comes from the recipient's locale catalog (src/locales), English if unset
 
 export interface UploadedFile {
   fileName: string;
@@ -60,223 +36,120 @@ export interface UsageSummary {
   costThisMonth: number;
 }
 
+export interface DigestItem {
+  fileName: string;
+  archivedAt: Date;
+  entityId?: string;
+  fileKey?: string;
+}
+
+export interface DigestFailure {
+  subject: string;
+  errorMessage: string;
+  failedAt: Date;
+}
+
 /**
- * Base email template with ArDrive branding and dark mode support
- * Meets WCAG AA accessibility standards
+ * Everything reported in one daily/weekly digest
  */
-function getEmailTemplate(content: string): string {
-  return `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <meta name="color-scheme" content="light dark">
-  <meta name="supported-color-schemes" content="light dark">
-  <style>
-    /* Client-specific styles */
-    body { margin: 0; padding: 0; width: 100% !important; -webkit-text-size-adjust: 100%; -ms-text-size-adjust: 100%; }
-    img { border: 0; height: auto; line-height: 100%; outline: none; text-decoration: none; }
-    table { border-collapse: collapse; mso-table-lspace: 0pt; mso-table-rspace: 0pt; }
-
-    /* Dark mode support */
-    @media (prefers-color-scheme: dark) {
-      .email-container { background-color: #0A0B09 !important; }
-      .email-body { background-color: #0A0B09 !important; color: #FFFFFF !important; }
-      .text-primary { color: #FFFFFF !important; }
-      .text-secondary { color: #CECECE !important; }
-      .bg-light { background-color: #1A1B19 !important; }
-      .bg-section { background-color: #1A1B19 !important; border-color: #344955 !important; }
-      .bg-warning { background-color: #4D080C !important; border-color: #FE0230 !important; }
-      .bg-info { background-color: #1A1B19 !important; border-color: #344955 !important; }
-      .border-grey { border-color: #344955 !important; }
-      .link { color: #FE0230 !important; }
-    }
-  </style>
-</head>
-<body style="margin: 0; padding: 0; background-color: #F7F7F7;" class="email-body">
-  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color: #F7F7F7;" class="email-container">
-    <tr>
-      <td align="center" style="padding: 40px 20px;">
-        <table role="presentation" width="600" cellpadding="0" cellspacing="0" border="0" style="max-width: 600px; width: 100%; background-color: #FFFFFF; border-radius: 8px;" class="bg-light">
-          <tr>
-            <td style="padding: 40px 30px;">
-              ${content}
-
-              <!-- Footer -->
-              <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #EBEBEB;" class="border-grey">
-                <tr>
-                  <td align="center">
-                    <p style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 13px; line-height: 1.5; color: #666666;" class="text-secondary">
-                      ForwARd by <strong style="color: #FE0230;">ArDrive</strong>
-                    </p>
-                  </td>
-                </tr>
-              </table>
-            </td>
-          </tr>
-        </table>
-      </td>
-    </tr>
-  </table>
-</body>
-</html>
-  `.trim();
+export interface ArchiveDigest {
+  frequency: 'daily' | 'weekly';
+  since: Date;
+  until: Date;
+  archived: DigestItem[];
+  failures: DigestFailure[];
+  usage: UsageSummary;
+}
+
+/**
+ * ArDrive web app link to an uploaded file (private files carry their file key)
+ */
+function fileUrl(entityId: string, fileKey?: string): string {
+  return `https://app.ardrive.io/#/file/${entityId}/view${fileKey ? `?fileKey=${fileKey}` : ''}`;
+}
+
+/**
+ * Limit reason in the recipient's language (limit.message is English, for logs and processed_emails)
+ */
+function limitReasonText(locale: Locale, limit: LimitReason): string {
+  const bytes = limit.code === 'byte_quota' || limit.code === 'message_too_large';
+  const format = (value: number | undefined) => value === undefined ? '' : bytes ? formatBytes(value) : String(value);
+
+  return translate(locale, `limit.reason.${limit.code}`, { current: format(limit.current), limit: format(limit.limit) });
+}
+
+/**
+ * Usage summary as shown in templates (cost formatted, omitted while zero)
+ */
+function usageView(usage: UsageSummary) {
+  return {
+    ...usage,
+    cost: usage.costThisMonth > 0 ? usage.costThisMonth.toFixed(2) : null,
+  };
 }
 
 /**
  * Send confirmation email after successful upload
+ * Private drive links carry file keys, so those confirmations are sent directly instead of queued
+ * Never throws - the email is already archived, and failing here would re-run the upload
  */
 export async function sendUploadConfirmation(
   to: string,
   emlFile: EmlFileInfo,
   emailSubject: string,
   usage: UsageSummary,
-  driveType: 'private' | 'public' = 'private'
+  driveType: 'private' | 'public' = 'private',
+  attachments: UploadedFile[] = [],
+  snapshots: UploadedFile[] = []
 ): Promise<void> {
   try {
+    const locale = await getUserLocale(to);
     const subjectDisplay = emailSubject || 'No Subject';
 
-    // Build file URL based on drive type
-    const fileUrl = driveType === 'private'
-      ? `https://app.ardrive.io/#/file/${emlFile.entityId}/view?fileKey=${emlFile.fileKey}`
-      : `https://app.ardrive.io/#/file/${emlFile.entityId}/view`;
-
-    // Public drive warning
-    const publicWarning = driveType === 'public'
-      ? `<tr><td style="padding: 12px; background-color: #FFF3CD; border: 1px solid #FFE69C; border-radius: 6px; margin-bottom: 16px;"><p style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.5; color: #856404;"><strong>⚠️ PUBLIC FILE:</strong> This file is publicly viewable by anyone with the link.</p></td></tr>`
-      : '';
-
-    // Usage cost text
-    const usageCostHtml = usage.costThisMonth > 0
-      ? `<tr><td style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.5; color: rgba(0,0,0,0.87);" class="text-primary"><strong>Cost this month:</strong> $${usage.costThisMonth.toFixed(2)}</td></tr>`
-      : '';
-
-    const content = `
-      <!-- Header -->
-      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-bottom: 30px;">
-        <tr>
-          <td>
-            <h1 style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 24px; font-weight: 600; line-height: 1.3; color: rgba(0,0,0,0.87);" class="text-primary">
-              Email Archived Successfully
-            </h1>
-            <p style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 15px; line-height: 1.5; color: #666666;" class="text-secondary">
-              "${subjectDisplay}"
-            </p>
-          </td>
-        </tr>
-      </table>
-
-      <!-- Public Drive Warning -->
-      ${publicWarning}
-
-      <!-- Email Archive Section -->
-      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-bottom: 24px;">
-        <tr>
-          <td>
-            <h2 style="margin: 0 0 12px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 16px; font-weight: 600; line-height: 1.3; color: rgba(0,0,0,0.87);" class="text-primary">
-              Complete Email Archive
-            </h2>
-          </td>
-        </tr>
-        <tr>
-          <td style="padding: 16px; background-color: #F7F7F7; border-radius: 6px; border-left: 3px solid #FE0230;" class="bg-section">
-            <p style="margin: 0 0 12px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; font-weight: 600; line-height: 1.5; color: rgba(0,0,0,0.87);" class="text-primary">
-              ${emlFile.fileName}
-            </p>
-            <p style="margin: 0 0 12px 0;">
-              <a href="https://app.ardrive.io/#/file/${emlFile.entityId}/view${emlFile.fileKey ? `?fileKey=${emlFile.fileKey}` : ''}"
-                 style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; font-weight: 500; line-height: 1.5; color: #D31721; text-decoration: underline;"
-                 class="link">
-                Download Email Archive (.eml)
-              </a>
-            </p>
-            <p style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 13px; line-height: 1.5; color: #666666;" class="text-secondary">
-              This .eml file contains your complete email including all attachments. Import it into any email client (Gmail, Outlook, Thunderbird, etc.) to access everything.
-            </p>
-          </td>
-        </tr>
-      </table>
-
-      <!-- Usage Summary -->
-      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
-        <tr>
-          <td style="padding: 16px; background-color: #F7F7F7; border-radius: 6px;" class="bg-section">
-            <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
-              <tr>
-                <td style="padding-bottom: 8px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; font-weight: 600; line-height: 1.5; color: rgba(0,0,0,0.87);" class="text-primary">
-                  Usage This Month
-                </td>
-              </tr>
-              <tr>
-                <td style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.5; color: rgba(0,0,0,0.87);" class="text-primary">
-                  <strong>Emails:</strong> ${usage.uploadsThisMonth} (${usage.freeEmailsUsed} free, ${usage.paidEmailsThisMonth} paid)
-                </td>
-              </tr>
-              <tr>
-                <td style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.5; color: rgba(0,0,0,0.87);" class="text-primary">
-                  <strong>Free emails remaining:</strong> ${usage.freeEmailsRemaining}
-                </td>
-              </tr>
-              ${usageCostHtml}
-            </table>
-          </td>
-        </tr>
-      </table>
-    `;
-
-    const htmlBody = getEmailTemplate(content);
-
-    const textBody = `
-Email Archived Successfully
-
-"${subjectDisplay}"
-
-${driveType === 'public' ? '⚠️ PUBLIC FILE: This file is publicly viewable by anyone with the link.\n\n' : ''}Complete Email Archive:
-${emlFile.fileName}
-
-Download: https://app.ardrive.io/#/file/${emlFile.entityId}/view${emlFile.fileKey ? `?fileKey=${emlFile.fileKey}` : ''}
-
-This .eml file contains your complete email including all attachments.
-Import it into any email client (Gmail, Outlook, Thunderbird, etc.) to access everything.
-
-Usage this month:
-- Total emails: ${usage.uploadsThisMonth}
-- Free: ${usage.freeEmailsUsed}
-- Paid: ${usage.paidEmailsThisMonth}
-- Free remaining: ${usage.freeEmailsRemaining}
-${usage.costThisMonth > 0 ? `- Cost: $${usage.costThisMonth.toFixed(2)}` : ''}
-
----
-ForwARd by ArDrive
-    `.trim();
-
-    const transporter = await getTransporter();
-    await transporter.sendMail({
+    // Files uploaded next to the .eml (ARCHIVE_ATTACHMENTS, ARCHIVE_HTML_SNAPSHOT)
+    const archiveFile = (file: UploadedFile) => ({ fileName: file.fileName, url: fileUrl(file.entityId, file.fileKey) });
+
+    const { html, text } = renderEmail('confirmation', {
+      subject: subjectDisplay,
+      publicDrive: driveType === 'public',
+      eml: { fileName: emlFile.fileName, url: fileUrl(emlFile.entityId, emlFile.fileKey) },
+      snapshots: snapshots.map(archiveFile),
+      attachments: attachments.map(archiveFile),
+      usage: usageView(usage),
+    }, locale);
+
+    const status = await notify('confirmation', {
       from: `ForwARd <${config.EMAIL_USER}>`,
       to,
       replyTo: config.EMAIL_USER,
-      subject: `Email archived: "${subjectDisplay}"`,
-      text: textBody,
-      html: htmlBody,
+      subject: translate(locale, 'confirmation.subject', { subject: subjectDisplay }),
+      text,
+      html,
       headers: {
         'X-Mailer': 'ForwARd by ArDrive',
         'X-Priority': '3',
         'Importance': 'normal',
-        'List-Unsubscribe': `<mailto:${config.EMAIL_USER}?subject=unsubscribe>`,
+        'List-Unsubscribe': `<mailto:${config.EMAIL_USER}?subject=NOTIFY%20OFF>`,
         'Precedence': 'bulk'
       }
-    });
+    }, { direct: [emlFile, ...attachments, ...snapshots].some((file) => file.fileKey) });
 
-    logger.info({ to }, 'Confirmation email sent');
+    if (status === 'failed') {
+      logger.error({ to, emlEntityId: emlFile.entityId }, 'Confirmation email could not be sent');
+    } else {
+      logger.info({ to, locale, status }, 'Confirmation email handed off');
+    }
   } catch (error) {
     logger.error({ error, to }, 'Failed to send confirmation email');
-    throw error;
+    // Don't throw - the upload succeeded
   }
 }
 
 /**
  * Send welcome email when drive is created
+ * Also re-sent on request (DRIVE LINK command) with a different heading
+ * A private drive link carries the drive key, so it is sent directly instead of queued -
+ * check the returned status: 'failed' means the link never reached the user
  */
 export async function sendDriveWelcomeEmail(
   to: string,
@@ -284,9 +157,12 @@ export async function sendDriveWelcomeEmail(
   driveType: 'private' | 'public',
   driveKeyBase64: string | undefined,
   userEmail: string,
-  walletAddress?: string
-): Promise<void> {
+  walletAddress?: string,
+  resend: boolean = false
+): Promise<Notification['status']> {
   try {
+    const locale = await getUserLocale(to);
+
     // Drive link with name parameter (ArDrive keys are already base64url encoded, don't encode again)
     const driveName = encodeURIComponent(userEmail);
     const driveLink = driveType === 'private' && driveKeyBase64
@@ -294,210 +170,39 @@ export async function sendDriveWelcomeEmail(
       : `https://app.ardrive.io/#/drives/${driveId}?name=${driveName}`;
 
     // Drive type labels
-    const driveTypeLabel = driveType === 'private' ? 'Private' : 'Public';
-    const driveTypeDescription = driveType === 'private'
-      ? 'encrypted, permanent storage'
-      : 'public, permanent storage';
-
-    // Public warning banner (shown for public drives)
-    const publicWarningHtml = driveType === 'public' ? `
-      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-bottom: 24px;">
-        <tr>
-          <td style="padding: 16px; background-color: #FFF3CD; border-radius: 6px; border-left: 3px solid #FFE69C;">
-            <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
-              <tr>
-                <td style="padding-bottom: 8px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; font-weight: 600; line-height: 1.5; color: #856404;">
-                  ⚠️ Public Drive Warning
-                </td>
-              </tr>
-              <tr>
-                <td style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.6; color: #856404;">
-                  This is a PUBLIC drive. All files uploaded here are publicly viewable by anyone. Do not upload sensitive or private information.
-                </td>
-              </tr>
-            </table>
-          </td>
-        </tr>
-      </table>
-    ` : '';
-
-    // Security warning (only shown for private drives)
-    const securityWarningHtml = driveType === 'private' ? `
-      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-bottom: 24px;">
-        <tr>
-          <td style="padding: 16px; background-color: #FCF9FA; border-radius: 6px; border-left: 3px solid #C0151E;" class="bg-warning">
-            <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
-              <tr>
-                <td style="padding-bottom: 8px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; font-weight: 600; line-height: 1.5; color: rgba(0,0,0,0.87);" class="text-primary">
-                  Important Security Notice
-                </td>
-              </tr>
-              <tr>
-                <td style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.6; color: #666666;" class="text-secondary">
-                  • This link contains your drive key - keep it secure<br>
-                  • Anyone with this link can access your entire email archive<br>
-                  • Save it in a password manager or secure location<br>
-                  • Future emails will contain individual file links (not the master drive key)
-                </td>
-              </tr>
-            </table>
-          </td>
-        </tr>
-      </table>
-    ` : '';
-
-    // Wallet address section (only show in multi-wallet mode)
-    const walletHtml = walletAddress ? `
-      <tr>
-        <td style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.5; color: #666666; font-family: 'Courier New', monospace;" class="text-secondary">
-          <strong>Wallet Address:</strong> ${walletAddress}
-        </td>
-      </tr>
-    ` : '';
-
-    const content = `
-      <!-- Header -->
-      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-bottom: 30px;">
-        <tr>
-          <td>
-            <h1 style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 24px; font-weight: 600; line-height: 1.3; color: rgba(0,0,0,0.87);" class="text-primary">
-              Your ${driveTypeLabel} Drive is Ready
-            </h1>
-            <p style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 15px; line-height: 1.5; color: #666666;" class="text-secondary">
-              Welcome to ForwARd - Your ${driveTypeLabel} Email Archive
-            </p>
-          </td>
-        </tr>
-      </table>
-
-      <!-- Public Drive Warning -->
-      ${publicWarningHtml}
-
-      <!-- Drive Details -->
-      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-bottom: 24px;">
-        <tr>
-          <td style="padding: 20px; background-color: #F7F7F7; border-radius: 6px; border-left: 3px solid #FE0230;" class="bg-section">
-            <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
-              <tr>
-                <td style="padding-bottom: 12px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 15px; font-weight: 600; line-height: 1.5; color: rgba(0,0,0,0.87);" class="text-primary">
-                  Your ${driveTypeLabel} Drive: ${userEmail}
-                </td>
-              </tr>
-              <tr>
-                <td style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.5; color: #666666; font-family: 'Courier New', monospace;" class="text-secondary">
-                  <strong>Drive ID:</strong> ${driveId}
-                </td>
-              </tr>
-              ${walletHtml}
-              <tr>
-                <td style="padding: 16px 0 12px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.5; color: #666666;" class="text-secondary">
-                  All your emails and attachments will be archived in this ${driveTypeDescription} drive on Arweave.
-                </td>
-              </tr>
-              <tr>
-                <td align="center" style="padding-top: 8px;">
-                  <a href="${driveLink}"
-                     style="display: inline-block; padding: 12px 32px; background-color: #FE0230; color: #FFFFFF; text-decoration: none; border-radius: 4px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 15px; font-weight: 600; line-height: 1.5;">
-                    Open Your Drive
-                  </a>
-                </td>
-              </tr>
-            </table>
-          </td>
-        </tr>
-      </table>
-
-      <!-- Indexing Notice -->
-      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-bottom: 20px;">
-        <tr>
-          <td style="padding: 16px; background-color: #FCF9FA; border-radius: 6px; border-left: 3px solid #FE0230;" class="bg-info">
-            <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
-              <tr>
-                <td style="padding-bottom: 8px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; font-weight: 600; line-height: 1.5; color: rgba(0,0,0,0.87);" class="text-primary">
-                  Indexing Delay
-                </td>
-              </tr>
-              <tr>
-                <td style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.5; color: #666666;" class="text-secondary">
-                  New files may take up to 10 minutes to appear in ArDrive after upload. This is normal behavior for the Arweave network's indexing process.
-                </td>
-              </tr>
-            </table>
-          </td>
-        </tr>
-      </table>
-
-      <!-- Security Warning (Private drives only) -->
-      ${securityWarningHtml}
-
-      <!-- How It Works -->
-      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
-        <tr>
-          <td style="padding: 16px; background-color: #F7F7F7; border-radius: 6px;" class="bg-section">
-            <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
-              <tr>
-                <td style="padding-bottom: 8px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; font-weight: 600; line-height: 1.5; color: rgba(0,0,0,0.87);" class="text-primary">
-                  How It Works
-                </td>
-              </tr>
-              <tr>
-                <td style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.6; color: #666666;" class="text-secondary">
-                  • Send emails to <strong>${driveType === 'public' ? 'public-preserve@ardrive.io' : 'preserve@ardrive.io or private-preserve@ardrive.io'}</strong><br>
-                  • Organized by date (Year/Month), saved as .eml files<br>
-                  • 10 free emails/month, then $0.10/email
-                </td>
-              </tr>
-            </table>
-          </td>
-        </tr>
-      </table>
-    `;
-
-    const htmlBody = getEmailTemplate(content);
-
-    const textBody = `
-Your ${driveTypeLabel} Drive is Ready
-
-Welcome to ForwARd - Your ${driveTypeLabel} Email Archive
-
-${driveType === 'public' ? '⚠️ PUBLIC DRIVE WARNING:\nThis is a PUBLIC drive. All files uploaded here are publicly viewable by anyone. Do not upload sensitive or private information.\n\n' : ''}Your ${driveTypeLabel} Drive: ${userEmail}
-Drive ID: ${driveId}
-${walletAddress ? `Wallet Address: ${walletAddress}` : ''}
-
-All your emails and attachments will be archived in this ${driveTypeDescription} drive on Arweave.
-
-Open Your Drive: ${driveLink}
-
-INDEXING DELAY:
-New files may take up to 10 minutes to appear in ArDrive after upload. This is normal behavior for the Arweave network's indexing process.
-
-${driveType === 'private' ? `IMPORTANT SECURITY NOTICE:
-- This link contains your drive key - keep it secure!
-- Anyone with this link can access your entire email archive
-- Save it in a password manager or secure location
-- Future emails will contain individual file links (not the master drive key)
-
-` : ''}How It Works:
-- Send emails to ${driveType === 'public' ? 'public-preserve@ardrive.io' : 'preserve@ardrive.io or private-preserve@ardrive.io'}
-- Organized by date (Year/Month), saved as .eml files
-- 10 free emails/month, then $0.10/email
-
----
-ForwARd by ArDrive
-    `.trim();
-
-    const transporter = await getTransporter();
-    await transporter.sendMail({
+    const labels = {
+      driveTypeLabel: translate(locale, driveType === 'private' ? 'welcome.private' : 'welcome.public'),
+      driveTypeDescription: translate(locale, driveType === 'private' ? 'welcome.descriptionPrivate' : 'welcome.descriptionPublic'),
+    };
+
+    const { html, text } = renderEmail('welcome', {
+      ...labels,
+      heading: translate(locale, resend ? 'welcome.headingResend' : 'welcome.heading', labels),
+      subheading: translate(locale, resend ? 'welcome.subheadingResend' : 'welcome.subheading', labels),
+      publicDrive: driveType === 'public',
+      userEmail,
+      driveId,
+      walletAddress: walletAddress ?? null, // Only set in multi-wallet mode
+      archiveAddresses: driveType === 'public' ? 'public-preserve@ardrive.io' : 'preserve@ardrive.io or private-preserve@ardrive.io',
+      action: { label: translate(locale, 'welcome.openDrive'), href: driveLink },
+    }, locale);
+
+    const status = await notify('welcome', {
       from: config.EMAIL_USER,
       to,
-      subject: `Your ForwARd ${driveTypeLabel} Drive is Ready`,
-      text: textBody,
-      html: htmlBody,
-    });
-
-    logger.info({ to, driveId, driveType }, 'Welcome email sent');
+      subject: translate(locale, resend ? 'welcome.subjectResend' : 'welcome.subject', labels),
+      text,
+      html,
+    }, { direct: driveLink.includes('driveKey=') });
+
+    if (status === 'failed') {
+      logger.error({ to, driveId, driveType, resend }, 'Welcome email could not be sent');
+    } else {
+      logger.info({ to, driveId, driveType, resend, locale, status }, 'Welcome email handed off');
+    }
+    return status;
   } catch (error) {
-    logger.error({ error, to }, 'Failed to send welcome email');
+    logger.error({ error, to }, 'Failed to queue welcome email');
     throw error;
   }
 }
@@ -512,108 +217,26 @@ export async function sendUploadErrorEmail(
   retryCount: number
 ): Promise<void> {
   try {
+    const locale = await getUserLocale(to);
     const subjectDisplay = subject || 'No Subject';
 
-    const content = `
-      <!-- Header -->
-      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-bottom: 30px;">
-        <tr>
-          <td>
-            <h1 style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 24px; font-weight: 600; line-height: 1.3; color: #C0151E;">
-              Email Archive Failed
-            </h1>
-            <p style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 15px; line-height: 1.5; color: #666666;" class="text-secondary">
-              Unable to archive your email
-            </p>
-          </td>
-        </tr>
-      </table>
-
-      <!-- Error Details -->
-      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-bottom: 20px;">
-        <tr>
-          <td style="padding: 16px; background-color: #FCF9FA; border-radius: 6px; border-left: 3px solid #C0151E;" class="bg-warning">
-            <p style="margin: 0 0 12px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 15px; font-weight: 600; line-height: 1.5; color: rgba(0,0,0,0.87);" class="text-primary">
-              Email: "${subjectDisplay}"
-            </p>
-            <p style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.5; color: #666666;" class="text-secondary">
-              We attempted to upload your email ${retryCount} time${retryCount > 1 ? 's' : ''} but encountered an error.
-            </p>
-          </td>
-        </tr>
-      </table>
-
-      <!-- Technical Error -->
-      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-bottom: 24px;">
-        <tr>
-          <td style="padding: 16px; background-color: #F7F7F7; border-radius: 6px;" class="bg-section">
-            <p style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; font-weight: 600; line-height: 1.5; color: rgba(0,0,0,0.87);" class="text-primary">
-              Error Details
-            </p>
-            <p style="margin: 0; font-family: 'Courier New', monospace; font-size: 13px; line-height: 1.5; color: #C0151E; word-break: break-word;">
-              ${errorMessage}
-            </p>
-          </td>
-        </tr>
-      </table>
-
-      <!-- Next Steps -->
-      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
-        <tr>
-          <td style="padding: 16px; background-color: #F7F7F7; border-radius: 6px;" class="bg-section">
-            <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
-              <tr>
-                <td style="padding-bottom: 8px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; font-weight: 600; line-height: 1.5; color: rgba(0,0,0,0.87);" class="text-primary">
-                  What to do
-                </td>
-              </tr>
-              <tr>
-                <td style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.6; color: #666666;" class="text-secondary">
-                  • Try sending your email again<br>
-                  • If you have large attachments, try splitting them into separate emails<br>
-                  • Check that your email size is under 1GB<br>
-                  • If the problem persists, contact support
-                </td>
-              </tr>
-            </table>
-          </td>
-        </tr>
-      </table>
-    `;
-
-    const htmlBody = getEmailTemplate(content);
-
-    const textBody = `
-Email Archive Failed
-
-Email: "${subjectDisplay}"
-We attempted to upload your email ${retryCount} time${retryCount > 1 ? 's' : ''} but encountered an error.
-
-Error Details:
-${errorMessage}
-
-What to do:
-- Try sending your email again
-- If you have large attachments, try splitting them into separate emails
-- Check that your email size is under 1GB
-- If the problem persists, contact support
-
----
-ForwARd by ArDrive
-    `.trim();
-
-    const transporter = await getTransporter();
-    await transporter.sendMail({
+    const { html, text } = renderEmail('error', {
+      subject: subjectDisplay,
+      attempts: translate(locale, retryCount > 1 ? 'error.attemptsOther' : 'error.attemptsOne', { count: retryCount }),
+      errorMessage,
+    }, locale);
+
+    await notify('error', {
       from: config.EMAIL_USER,
       to,
-      subject: `Email archive failed: "${subjectDisplay}"`,
-      text: textBody,
-      html: htmlBody,
+      subject: translate(locale, 'error.subject', { subject: subjectDisplay }),
+      text,
+      html,
     });
 
-    logger.info({ to }, 'Error notification email sent');
+    logger.info({ to }, 'Error notification email queued');
   } catch (error) {
-    logger.error({ error, to }, 'Failed to send error notification email');
+    logger.error({ error, to }, 'Failed to queue error notification email');
     // Don't throw - we don't want to fail the error handler
   }
 }
@@ -623,100 +246,141 @@ ForwARd by ArDrive
  */
 export async function sendUsageLimitEmail(
   to: string,
-  reason: string,
-  usage: UsageSummary
+  limit: LimitReason,
+  usage: UsageSummary,
+  deferredUntil?: Date,
+  upgradeUrl?: string
 ): Promise<void> {
   try {
-    const usageCostHtml = usage.costThisMonth > 0
-      ? `<tr><td style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.5; color: rgba(0,0,0,0.87);" class="text-primary"><strong>Cost:</strong> $${usage.costThisMonth.toFixed(2)}</td></tr>`
-      : '';
-
-    const content = `
-      <!-- Header -->
-      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-bottom: 30px;">
-        <tr>
-          <td>
-            <h1 style="margin: 0 0 8px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 24px; font-weight: 600; line-height: 1.3; color: rgba(0,0,0,0.87);" class="text-primary">
-              Upload Limit Reached
-            </h1>
-            <p style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 15px; line-height: 1.5; color: #666666;" class="text-secondary">
-              Your free tier limit has been reached
-            </p>
-          </td>
-        </tr>
-      </table>
-
-      <!-- Reason -->
-      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-bottom: 24px;">
-        <tr>
-          <td style="padding: 16px; background-color: #FCF9FA; border-radius: 6px; border-left: 3px solid #C0151E;" class="bg-warning">
-            <p style="margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 15px; line-height: 1.5; color: rgba(0,0,0,0.87);" class="text-primary">
-              ${reason}
-            </p>
-          </td>
-        </tr>
-      </table>
-
-      <!-- Usage Summary -->
-      <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
-        <tr>
-          <td style="padding: 16px; background-color: #F7F7F7; border-radius: 6px;" class="bg-section">
-            <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">
-              <tr>
-                <td style="padding-bottom: 8px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; font-weight: 600; line-height: 1.5; color: rgba(0,0,0,0.87);" class="text-primary">
-                  Usage This Month
-                </td>
-              </tr>
-              <tr>
-                <td style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.5; color: rgba(0,0,0,0.87);" class="text-primary">
-                  <strong>Emails:</strong> ${usage.uploadsThisMonth}
-                </td>
-              </tr>
-              <tr>
-                <td style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.5; color: rgba(0,0,0,0.87);" class="text-primary">
-                  <strong>Free:</strong> ${usage.freeEmailsUsed} / ${config.FREE_EMAILS_PER_MONTH}
-                </td>
-              </tr>
-              <tr>
-                <td style="padding: 4px 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.5; color: rgba(0,0,0,0.87);" class="text-primary">
-                  <strong>Paid:</strong> ${usage.paidEmailsThisMonth}
-                </td>
-              </tr>
-              ${usageCostHtml}
-            </table>
-          </td>
-        </tr>
-      </table>
-    `;
-
-    const htmlBody = getEmailTemplate(content);
-
-    const textBody = `
-Upload Limit Reached
-
-${reason}
-
-Usage this month:
-- Total emails: ${usage.uploadsThisMonth}
-- Free: ${usage.freeEmailsUsed} / ${config.FREE_EMAILS_PER_MONTH}
-- Paid: ${usage.paidEmailsThisMonth}
-${usage.costThisMonth > 0 ? `- Cost: $${usage.costThisMonth.toFixed(2)}` : ''}
-
----
-ForwARd by ArDrive
-    `.trim();
-
-    const transporter = await getTransporter();
-    await transporter.sendMail({
+    const locale = await getUserLocale(to);
+
+    const { html, text } = renderEmail('limit', {
+      headline: translate(locale, `limit.headline.${limit.code}`),
+      message: limitReasonText(locale, limit),
+      deferredUntil: deferredUntil ? formatDate(locale, deferredUntil) : null,
+      action: upgradeUrl ? { label: translate(locale, 'limit.upgrade'), href: upgradeUrl } : null,
+      freeEmailsPerMonth: config.FREE_EMAILS_PER_MONTH,
+      usage: usageView(usage),
+    }, locale);
+
+    await notify('limit', {
+      from: config.EMAIL_USER,
+      to,
+      subject: translate(locale, 'limit.subject'),
+      text,
+      html,
+    });
+
+    logger.info({ to }, 'Usage limit email queued');
+  } catch (error) {
+    logger.error({ error, to }, 'Failed to queue usage limit email');
+  }
+}
+
+/**
+ * Reply to a subject-line command (HELP, STATUS, USAGE, LIST, UPGRADE)
+ * Replies carrying wallet secrets are sent directly so they never sit in the queue
+ */
+export async function sendCommandReplyEmail(to: string, reply: CommandReply): Promise<void> {
+  try {
+    const locale = await getUserLocale(to);
+
+    const { html, text } = renderEmail('command-reply', {
+      title: reply.title,
+      intro: reply.intro,
+      rows: reply.rows,
+      action: reply.action ?? null,
+    }, locale);
+
+    await notify('command-reply', {
+      from: config.EMAIL_USER,
+      to,
+      subject: `${reply.title} - ForwARd`,
+      text,
+      html,
+      ...(reply.attachments ? { attachments: reply.attachments } : {}),
+    }, { direct: reply.sensitive === true });
+
+    logger.info({ to, command: reply.command }, 'Command reply queued');
+  } catch (error) {
+    logger.error({ error, to, command: reply.command }, 'Failed to queue command reply');
+  }
+}
+
+/**
+ * Send a daily/weekly digest of archived emails, failures and usage
+ * Digests linking private files carry file keys, so those are sent directly instead of queued
+ * Throws if it can't be queued or sent, so the digest window isn't advanced
+ */
+export async function sendDigestEmail(to: string, digest: ArchiveDigest): Promise<void> {
+  try {
+    const locale = await getUserLocale(to);
+    const { archived, failures, usage } = digest;
+    const title = translate(locale, digest.frequency === 'weekly' ? 'digest.titleWeekly' : 'digest.titleDaily');
+
+    const { html, text } = renderEmail('digest', {
+      title,
+      period: `${formatDate(locale, digest.since)} – ${formatDate(locale, digest.until)}`,
+      archived: archived.map((item) => ({
+        date: item.archivedAt.toISOString().slice(0, 10),
+        fileName: item.fileName,
+        url: item.entityId ? fileUrl(item.entityId, item.fileKey) : null,
+      })),
+      failures,
+      usage: usageView(usage),
+    }, locale);
+
+    const status = await notify('digest', {
+      from: `ForwARd <${config.EMAIL_USER}>`,
+      to,
+      replyTo: config.EMAIL_USER,
+      subject: `${title} - ForwARd`,
+      text,
+      html,
+      headers: {
+        'X-Mailer': 'ForwARd by ArDrive',
+        'List-Unsubscribe': `<mailto:${config.EMAIL_USER}?subject=NOTIFY%20OFF>`,
+        'Precedence': 'bulk'
+      }
+    }, { direct: archived.some((item) => item.fileKey) });
+
+    if (status === 'failed') {
+      throw new Error('Digest email could not be sent');
+    }
+
+    logger.info({ to, frequency: digest.frequency, archived: archived.length, failures: failures.length, status }, 'Digest email handed off');
+  } catch (error) {
+    logger.error({ error, to }, 'Failed to send digest email');
+    throw error;
+  }
+}
+
+/**
+ * Send payment failure notification (Stripe invoice.payment_failed)
+ */
+export async function sendPaymentFailedEmail(
+  to: string,
+  amountUsd: number,
+  invoiceUrl?: string
+): Promise<void> {
+  try {
+    const locale = await getUserLocale(to);
+
+    const { html, text } = renderEmail('payment-failed', {
+      amount: amountUsd.toFixed(2),
+      invoiceUrl: invoiceUrl ?? null,
+    }, locale);
+
+    await notify('payment-failed', {
       from: config.EMAIL_USER,
       to,
-      subject: 'Upload Limit Reached - ForwARd',
-      text: textBody,
-      html: htmlBody,
+      subject: translate(locale, 'payment-failed.subject'),
+      text,
+      html,
     });
 
-    logger.info({ to }, 'Usage limit email sent');
+    logger.info({ to }, 'Payment failed email queued');
   } catch (error) {
-    logger.error({ error, to }, 'Failed to send usage limit email');
+    logger.error({ error, to }, 'Failed to queue payment failed email');
   }
 }
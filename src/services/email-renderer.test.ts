@@ -0,0 +1,65 @@
+import { describe, test, expect } from 'bun:test';
+import { type ParsedMail } from 'mailparser';
+import { renderEmailHtml } from './email-renderer';
+
+function parsedMail(fields: Partial<ParsedMail>): ParsedMail {
+  return {
+    subject: 'Quarterly report',
+    date: new Date('2025-03-04T10:00:00Z'),
+    attachments: [],
+    headers: new Map(),
+    headerLines: [],
+    ...fields,
+  } as ParsedMail;
+}
+
+// Payloads that get past tag/attribute filtering - the CSP has to stop them
+const ACTIVE_CONTENT = [
+  '<svg/onload=alert(1)>',
+  '<img src=x/onerror=alert(1)>',
+  '<a href="&#106;avascript:alert(1)">link</a>',
+  '<form><button formaction="javascript:alert(1)">go</button></form>',
+];
+
+describe('renderEmailHtml', () => {
+  test('blocks scripts with a Content-Security-Policy ahead of the email body', () => {
+    const html = renderEmailHtml(parsedMail({ html: `<html><body>${ACTIVE_CONTENT.join('\n')}</body></html>` }));
+
+    const csp = html.match(/<meta http-equiv="Content-Security-Policy" content="([^"]+)">/);
+    expect(csp).not.toBeNull();
+    expect(html.indexOf(csp![0])).toBeLessThan(html.indexOf('<body>'));
+
+    const directives = csp![1]!.split('; ');
+    expect(directives).toContain("default-src 'none'");
+    expect(directives).toContain("form-action 'none'");
+    expect(directives).toContain("base-uri 'none'");
+    expect(directives.some((directive) => directive.startsWith('script-src'))).toBe(false);
+  });
+
+  test('only allows inline images', () => {
+    const html = renderEmailHtml(parsedMail({ html: '<html><body><img src="https://tracker.example.com/pixel.gif"></body></html>' }));
+
+    const csp = html.match(/<meta http-equiv="Content-Security-Policy" content="([^"]+)">/)![1]!;
+    expect(csp.split('; ')).toContain('img-src data: cid:');
+    expect(csp).not.toContain('https:');
+  });
+
+  test('strips scripts, frames and meta tags from HTML bodies', () => {
+    const html = renderEmailHtml(parsedMail({
+      html: '<html><head><meta http-equiv="refresh" content="0;url=https://example.com"></head><body><p onclick="x()">Hi</p><script>alert(1)</script><iframe src="https://example.com"></iframe></body></html>',
+    }));
+
+    expect(html).not.toContain('<script');
+    expect(html).not.toContain('<iframe');
+    expect(html).not.toContain('http-equiv="refresh"');
+    expect(html).not.toContain('onclick');
+    expect(html).toContain('<p>Hi</p>');
+  });
+
+  test('escapes plain-text bodies and headers', () => {
+    const html = renderEmailHtml(parsedMail({ subject: '<b>Hi</b>', text: '1 < 2 & <script>' }));
+
+    expect(html).toContain('<title>&lt;b&gt;Hi&lt;/b&gt;</title>');
+    expect(html).toContain('<pre class="plain">1 &lt; 2 &amp; &lt;script&gt;</pre>');
+  });
+});
@@ -0,0 +1,149 @@
+import { type ParsedMail } from 'mailparser';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { writeFileSync, statSync, existsSync, unlinkSync } from 'fs';
+import { config } from '../config/env';
+import { createLogger } from '../config/logger';
+import { formatAddresses, escapeHtml } from './utils';
+
+const logger = createLogger('email-renderer');
+
+const execFileAsync = promisify(execFile);
+
+const PDF_TIMEOUT_MS = 60000; // 1 minute
+
+// Snapshots are served from public gateways, so nothing in them may run: no scripts (inline, handlers or
+// javascript: URLs), frames, plugins, form submissions or <base> rewrites. Images must be inline (data:/cid:) -
+// remote images would be tracking pixels for whoever opens the archive, and can change after archiving.
+const SNAPSHOT_CSP = [
+  "default-src 'none'",
+  "style-src 'unsafe-inline'",
+  'img-src data: cid:',
+  'font-src data:',
+  "form-action 'none'",
+  "base-uri 'none'",
+].join('; ');
+
+export interface RenderedFile {
+  filepath: string;
+  sizeBytes: number;
+}
+
+/**
+ * Remove active content (scripts, frames, embedded objects, inline event handlers, javascript: URLs)
+ * Best-effort cleanup for converters that ignore CSP - SNAPSHOT_CSP is what keeps browsers from running anything
+ */
+function stripActiveContent(html: string): string {
+  return html
+    .replace(/<script\b[\s\S]*?<\/script\s*>/gi, '')
+    .replace(/<(iframe|frameset|object|applet)\b[\s\S]*?<\/\1\s*>/gi, '')
+    .replace(/<\/?(iframe|frame|frameset|object|embed|applet)\b[^>]*>/gi, '')
+    .replace(/<(base|meta)\b[^>]*>/gi, '')
+    .replace(/\son[a-z]+\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi, '')
+    .replace(/(href|src)\s*=\s*(["']?)\s*javascript:[^"'\s>]*\2/gi, '$1="#"');
+}
+
+/**
+ * Keep <style> blocks and the <body> contents of a full HTML document
+ */
+function extractBody(html: string): string {
+  const styles = html.match(/<style\b[\s\S]*?<\/style\s*>/gi) || [];
+  const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body\s*>/i);
+  return `${styles.join('\n')}\n${body ? body[1] : html}`;
+}
+
+/**
+ * Render a parsed email as a self-contained HTML document
+ * Inline (cid:) images are already data URIs - simpleParser rewrites them unless keepCidLinks is set
+ */
+export function renderEmailHtml(email: ParsedMail): string {
+  const subject = email.subject || '(no subject)';
+  const date = email.date ? email.date.toUTCString() : 'Unknown';
+
+  const headerRows: Array<[string, string]> = [
+    ['From', formatAddresses(email.from)],
+    ['To', formatAddresses(email.to)],
+    ...(email.cc ? [['Cc', formatAddresses(email.cc)] as [string, string]] : []),
+    ['Date', date],
+    ['Subject', subject],
+  ];
+
+  const attachmentNames = email.attachments
+    .filter((attachment) => !attachment.related) // Inline images are rendered in the body
+    .map((attachment) => attachment.filename || 'unnamed');
+  if (attachmentNames.length > 0) {
+    headerRows.push(['Attachments', attachmentNames.join(', ')]);
+  }
+
+  const body = email.html
+    ? stripActiveContent(extractBody(email.html))
+    : `<pre class="plain">${escapeHtml(email.text || '(no body)')}</pre>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta http-equiv="Content-Security-Policy" content="${SNAPSHOT_CSP}">
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(subject)}</title>
+  <style>
+    .forward-headers { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; font-size: 14px; border-collapse: collapse; margin: 0 0 16px 0; width: 100%; background: #F7F7F7; }
+    .forward-headers th { text-align: left; padding: 6px 12px; width: 110px; color: #666666; vertical-align: top; }
+    .forward-headers td { padding: 6px 12px; color: rgba(0,0,0,0.87); word-break: break-word; }
+    .plain { white-space: pre-wrap; font-family: monospace; font-size: 13px; }
+  </style>
+</head>
+<body>
+  <table class="forward-headers">
+    ${headerRows.map(([name, value]) => `<tr><th>${name}</th><td>${escapeHtml(value)}</td></tr>`).join('\n    ')}
+  </table>
+  <hr>
+  ${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Write the HTML snapshot of an email to disk
+ */
+export function saveHtmlSnapshot(email: ParsedMail, filepath: string): RenderedFile {
+  writeFileSync(filepath, renderEmailHtml(email), 'utf8');
+  return { filepath, sizeBytes: statSync(filepath).size };
+}
+
+/**
+ * Convert an HTML snapshot to PDF using the external converter in ARCHIVE_PDF_COMMAND
+ * The command is split on whitespace; {input} and {output} are replaced with file paths
+ * Example: "wkhtmltopdf --quiet {input} {output}"
+ *
+ * Returns null if no converter is configured or conversion fails (the PDF is best-effort)
+ */
+export async function renderPdf(htmlPath: string, pdfPath: string): Promise<RenderedFile | null> {
+  if (!config.ARCHIVE_PDF_COMMAND) {
+    return null;
+  }
+
+  const [command, ...args] = config.ARCHIVE_PDF_COMMAND
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) => part.replace('{input}', htmlPath).replace('{output}', pdfPath));
+
+  if (!command) {
+    return null;
+  }
+
+  try {
+    await execFileAsync(command, args, { timeout: PDF_TIMEOUT_MS });
+    const sizeBytes = statSync(pdfPath).size;
+    logger.info({ pdfPath, sizeBytes }, 'Rendered PDF snapshot');
+    return { filepath: pdfPath, sizeBytes };
+  } catch (error) {
+    logger.warn({ error, command }, 'PDF conversion failed, skipping PDF snapshot');
+    // Don't leave a partial PDF behind
+    if (existsSync(pdfPath)) {
+      unlinkSync(pdfPath);
+    }
+    return null;
+  }
+}
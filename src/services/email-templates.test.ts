@@ -0,0 +1,96 @@
+import { describe, test, expect } from 'bun:test';
+import { renderEmail, TEMPLATE_NAMES, type TemplateName } from './email-templates';
+
+const usage = {
+  uploadsThisMonth: 14,
+  freeEmailsUsed: 10,
+  freeEmailsRemaining: 0,
+  paidEmailsThisMonth: 4,
+  costThisMonth: 0.4,
+  cost: '0.40',
+};
+
+const fileUrl = (entityId: string) => `https://app.ardrive.io/#/file/${entityId}/view?fileKey=key-${entityId}`;
+
+// Data as the senders in email-notification.ts pass it (the subject checks HTML escaping)
+const FIXTURES: Record<TemplateName, Record<string, unknown>> = {
+  confirmation: {
+    subject: 'Q3 <Report> & "Notes"',
+    publicDrive: false,
+    eml: { fileName: '2025-03-04_Q3_Report.eml', url: fileUrl('eml-1') },
+    snapshots: [{ fileName: '2025-03-04_Q3_Report.html', url: fileUrl('html-1') }],
+    attachments: [
+      { fileName: 'report.pdf', url: fileUrl('att-1') },
+      { fileName: 'figures.xlsx', url: fileUrl('att-2') },
+    ],
+    usage,
+  },
+  welcome: {
+    driveTypeLabel: 'Private',
+    driveTypeDescription: 'encrypted',
+    heading: 'Your Private Drive is Ready!',
+    subheading: 'Your email archive has been created.',
+    publicDrive: false,
+    userEmail: 'alice@example.com',
+    driveId: 'drive-1',
+    walletAddress: null,
+    archiveAddresses: 'preserve@ardrive.io or private-preserve@ardrive.io',
+    action: { label: 'Open Drive', href: 'https://app.ardrive.io/#/drives/drive-1?name=alice%40example.com&driveKey=secret' },
+  },
+  error: {
+    subject: 'Scans',
+    attempts: '3 attempts',
+    errorMessage: 'Upload failed: <timeout>',
+  },
+  limit: {
+    headline: 'Monthly email limit reached',
+    message: 'You have archived 10 of 10 free emails this month.',
+    deferredUntil: 'April 1, 2025',
+    action: { label: 'Upgrade', href: 'https://checkout.example.com/session' },
+    freeEmailsPerMonth: 10,
+    usage,
+  },
+  digest: {
+    title: 'Your daily archive digest',
+    period: 'March 3, 2025 – March 4, 2025',
+    archived: [
+      { date: '2025-03-03', fileName: 'Invoice.eml', url: fileUrl('eml-2') },
+      { date: '2025-03-04', fileName: 'Pending.eml', url: null },
+    ],
+    failures: [{ subject: 'Huge video', errorMessage: 'Message too large' }],
+    usage,
+  },
+  'command-reply': {
+    title: 'Your drives',
+    intro: 'These drives belong to alice@example.com.',
+    rows: [
+      { label: 'Private drive', value: 'drive-1', href: 'https://app.ardrive.io/#/drives/drive-1' },
+      { label: 'Plan', value: 'free' },
+    ],
+    action: { label: 'Upgrade', href: 'https://checkout.example.com/session' },
+  },
+  'payment-failed': {
+    amount: '12.50',
+    invoiceUrl: 'https://invoice.stripe.com/i/acct_1/test',
+  },
+};
+
+describe('notification templates', () => {
+  for (const name of TEMPLATE_NAMES) {
+    test(`${name} (html)`, () => {
+      expect(renderEmail(name, FIXTURES[name]).html).toMatchSnapshot();
+    });
+
+    test(`${name} (txt)`, () => {
+      expect(renderEmail(name, FIXTURES[name]).text).toMatchSnapshot();
+    });
+  }
+
+  test('escape values in HTML but not in plain text', () => {
+    const { html, text } = renderEmail('confirmation', FIXTURES.confirmation);
+
+    expect(html).toContain('Q3 &lt;Report&gt; &amp; &quot;Notes&quot;');
+    expect(html).not.toContain('<Report>');
+    expect(text).toContain('"Q3 <Report> & "Notes""');
+  });
+});
@@ -0,0 +1,127 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { config } from '../config/env';
+import { createLogger } from '../config/logger';
+import { compileTemplate, renderTemplate, type CompiledTemplate } from './template-engine';
+import { translateSection, DEFAULT_LOCALE, type Locale } from './i18n';
+
+const logger = createLogger('email-templates');
+
+// Built-in templates; files in TEMPLATE_DIR with the same relative path take precedence
+const BUILTIN_TEMPLATE_DIR = join(__dirname, '../templates');
+
+/**
+ * Notification templates - each is a pair of <name>.html and <name>.txt files,
+ * wrapped in layout.html / layout.txt. Partials live in partials/<name>.html|.txt
+ * Their text comes from the catalog section of the same name in src/locales ({{t.key}}),
+ * shared text from the "common" section ({{common.key}})
+ */
+export const TEMPLATE_NAMES = [
+  'confirmation',
+  'welcome',
+  'error',
+  'limit',
+  'digest',
+  'command-reply',
+  'payment-failed',
+] as const;
+
+export type TemplateName = typeof TEMPLATE_NAMES[number];
+
+export type TemplateFormat = 'html' | 'txt';
+
+export interface RenderedEmail {
+  html: string;
+  text: string;
+}
+
+const cache = new Map<string, CompiledTemplate>();
+
+/**
+ * Where a template file is loaded from (TEMPLATE_DIR override or built-in)
+ */
+export function resolveTemplatePath(file: string): string {
+  if (config.TEMPLATE_DIR) {
+    const override = join(config.TEMPLATE_DIR, file);
+    if (existsSync(override)) {
+      return override;
+    }
+  }
+  return join(BUILTIN_TEMPLATE_DIR, file);
+}
+
+/**
+ * Load and compile a template file (cached, except in development so edits show up immediately)
+ */
+function loadTemplate(file: string): CompiledTemplate {
+  const cached = cache.get(file);
+  if (cached) {
+    return cached;
+  }
+
+  const path = resolveTemplatePath(file);
+  let compiled: CompiledTemplate;
+  try {
+    compiled = compileTemplate(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to load template ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (config.NODE_ENV !== 'development') {
+    cache.set(file, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Forget compiled templates (e.g. after changing files in TEMPLATE_DIR)
+ */
+export function clearTemplateCache(): void {
+  cache.clear();
+}
+
+function renderFormat(name: TemplateName, format: TemplateFormat, data: Record<string, unknown>): string {
+  const options = {
+    partial: (partial: string) => loadTemplate(`partials/${partial}.${format}`),
+    ...(format === 'txt' ? { escape: (value: string) => value } : {}),
+  };
+
+  const content = renderTemplate(loadTemplate(`${name}.${format}`), data, options).trim();
+  return renderTemplate(loadTemplate(`layout.${format}`), { ...data, content }, options).trim();
+}
+
+/**
+ * Render a notification as HTML and plain text in the recipient's language
+ * Values are HTML-escaped in the .html template ({{{raw}}} opts out) and left as-is in the .txt one
+ */
+export function renderEmail(name: TemplateName, data: Record<string, unknown>, locale: Locale = DEFAULT_LOCALE): RenderedEmail {
+  const localized = {
+    ...data,
+    locale,
+    t: translateSection(locale, name, data),
+    common: translateSection(locale, 'common', data),
+  };
+
+  return {
+    html: renderFormat(name, 'html', localized),
+    text: renderFormat(name, 'txt', localized),
+  };
+}
+
+/**
+ * Compile every template up front so a broken TEMPLATE_DIR override fails at startup,
+ * not when the first notification goes out (partials are checked when first used)
+ */
+export function validateTemplates(): void {
+  const files = ['layout.html', 'layout.txt', ...TEMPLATE_NAMES.flatMap((name) => [`${name}.html`, `${name}.txt`])];
+
+  for (const file of files) {
+    loadTemplate(file);
+  }
+
+  const overridden = config.TEMPLATE_DIR
+    ? files.filter((file) => resolveTemplatePath(file) !== join(BUILTIN_TEMPLATE_DIR, file))
+    : [];
+
+  logger.info({ templateDir: config.TEMPLATE_DIR ?? null, overridden }, 'Notification templates loaded');
+}
@@ -0,0 +1,30 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import { readFileSync, unlinkSync } from 'fs';
+import { saveAttachmentToTmpFile } from './file-prep';
+
+const saved: string[] = [];
+
+afterEach(() => {
+  saved.splice(0).forEach((filepath) => unlinkSync(filepath));
+});
+
+describe('saveAttachmentToTmpFile', () => {
+  test('keeps same-name attachments apart', () => {
+    const first = saveAttachmentToTmpFile('email-1-0', 'scan.pdf', Buffer.from('first'));
+    const second = saveAttachmentToTmpFile('email-1-1', 'scan.pdf', Buffer.from('second'));
+    saved.push(first.path, second.path);
+
+    expect(first.path).not.toBe(second.path);
+    expect(first.name).toBe('scan.pdf');
+    expect(readFileSync(first.path, 'utf-8')).toBe('first');
+    expect(readFileSync(second.path, 'utf-8')).toBe('second');
+  });
+
+  test('sanitizes the file name', () => {
+    const attachment = saveAttachmentToTmpFile('email-2-0', '../quarterly report.pdf', Buffer.from('x'), 'application/pdf');
+    saved.push(attachment.path);
+
+    expect(attachment.name).toBe('.._quarterly_report.pdf');
+    expect(attachment.contentType).toBe('application/pdf');
+  });
+});
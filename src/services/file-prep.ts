@@ -85,12 +85,13 @@ function extractAddresses(addr: ParsedMail['to'] | ParsedMail['from']): string {
   }
 
 export function saveAttachmentToTmpFile(
+    prefix: string, // Unique per attachment (e.g. processed email ID + index), so same-name attachments don't collide
     filename: string,
     content: Buffer,
     contentType?: string
     ): SavedAttachment {
     const safeName = filename.replace(/[^a-zA-Z0-9_\-\.]/g, '_');
-    const fullPath = path.join(TEMP_DIR, `${Date.now()}-${safeName}`);
+    const fullPath = path.join(TEMP_DIR, `${prefix}-${safeName}`);
 
     fs.writeFileSync(fullPath, content);
     return { path: fullPath, name: safeName, contentType };
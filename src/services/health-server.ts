@@ -3,6 +3,9 @@ import { createLogger } from '../config/logger';
 import { getDb } from '../database/db';
 import { emailQueue } from '../jobs/queue';
 import { sql } from 'drizzle-orm';
+import { handleStripeWebhook } from './stripe-webhooks';
+import { handleAdminRequest } from './admin-api';
+import { handleApiRequest } from './api-ingest';
 
 const logger = createLogger('health-server');
 
@@ -52,6 +55,9 @@ let cachedStats: HealthStats | null = null;
 let cacheTime = 0;
 const CACHE_TTL = 60000; // 60 seconds
 
+const MAX_WEBHOOK_BODY_BYTES = 1024 * 1024; // 1MB (Stripe events are far smaller)
+const MAX_ADMIN_BODY_BYTES = 64 * 1024; // 64KB (admin requests are tiny JSON objects)
+
 /**
  * Check database connectivity
  */
@@ -263,8 +269,32 @@ export async function getHealthStatus(): Promise<HealthStatus> {
   return status;
 }
 
+/**
+ * Read a request body as a raw buffer (signature checks need the exact bytes)
+ */
+function readRawBody(req: http.IncomingMessage, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let length = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      length += chunk.length;
+      if (length > maxBytes) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks, length)));
+    req.on('error', reject);
+  });
+}
+
 /**
  * Start health check HTTP server
+ * Also serves the Stripe webhook endpoint (POST /webhooks/stripe), the admin API (/admin/*)
+ * and the archiving API for user API keys (/api/*)
  */
 export function startHealthServer(port: number = 3000): http.Server {
   const server = http.createServer(async (req, res) => {
@@ -291,6 +321,74 @@ export function startHealthServer(port: number = 3000): http.Server {
         res.writeHead(500, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({ status: 'unhealthy', error: 'Health check failed' }));
       }
+    } else if (req.url === '/webhooks/stripe' && req.method === 'POST') {
+      try {
+        const rawBody = await readRawBody(req, MAX_WEBHOOK_BODY_BYTES);
+        const signature = req.headers['stripe-signature'];
+        const { statusCode, body } = await handleStripeWebhook(
+          rawBody,
+          Array.isArray(signature) ? signature[0] : signature
+        );
+
+        res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      } catch (error) {
+        logger.error({ error }, 'Stripe webhook failed');
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ received: false, error: 'Webhook failed' }));
+      }
+    } else if (req.url?.startsWith('/admin/')) {
+      // Not listed in the CORS headers above - the admin API is for scripts, not browsers
+      try {
+        const url = new URL(req.url, 'http://localhost');
+        const method = req.method ?? 'GET';
+        const rawBody = method === 'POST' || method === 'PATCH'
+          ? (await readRawBody(req, MAX_ADMIN_BODY_BYTES)).toString('utf8')
+          : '';
+        const { statusCode, body } = await handleAdminRequest({
+          method,
+          url,
+          authorization: req.headers.authorization,
+          body: rawBody || null,
+        });
+
+        res.writeHead(statusCode, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+        res.end(JSON.stringify(body));
+      } catch (error) {
+        logger.error({ error }, 'Admin API request failed');
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Internal server error' }));
+      }
+    } else if (req.url?.startsWith('/api/')) {
+      try {
+        const contentLength = req.headers['content-length'];
+        const { statusCode, body } = await handleApiRequest({
+          method: req.method ?? 'GET',
+          url: new URL(req.url, 'http://localhost'),
+          authorization: req.headers.authorization,
+          contentType: req.headers['content-type'],
+          contentLength: contentLength ? Number(contentLength) : undefined,
+          body: req, // Streamed - uploads are checked against API_MAX_UPLOAD_BYTES as they arrive
+        });
+
+        // Answered before the whole body was read (e.g. a 413 mid-upload): close the connection
+        // once the response is out, rather than reading the rest of the upload
+        const bodyUnread = !req.complete;
+        res.writeHead(statusCode, {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-store',
+          ...(bodyUnread ? { 'Connection': 'close' } : {}),
+        });
+        res.end(JSON.stringify(body), () => {
+          if (bodyUnread) {
+            req.socket.destroy();
+          }
+        });
+      } catch (error) {
+        logger.error({ error }, 'API request failed');
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Internal server error' }));
+      }
     } else if (req.url === '/ping' && req.method === 'GET') {
       // Simple ping endpoint for uptime monitors
       res.writeHead(200, { 'Content-Type': 'text/plain' });
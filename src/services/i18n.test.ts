@@ -0,0 +1,69 @@
+import { describe, test, expect } from 'bun:test';
+import { SUPPORTED_LOCALES, DEFAULT_LOCALE, findMissingKeys, translate, type Catalog } from './i18n';
+import en from '../locales/en.json';
+import es from '../locales/es.json';
+import de from '../locales/de.json';
+
+const CATALOGS: Record<string, Catalog> = { en, es, de };
+
+/**
+ * Every string of a catalog by dotted path (list entries are joined - translations may word them differently)
+ */
+function flatten(catalog: Catalog, prefix = ''): Map<string, string> {
+  const strings = new Map<string, string>();
+  for (const [key, value] of Object.entries(catalog)) {
+    if (typeof value === 'string' || Array.isArray(value)) {
+      strings.set(`${prefix}${key}`, [value].flat().join('\n'));
+    } else {
+      for (const [path, text] of flatten(value, `${prefix}${key}.`)) {
+        strings.set(path, text);
+      }
+    }
+  }
+  return strings;
+}
+
+function placeholders(text: string): string[] {
+  return [...new Set([...text.matchAll(/\{\{\{?\s*([^}]+?)\s*\}?\}\}/g)].map((match) => match[1]!))].sort();
+}
+
+const reference = flatten(CATALOGS[DEFAULT_LOCALE]!);
+const translations = SUPPORTED_LOCALES.filter((locale) => locale !== DEFAULT_LOCALE);
+
+describe('locale catalogs', () => {
+  test('every supported locale has a catalog', () => {
+    expect(Object.keys(CATALOGS).sort()).toEqual([...SUPPORTED_LOCALES].sort());
+  });
+
+  test.each(translations)('%s translates every key of the reference catalog', (locale) => {
+    expect(findMissingKeys(locale)).toEqual([]);
+  });
+
+  test.each(translations)('%s has no keys the reference catalog lacks', (locale) => {
+    const extra = [...flatten(CATALOGS[locale]!).keys()].filter((path) => !reference.has(path));
+    expect(extra).toEqual([]);
+  });
+
+  test.each(translations)('%s uses the same placeholders as the reference catalog', (locale) => {
+    const translated = flatten(CATALOGS[locale]!);
+    const mismatched = [...reference]
+      .filter(([path, text]) => placeholders(translated.get(path) ?? text).join() !== placeholders(text).join())
+      .map(([path]) => path);
+    expect(mismatched).toEqual([]);
+  });
+});
+
+describe('translate', () => {
+  test('interpolates placeholders without escaping', () => {
+    expect(translate('en', 'confirmation.subject', { subject: '<Q3 & Q4>' })).toBe('Email archived: "<Q3 & Q4>"');
+  });
+
+  test('translates command replies', () => {
+    expect(translate('de', 'command-reply.list.count', { count: 3, month: '2025-10' })).toBe('3 E-Mail(s) im Zeitraum 2025-10 archiviert.');
+    expect(translate('es', 'command-reply.apiKey.revoked', { prefix: 'fwd_ab12' })).toBe('La clave de API fwd_ab12 se ha revocado y ya no se puede usar.');
+  });
+
+  test('returns the key when no catalog has it', () => {
+    expect(translate('de', 'no.such.key')).toBe('no.such.key');
+  });
+});
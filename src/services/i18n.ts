@@ -0,0 +1,236 @@
+import { createLogger } from '../config/logger';
+import { compileTemplate, renderTemplate, type CompiledTemplate } from './template-engine';
+import en from '../locales/en.json';
+import es from '../locales/es.json';
+import de from '../locales/de.json';
+
+const logger = createLogger('i18n');
+
+/**
+ * Locales notifications are translated into - each has a catalog in src/locales/<locale>.json
+ * en is the reference catalog: keys missing from another locale fall back to it
+ */
+export const SUPPORTED_LOCALES = ['en', 'es', 'de'] as const;
+
+export type Locale = typeof SUPPORTED_LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Shown in LANG replies, in the language itself
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+  de: 'Deutsch',
+};
+
+/**
+ * Message catalog: nested sections of strings (or string lists)
+ * Strings may use {{path}} placeholders, filled from the data the notification is rendered with
+ */
+export interface Catalog {
+  [key: string]: string | string[] | Catalog;
+}
+
+const CATALOGS: Record<Locale, Catalog> = { en, es, de };
+
+const compiled = new Map<string, CompiledTemplate>();
+
+/**
+ * Match a language tag (e.g. "de-AT", "ES", "en_GB") to a supported locale
+ */
+export function resolveLocale(tag: string | null | undefined): Locale | null {
+  const language = tag?.trim().toLowerCase().split(/[-_]/)[0];
+  return SUPPORTED_LOCALES.find((locale) => locale === language) ?? null;
+}
+
+/**
+ * Pick the preferred supported locale from an Accept-Language or Content-Language header value
+ * ("de-CH, fr;q=0.8, en;q=0.5") - entries are tried by descending quality
+ */
+export function detectLocale(header: string | null | undefined): Locale | null {
+  if (!header) {
+    return null;
+  }
+
+  const ranked = header.split(',')
+    .map((entry, index) => {
+      const [tag = '', ...params] = entry.split(';').map((part) => part.trim());
+      const q = params.find((param) => param.startsWith('q='));
+      return { tag, quality: q ? Number(q.slice(2)) : 1, index };
+    })
+    .filter((entry) => entry.tag && entry.tag !== '*' && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const { tag } of ranked) {
+    const locale = resolveLocale(tag);
+    if (locale) {
+      return locale;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Locale of an incoming email: Accept-Language (the sender's own preference, set by Outlook and others)
+ * wins over Content-Language (the language the email happens to be written in)
+ */
+export function detectEmailLocale(headers: Map<string, unknown>): Locale | null {
+  for (const name of ['accept-language', 'content-language']) {
+    const value = headers.get(name);
+    const locale = detectLocale(typeof value === 'string' ? value : undefined);
+    if (locale) {
+      return locale;
+    }
+  }
+  return null;
+}
+
+function isCatalog(value: unknown): value is Catalog {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function lookup(catalog: Catalog, key: string): Catalog[string] | undefined {
+  let value: Catalog[string] | undefined = catalog;
+  for (const part of key.split('.')) {
+    if (!isCatalog(value)) return undefined;
+    value = value[part];
+  }
+  return value;
+}
+
+/**
+ * Reference section with the locale's entries laid over it (missing keys keep the English text)
+ */
+function mergeSection(reference: Catalog, translated: Catalog | undefined): Catalog {
+  const merged: Catalog = {};
+
+  for (const [key, value] of Object.entries(reference)) {
+    const override = translated?.[key];
+    if (isCatalog(value)) {
+      merged[key] = mergeSection(value, isCatalog(override) ? override : undefined);
+    } else {
+      merged[key] = typeof override === typeof value && Array.isArray(override) === Array.isArray(value) ? override! : value;
+    }
+  }
+
+  return merged;
+}
+
+function interpolate(text: string, data: unknown): string {
+  let template = compiled.get(text);
+  if (!template) {
+    template = compileTemplate(text);
+    compiled.set(text, template);
+  }
+  // Not escaped here - the notification template escapes the result where it's used
+  return renderTemplate(template, data, { escape: (value) => value });
+}
+
+function interpolateAll(section: Catalog, data: unknown): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(section)) {
+    result[key] = isCatalog(value)
+      ? interpolateAll(value, data)
+      : Array.isArray(value)
+        ? value.map((item) => interpolate(item, data))
+        : interpolate(value, data);
+  }
+  return result;
+}
+
+/**
+ * Translate a single string, e.g. translate('de', 'limit.subject')
+ * Falls back to English, then to the key itself
+ */
+export function translate(locale: Locale, key: string, data: Record<string, unknown> = {}): string {
+  const value = lookup(CATALOGS[locale], key);
+  if (typeof value === 'string') {
+    return interpolate(value, data);
+  }
+
+  const fallback = lookup(CATALOGS[DEFAULT_LOCALE], key);
+  if (typeof fallback === 'string') {
+    return interpolate(fallback, data);
+  }
+
+  logger.warn({ locale, key }, 'Missing translation');
+  return key;
+}
+
+/**
+ * All strings of a catalog section, interpolated with the given data (as used by notification templates)
+ */
+export function translateSection(locale: Locale, section: string, data: Record<string, unknown>): Record<string, unknown> {
+  const reference = lookup(CATALOGS[DEFAULT_LOCALE], section);
+  if (!isCatalog(reference)) {
+    return {};
+  }
+
+  const translated = lookup(CATALOGS[locale], section);
+  return interpolateAll(mergeSection(reference, isCatalog(translated) ? translated : undefined), data);
+}
+
+/**
+ * Format a date for a notification in the recipient's language
+ */
+export function formatDate(locale: Locale, date: Date): string {
+  return date.toLocaleDateString(locale, { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function missingKeys(reference: Catalog, translated: Catalog | undefined, prefix: string): string[] {
+  const missing: string[] = [];
+
+  for (const [key, value] of Object.entries(reference)) {
+    const path = `${prefix}${key}`;
+    const override = translated?.[key];
+
+    if (isCatalog(value)) {
+      missing.push(...missingKeys(value, isCatalog(override) ? override : undefined, `${path}.`));
+    } else if (override === undefined || isCatalog(override) || Array.isArray(override) !== Array.isArray(value)) {
+      missing.push(path);
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Keys of the reference (English) catalog that a locale doesn't translate
+ */
+export function findMissingKeys(locale: Locale): string[] {
+  return missingKeys(CATALOGS[DEFAULT_LOCALE], CATALOGS[locale], '');
+}
+
+/**
+ * Compile every catalog string up front (a broken placeholder fails at startup)
+ * and report keys a shipped locale is missing - those are sent in English
+ */
+export function validateLocales(): void {
+  const compileAll = (section: Catalog, locale: Locale, prefix: string): void => {
+    for (const [key, value] of Object.entries(section)) {
+      if (isCatalog(value)) {
+        compileAll(value, locale, `${prefix}${key}.`);
+        continue;
+      }
+      for (const text of Array.isArray(value) ? value : [value]) {
+        try {
+          compileTemplate(text);
+        } catch (error) {
+          throw new Error(`Invalid translation ${locale}:${prefix}${key}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+  };
+
+  for (const locale of SUPPORTED_LOCALES) {
+    compileAll(CATALOGS[locale], locale, '');
+
+    const missing = findMissingKeys(locale);
+    if (missing.length > 0) {
+      logger.warn({ locale, missing }, 'Translations missing, falling back to English');
+    }
+  }
+
+  logger.info({ locales: SUPPORTED_LOCALES }, 'Notification translations loaded');
+}
@@ -0,0 +1,195 @@
+import { describe, test, expect, beforeEach, afterEach, type Mock } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import { config } from '../config/env';
+import { getDb } from '../database/db';
+import { processedEmails, imapFolderState } from '../database/schema';
+import * as queue from '../jobs/queue';
+import { FakeImapServer, waitFor, type FakeMessage } from '../test/fake-imap-server';
+import { IMAPService } from './imap-service';
+
+const queueEmail = queue.queueEmail as Mock<typeof queue.queueEmail>;
+
+let server: FakeImapServer;
+let service: IMAPService;
+
+async function startService(options: {
+  idle?: boolean;
+  mode: 'idle' | 'poll';
+  pollIntervalMs?: number;
+  autoIdleDelayMs?: number;
+  messages?: FakeMessage[];
+}) {
+  server = new FakeImapServer({ idle: options.idle ?? true });
+  for (const message of options.messages ?? []) {
+    server.deliver(message);
+  }
+  Object.assign(config, {
+    EMAIL_HOST: '127.0.0.1',
+    EMAIL_PORT: await server.listen(),
+    EMAIL_TLS: false,
+    IMAP_MODE: options.mode,
+    IMAP_POLL_INTERVAL_MS: options.pollIntervalMs ?? 60000,
+    IMAP_IDLE_RESYNC_MS: 60000,
+  });
+
+  service = new IMAPService(options.autoIdleDelayMs !== undefined ? { autoIdleDelayMs: options.autoIdleDelayMs } : {});
+  await service.start();
+}
+
+// Reconnect, as after a restart - the server's mailbox may have changed in between
+async function restartService() {
+  await service.stop();
+  service = new IMAPService();
+  await service.start();
+}
+
+beforeEach(async () => {
+  queueEmail.mockClear();
+  const db = await getDb();
+  await db.delete(processedEmails);
+  await db.delete(imapFolderState);
+});
+
+afterEach(async () => {
+  await service.stop();
+  await server.close();
+});
+
+describe('IMAPService', () => {
+  test('polls when an EXISTS notification arrives during IDLE', async () => {
+    // Enter IDLE soon after the first poll instead of after ImapFlow's default delay
+    await startService({ mode: 'idle', autoIdleDelayMs: 50 });
+    await waitFor(() => server.count('UID SEARCH') === 1 && !service.isPolling());
+    expect(server.count('SELECT')).toBe(1);
+    expect(service.getWatchMode()).toBe('idle');
+
+    await waitFor(() => server.isIdling());
+
+    server.deliver({ uid: 7, from: 'alice@example.com', subject: 'Report', messageId: '<report@example.com>' });
+
+    await waitFor(() => queueEmail.mock.calls.length === 1);
+    expect(server.count('UID SEARCH')).toBe(2);
+    expect(queueEmail.mock.calls[0]![0]).toMatchObject({ uid: 7, uidValidity: 1, folder: 'INBOX', driveType: 'private' });
+
+    const db = await getDb();
+    const [row] = await db.select().from(processedEmails);
+    expect(row).toMatchObject({ uid: 7, folder: 'INBOX', sender: 'alice@example.com', subject: 'Report', status: 'queued' });
+  });
+
+  test('records the message before queueing it', async () => {
+    const db = await getDb();
+    let rowAtQueueTime: unknown;
+    queueEmail.mockImplementationOnce(async (data: any) => {
+      [rowAtQueueTime] = await db.select().from(processedEmails).where(eq(processedEmails.id, data.processedEmailId));
+    });
+
+    await startService({ mode: 'poll' });
+    await waitFor(() => server.count('UID SEARCH') === 1 && !service.isPolling());
+    server.deliver({ uid: 3, from: 'bob@example.com', subject: 'Invoice', messageId: '<invoice@example.com>' });
+    service.requestPoll();
+
+    await waitFor(() => queueEmail.mock.calls.length === 1);
+    expect(rowAtQueueTime).toMatchObject({ uid: 3, status: 'queued' });
+  });
+
+  test('retries a message on the next poll when queueing fails', async () => {
+    queueEmail.mockImplementationOnce(async () => {
+      throw new Error('Redis unavailable');
+    });
+
+    await startService({ mode: 'poll' });
+    await waitFor(() => server.count('UID SEARCH') === 1 && !service.isPolling());
+    server.deliver({ uid: 4, from: 'bob@example.com', subject: 'Receipt', messageId: '<receipt@example.com>' });
+
+    service.requestPoll();
+    await waitFor(() => queueEmail.mock.calls.length === 1 && !service.isPolling());
+    const db = await getDb();
+    expect(await db.select().from(processedEmails)).toHaveLength(0);
+
+    service.requestPoll();
+    await waitFor(() => queueEmail.mock.calls.length === 2 && !service.isPolling());
+    expect(await db.select().from(processedEmails)).toHaveLength(1);
+  });
+
+  test('falls back to polling when the server does not support IDLE', async () => {
+    await startService({ idle: false, mode: 'idle', pollIntervalMs: 50 });
+
+    await waitFor(() => server.count('UID SEARCH') >= 3);
+    expect(server.count('IDLE')).toBe(0);
+    expect(service.getWatchMode()).toBe('poll');
+  });
+
+  test('polls on an interval in poll mode', async () => {
+    await startService({ mode: 'poll', pollIntervalMs: 50 });
+
+    await waitFor(() => server.count('UID SEARCH') >= 3);
+    expect(server.count('IDLE')).toBe(0);
+  });
+
+  test('serializes poll requests and coalesces the ones made during a poll', async () => {
+    await startService({ mode: 'poll' });
+    await waitFor(() => server.count('UID SEARCH') === 1 && !service.isPolling());
+
+    const releaseSearches = server.holdSearches();
+    service.requestPoll();
+    await waitFor(() => server.count('UID SEARCH') === 2);
+
+    // Arrive while the poll above is blocked on its SEARCH
+    service.requestPoll();
+    service.requestPoll(['INBOX']);
+    service.requestPoll();
+    expect(server.count('UID SEARCH')).toBe(2);
+
+    releaseSearches();
+    await waitFor(() => server.count('UID SEARCH') === 3 && !service.isPolling());
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(server.count('UID SEARCH')).toBe(3);
+  });
+
+  test('dedupes by Message-ID when UIDVALIDITY changes', async () => {
+    await startService({ mode: 'poll' });
+    await waitFor(() => server.count('UID SEARCH') === 1 && !service.isPolling());
+    server.deliver({ uid: 40, from: 'alice@example.com', subject: 'Contract', messageId: '<contract@example.com>' });
+    service.requestPoll();
+    await waitFor(() => queueEmail.mock.calls.length === 1 && !service.isPolling());
+
+    // Mailbox rebuilt: new UIDVALIDITY, the same message under a lower UID, plus one new message
+    server.uidValidity = 2;
+    server.messages[0]!.uid = 1;
+    server.deliver({ uid: 2, from: 'bob@example.com', subject: 'Follow-up', messageId: '<follow-up@example.com>' });
+    await restartService();
+
+    await waitFor(() => queueEmail.mock.calls.length === 2 && !service.isPolling());
+    expect(queueEmail.mock.calls[1]![0]).toMatchObject({ uid: 2, uidValidity: 2 });
+
+    const db = await getDb();
+    expect(await db.select().from(processedEmails)).toHaveLength(2);
+    const [state] = await db.select().from(imapFolderState).where(eq(imapFolderState.folder, 'INBOX'));
+    expect(state).toMatchObject({ uidValidity: 2, highestUid: 2 });
+  });
+
+  test('skips messages archived before the folder had a sync state', async () => {
+    const db = await getDb();
+    await db.insert(processedEmails).values({
+      folder: 'INBOX',
+      uidValidity: 9,
+      uid: 12,
+      messageId: '<archived@example.com>',
+      sender: 'alice@example.com',
+      status: 'completed',
+    });
+
+    await startService({
+      mode: 'poll',
+      messages: [
+        { uid: 3, from: 'alice@example.com', subject: 'Archived', messageId: '<archived@example.com>' },
+        { uid: 4, from: 'alice@example.com', subject: 'New', messageId: '<new@example.com>' },
+      ],
+    });
+
+    await waitFor(() => queueEmail.mock.calls.length === 1 && !service.isPolling());
+    expect(queueEmail.mock.calls[0]![0]).toMatchObject({ uid: 4 });
+    const [state] = await db.select().from(imapFolderState).where(eq(imapFolderState.folder, 'INBOX'));
+    expect(state).toMatchObject({ uidValidity: 1, highestUid: 4 });
+  });
+});
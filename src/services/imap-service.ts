@@ -1,18 +1,33 @@
 import { ImapFlow } from 'imapflow';
-import { eq } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+import { eq, and } from 'drizzle-orm';
 import { config } from '../config/env';
 import { createLogger } from '../config/logger';
 import { getDb } from '../database/db';
-import { processedEmails } from '../database/schema';
+import { processedEmails, imapFolderState } from '../database/schema';
 import { queueEmail } from '../jobs/queue';
 import { oauth2Service } from './oauth2-service';
+import { getMonitoredFolders, type FolderRule } from '../config/folders';
+import { resolveAddressRoute } from '../config/routes';
 
 const logger = createLogger('imap');
 
-const POLL_INTERVAL = 30000; // 30 seconds
 const SEARCH_DAYS = 7; // Search emails from last 7 days
 const MAX_RECONNECT_DELAY = 60000; // Max 60 seconds between reconnects
 
+/**
+ * Extract addresses from raw header lines (Delivered-To, X-Original-To)
+ */
+function extractHeaderAddresses(headers: Buffer | undefined): string[] {
+  if (!headers) return [];
+
+  return headers.toString('utf-8').match(/[^\s<>,;:"]+@[^\s<>,;"]+/g) || [];
+}
+
+export interface IMAPServiceOptions {
+  autoIdleDelayMs?: number; // How long ImapFlow waits after the last command before entering IDLE (ImapFlow default 15s)
+}
+
 export class IMAPService {
   private client: ImapFlow | null = null;
   private pollTimer: Timer | null = null;
@@ -20,9 +35,25 @@ export class IMAPService {
   private reconnectAttempts = 0;
   private isShuttingDown = false;
   private isConnected = false;
+  private isIdleMode = false;
+  private activePoll: Promise<void> | null = null;
+  private pollQueued = false;
+  private folderRules: FolderRule[] = [];
+  private idleFolder = 'INBOX'; // IDLE can only watch the currently selected mailbox
+
+  constructor(private readonly options: IMAPServiceOptions = {}) {}
 
   async start(): Promise<void> {
     logger.info('Starting IMAP service...');
+
+    // Validate folder config up front (throws on invalid IMAP_FOLDERS)
+    this.folderRules = getMonitoredFolders();
+    if (this.folderRules.length === 0) {
+      throw new Error('IMAP_FOLDERS does not contain any monitored folders');
+    }
+    this.idleFolder = this.folderRules[0]!.folder;
+    logger.info({ folders: this.folderRules.map((rule) => rule.folder) }, 'Monitoring folders');
+
     await this.connect();
   }
 
@@ -75,6 +106,7 @@ export class IMAPService {
         secure: config.EMAIL_TLS,
         auth: authConfig,
         logger: false, // Disable ImapFlow's own logging
+        ...(this.options.autoIdleDelayMs !== undefined ? { autoIdleDelay: this.options.autoIdleDelayMs } : {}),
       });
 
       // Handle connection events
@@ -82,6 +114,13 @@ export class IMAPService {
       this.client.on('error', (error) => {
         logger.error({ error }, 'IMAP error');
       });
+      this.client.on('exists', (data) => {
+        // New message(s) arrived in the IDLE-watched mailbox
+        if (this.isIdleMode && data.count > data.prevCount) {
+          logger.debug({ folder: data.path, count: data.count, prevCount: data.prevCount }, 'EXISTS notification received');
+          this.requestPoll([data.path]);
+        }
+      });
 
       await this.client.connect();
 
@@ -90,8 +129,8 @@ export class IMAPService {
 
       logger.info('✅ IMAP connected');
 
-      // Start polling
-      this.startPolling();
+      // Start watching for new mail (IDLE or polling)
+      await this.startWatching();
     } catch (error) {
       logger.error({ error }, 'Failed to connect to IMAP');
       this.isConnected = false;
@@ -117,6 +156,7 @@ export class IMAPService {
 
     logger.warn('IMAP connection closed, will reconnect...');
     this.isConnected = false;
+    this.isIdleMode = false;
 
     // Stop polling
     if (this.pollTimer) {
@@ -144,23 +184,73 @@ export class IMAPService {
     }, delay);
   }
 
+  private async startWatching(): Promise<void> {
+    if (!this.client) return;
+
+    const supportsIdle = this.client.capabilities.has('IDLE');
+
+    if (config.IMAP_MODE === 'idle' && !supportsIdle) {
+      logger.warn('IMAP server does not support IDLE, falling back to polling');
+    }
+
+    if (config.IMAP_MODE === 'idle' && supportsIdle) {
+      await this.startIdle();
+    } else {
+      this.startPolling();
+    }
+  }
+
+  private async startIdle(): Promise<void> {
+    if (!this.client) return;
+
+    this.isIdleMode = true;
+
+    // Keep the watched folder selected - ImapFlow enters IDLE automatically while no lock is held
+    await this.client.mailboxOpen(this.idleFolder);
+
+    // Initial catch-up for anything that arrived while disconnected
+    this.requestPoll();
+
+    // Periodic resync of all folders (covers non-IDLE folders and missed notifications)
+    this.pollTimer = setInterval(() => this.requestPoll(), config.IMAP_IDLE_RESYNC_MS);
+
+    logger.info({ folder: this.idleFolder, resyncInterval: config.IMAP_IDLE_RESYNC_MS }, 'IDLE started');
+  }
+
   private startPolling(): void {
     // Initial poll
-    this.pollForEmails().catch((error) => {
-      logger.error({ error }, 'Initial poll failed');
-    });
+    this.requestPoll();
+
+    // Poll on a fixed interval
+    this.pollTimer = setInterval(() => this.requestPoll(), config.IMAP_POLL_INTERVAL_MS);
+
+    logger.info({ interval: config.IMAP_POLL_INTERVAL_MS }, 'Polling started');
+  }
 
-    // Poll every 30 seconds
-    this.pollTimer = setInterval(() => {
-      this.pollForEmails().catch((error) => {
+  /**
+   * Run a poll, or queue one if a poll is already in progress
+   * (EXISTS notifications can arrive while a previous poll is still running)
+   */
+  requestPoll(folders?: string[]): void {
+    if (this.activePoll) {
+      this.pollQueued = true;
+      return;
+    }
+
+    this.activePoll = this.pollForEmails(folders)
+      .catch((error) => {
         logger.error({ error }, 'Polling failed');
+      })
+      .finally(() => {
+        this.activePoll = null;
+        if (this.pollQueued) {
+          this.pollQueued = false;
+          this.requestPoll();
+        }
       });
-    }, POLL_INTERVAL);
-
-    logger.info({ interval: POLL_INTERVAL }, 'Polling started');
   }
 
-  private async pollForEmails(): Promise<void> {
+  private async pollForEmails(folders?: string[]): Promise<void> {
     if (!this.client || !this.isConnected) {
       logger.debug('Skipping poll - not connected');
       return;
@@ -170,89 +260,201 @@ export class IMAPService {
       const db = await getDb();
       const sinceDate = new Date(Date.now() - SEARCH_DAYS * 24 * 60 * 60 * 1000);
 
-      // Check INBOX folder (and Gmail spam for Gmail accounts)
-      const foldersToCheck = config.EMAIL_HOST.includes('gmail') ? ['INBOX', '[Gmail]/Spam'] : ['INBOX'];
+      // Check all monitored folders (or just the ones that reported new mail)
+      const foldersToCheck = folders
+        ? this.folderRules.filter((rule) => folders.includes(rule.folder))
+        : this.folderRules;
+
+      for (const rule of foldersToCheck) {
+        const folder = rule.folder;
 
-      for (const folder of foldersToCheck) {
         try {
           // Open folder
           const lock = await this.client.getMailboxLock(folder);
 
           try {
-            // Search for all emails from last 7 days (not just unseen)
-            // We rely on database tracking for duplicates, not SEEN flag
-            const messages = await this.client.search({
-              since: sinceDate,
+            if (!this.client.mailbox) {
+              throw new Error(`Mailbox ${folder} not selected`);
+            }
+
+            const uidValidity = Number(this.client.mailbox.uidValidity);
+            const state = await (db.query as any).imapFolderState?.findFirst({
+              where: eq(imapFolderState.folder, folder),
             });
 
-            if (messages.length === 0) {
-              logger.debug({ folder }, 'No new emails in folder');
-              continue;
+            // No state yet (first sync) or UIDVALIDITY changed (mailbox reset): stored UIDs can't be
+            // trusted, so rescan the last 7 days and dedup by Message-ID instead
+            const isResync = !state || state.uidValidity !== uidValidity;
+            if (state && isResync) {
+              logger.warn({ folder, previous: state.uidValidity, current: uidValidity }, 'UIDVALIDITY changed, falling back to Message-ID dedup');
             }
 
-            logger.info({ folder, count: messages.length }, 'Found unseen emails');
+            let highestUid: number = isResync ? 0 : state.highestUid;
 
-        // Process each email
-        for (const uid of messages) {
-          // Check if already processed
-          const existing = await (db.query as any).processedEmails?.findFirst({
-            where: eq(processedEmails.uid, uid),
-          });
+            // Resync: search the last 7 days (not just unseen)
+            // Otherwise: only fetch UIDs above the folder's high-water mark
+            // We rely on database tracking for duplicates, not SEEN flag
+            const searchResult = isResync
+              ? await this.client.search({ since: sinceDate }, { uid: true })
+              : await this.client.search({ uid: `${highestUid + 1}:*` }, { uid: true });
 
-          if (existing) {
-            logger.debug({ uid }, 'Email already processed, skipping');
-            continue;
-          }
+            // "N:*" always matches the last message, even when its UID is below N
+            const messages = (searchResult || []).filter((uid) => uid > highestUid);
 
-          // Fetch email metadata (not full body yet - that's done in the job)
-          const message = await this.client.fetchOne(String(uid), {
-            envelope: true,
-          });
+            if (messages.length === 0) {
+              // Nothing new - start incremental fetches from the current UIDNEXT
+              if (isResync) {
+                await this.saveFolderState(folder, uidValidity, this.client.mailbox.uidNext - 1);
+              }
+              logger.debug({ folder }, 'No new emails in folder');
+              continue;
+            }
 
-          if (!message || !message.envelope) {
-            logger.warn({ uid }, 'Could not fetch envelope, skipping');
-            continue;
+            logger.info({ folder, count: messages.length, resync: isResync }, 'Found new emails');
+
+            // Process each email
+            for (const uid of messages) {
+              // Check if already processed
+              const existing = await (db.query as any).processedEmails?.findFirst({
+                where: and(
+                  eq(processedEmails.folder, folder),
+                  eq(processedEmails.uidValidity, uidValidity),
+                  eq(processedEmails.uid, uid)
+                ),
+              });
+
+              if (existing) {
+                logger.debug({ uid, folder }, 'Email already processed, skipping');
+                highestUid = await this.saveFolderState(folder, uidValidity, Math.max(highestUid, uid));
+                continue;
+              }
+
+              // Fetch email metadata (not full body yet - that's done in the job)
+              const message = await this.client.fetchOne(String(uid), {
+                envelope: true,
+                headers: ['delivered-to', 'x-original-to'],
+              }, { uid: true });
+
+              if (!message || !message.envelope) {
+                logger.warn({ uid, folder }, 'Could not fetch envelope, skipping');
+                highestUid = await this.saveFolderState(folder, uidValidity, Math.max(highestUid, uid));
+                continue;
+              }
+
+              const from = message.envelope.from?.[0]?.address || 'unknown';
+              const subject = message.envelope.subject || '(no subject)';
+              const messageId = message.envelope.messageId || null;
+
+              // After a UIDVALIDITY reset every UID looks new - match on Message-ID instead
+              if (isResync && messageId) {
+                const duplicate = await (db.query as any).processedEmails?.findFirst({
+                  where: eq(processedEmails.messageId, messageId),
+                });
+
+                if (duplicate) {
+                  logger.debug({ uid, folder, messageId }, 'Email already processed (Message-ID match), skipping');
+                  highestUid = await this.saveFolderState(folder, uidValidity, Math.max(highestUid, uid));
+                  continue;
+                }
+              }
+
+              // Route by destination alias; folder rules override drive type and destination
+              const recipients = [
+                ...extractHeaderAddresses(message.headers),
+                ...(message.envelope.to || []).map((a) => a.address),
+                ...(message.envelope.cc || []).map((a) => a.address),
+              ].filter((address): address is string => !!address);
+
+              const route = resolveAddressRoute(recipients);
+              const driveType = rule.driveType ?? route.driveType;
+              const destinationFolder = rule.destinationFolder ?? route.destinationFolder;
+
+              // Record in database first - the job updates this row, so it has to exist before a worker can pick the job up
+              const processedEmailId = randomUUID();
+              await db.insert(processedEmails).values({
+                id: processedEmailId,
+                folder,
+                uidValidity,
+                uid,
+                messageId,
+                sender: from,
+                subject,
+                status: 'queued',
+              });
+
+              // Queue for processing
+              try {
+                await queueEmail({
+                  processedEmailId,
+                  uid,
+                  uidValidity,
+                  folder,
+                  driveType,
+                  ...(destinationFolder ? { destinationFolder } : {}),
+                  ...(route.tags.length > 0 ? { tags: route.tags } : {}),
+                });
+              } catch (error) {
+                // Drop the row so the next poll picks the message up again
+                await db.delete(processedEmails).where(eq(processedEmails.id, processedEmailId));
+                throw error;
+              }
+
+              // Mark as SEEN (prevents re-processing if app crashes)
+              await this.client.messageFlagsAdd([uid], ['\\Seen'], { uid: true });
+              highestUid = await this.saveFolderState(folder, uidValidity, Math.max(highestUid, uid));
+
+              logger.info({ uid, from, subject, folder, driveType, destinationFolder, tags: route.tags, matchedAddress: route.matchedAddress }, 'Email queued');
+            }
+          } finally {
+            lock.release();
           }
-
-          const from = message.envelope.from?.[0]?.address || 'unknown';
-          const subject = message.envelope.subject || '(no subject)';
-          const messageId = message.envelope.messageId || null;
-
-          // Determine drive type based on destination address
-          const to = message.envelope.to?.[0]?.address?.toLowerCase() || '';
-          const driveType = to.includes('public-preserve') ? 'public' : 'private';
-
-          // Queue for processing
-          await queueEmail(uid, folder, driveType);
-
-          // Record in database
-          await db.insert(processedEmails).values({
-            uid,
-            messageId,
-            sender: from,
-            subject,
-            status: 'queued',
-          });
-
-          // Mark as SEEN (prevents re-processing if app crashes)
-          await this.client.messageFlagsAdd([uid], ['\\Seen']);
-
-          logger.info({ uid, from, subject, folder, driveType }, 'Email queued');
+        } catch (folderError) {
+          // Log error for this specific folder but continue to next folder
+          logger.warn({ folder, error: folderError }, 'Error polling folder');
         }
-      } finally {
-        lock.release();
       }
-    } catch (folderError) {
-      // Log error for this specific folder but continue to next folder
-      logger.warn({ folder, error: folderError }, 'Error polling folder');
-    }
-  }
+
+      // Return to the watched folder so IDLE resumes there
+      if (this.isIdleMode && this.client.mailbox && this.client.mailbox.path !== this.idleFolder) {
+        await this.client.mailboxOpen(this.idleFolder);
+      }
     } catch (error) {
       // Don't crash on poll errors - just log and continue
       logger.error({ error }, 'Error during polling');
     }
   }
 
+  /**
+   * Persist folder UIDVALIDITY and UID high-water mark
+   * Returns the saved high-water mark
+   */
+  private async saveFolderState(folder: string, uidValidity: number, highestUid: number): Promise<number> {
+    const db = await getDb();
+
+    await db.insert(imapFolderState)
+      .values({ folder, uidValidity, highestUid })
+      .onConflictDoUpdate({
+        target: imapFolderState.folder,
+        set: { uidValidity, highestUid, updatedAt: new Date() },
+      });
+
+    return highestUid;
+  }
+
+  /**
+   * Whether a poll is running right now
+   */
+  isPolling(): boolean {
+    return this.activePoll !== null;
+  }
+
+  /**
+   * How new mail is noticed: IDLE notifications, or polling (IMAP_MODE=poll or no IDLE support)
+   */
+  getWatchMode(): 'idle' | 'poll' {
+    return this.isIdleMode ? 'idle' : 'poll';
+  }
+
   async healthCheck(): Promise<boolean> {
     return this.isConnected;
   }
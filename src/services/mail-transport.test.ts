@@ -0,0 +1,62 @@
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { config } from '../config/env';
+import { FakeSmtpServer } from '../test/fake-smtp-server';
+import { waitFor } from '../test/fake-imap-server';
+import { oauth2Service } from './oauth2-service';
+import { sendMail, closeTransporter } from './mail-transport';
+
+let smtp: FakeSmtpServer;
+let accessToken: string;
+let spies: Array<{ mockRestore(): void }> = [];
+
+const message = (subject: string) => ({ from: 'bridge@example.com', to: 'alice@example.com', subject, text: subject });
+
+beforeEach(async () => {
+  smtp = new FakeSmtpServer();
+  Object.assign(config, { SMTP_MODE: 'smtp', SMTP_HOST: '127.0.0.1', SMTP_PORT: await smtp.listen(), SMTP_SECURE: false, SMTP_POOL_SIZE: 3 });
+
+  accessToken = 'token-1';
+  spies = [
+    spyOn(oauth2Service, 'isOAuth2Configured').mockReturnValue(true),
+    spyOn(oauth2Service, 'getAccessToken').mockImplementation(async () => accessToken),
+  ];
+});
+
+afterEach(async () => {
+  closeTransporter();
+  await smtp.close();
+  for (const spy of spies) {
+    spy.mockRestore();
+  }
+});
+
+describe('sendMail with OAuth2', () => {
+  test('lets sends on the old pool finish when the access token is refreshed', async () => {
+    Object.assign(config, { SMTP_POOL_SIZE: 1 });
+    const release = smtp.holdData();
+    const first = sendMail(message('Before refresh'));
+    const waiting = sendMail(message('Waiting for a connection'));
+    await waitFor(() => smtp.heldCount() === 1);
+
+    accessToken = 'token-2';
+    const refreshed = sendMail(message('After refresh'));
+    await waitFor(() => smtp.heldCount() === 2);
+    release();
+
+    await Promise.all([first, waiting, refreshed]);
+    expect(smtp.messages.map((sent) => sent.data.match(/^Subject: (.*)$/m)?.[1]).sort())
+      .toEqual(['After refresh', 'Before refresh', 'Waiting for a connection']);
+    expect(smtp.auths).toHaveLength(2);
+
+    // The old pool closes once its send is done, the new one stays open
+    await waitFor(() => smtp.connectionCount() === 1);
+  });
+
+  test('reuses the pool while the token is unchanged', async () => {
+    await sendMail(message('One'));
+    await sendMail(message('Two'));
+
+    expect(smtp.messages).toHaveLength(2);
+    expect(smtp.auths).toHaveLength(1);
+  });
+});
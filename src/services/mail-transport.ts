@@ -0,0 +1,168 @@
+import { createTransport, type SendMailOptions, type Transporter } from 'nodemailer';
+import { config } from '../config/env';
+import { createLogger } from '../config/logger';
+import { oauth2Service } from './oauth2-service';
+
+const logger = createLogger('mail-transport');
+
+const MAX_SINK_MESSAGES = 100;
+
+/**
+ * A message captured in sink mode (SMTP_MODE=sink)
+ */
+export interface SinkMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  sentAt: Date;
+}
+
+let transporter: Transporter | null = null;
+let transporterToken: string | null = null; // OAuth2 access token the pooled transporter was built with
+const activeSends = new Map<Transporter, number>(); // Sends in progress per transporter
+const sinkMessages: SinkMessage[] = [];
+
+/**
+ * Build the SMTP auth options: OAuth2 if configured, otherwise password (none for an open relay)
+ */
+async function getAuthConfig(): Promise<{ auth?: Record<string, string>; token: string | null }> {
+  const user = config.SMTP_USER ?? config.EMAIL_USER;
+
+  if (oauth2Service.isOAuth2Configured()) {
+    const accessToken = await oauth2Service.getAccessToken();
+    return { auth: { type: 'OAuth2', user, accessToken }, token: accessToken };
+  }
+
+  const pass = config.SMTP_PASSWORD ?? config.EMAIL_PASSWORD;
+  return pass ? { auth: { user, pass }, token: null } : { token: null };
+}
+
+/**
+ * Get the shared pooled transporter
+ * With OAuth2 the pool is rebuilt whenever the access token is refreshed - the old pool is
+ * closed once its in-flight sends finish (close() fails messages still waiting for a connection)
+ */
+export async function getTransporter(): Promise<Transporter> {
+  if (config.SMTP_MODE === 'sink') {
+    if (!transporter) {
+      transporter = createTransport({ jsonTransport: true });
+    }
+    return transporter;
+  }
+
+  const { auth, token } = await getAuthConfig();
+
+  if (transporter && transporterToken === token) {
+    return transporter;
+  }
+
+  if (transporter) {
+    logger.debug({ activeSends: activeSends.get(transporter) ?? 0 }, 'OAuth2 token refreshed, rebuilding SMTP pool');
+    if (!activeSends.has(transporter)) {
+      transporter.close();
+    }
+  }
+
+  logger.debug({ host: config.SMTP_HOST, port: config.SMTP_PORT, secure: config.SMTP_SECURE, oauth2: !!token }, 'Creating SMTP transporter');
+
+  transporter = createTransport({
+    pool: true,
+    maxConnections: config.SMTP_POOL_SIZE,
+    host: config.SMTP_HOST,
+    port: config.SMTP_PORT,
+    secure: config.SMTP_SECURE, // false = upgrade with STARTTLS
+    ...(auth ? { auth } : {}),
+    tls: {
+      rejectUnauthorized: true
+    }
+  });
+  transporterToken = token;
+
+  return transporter;
+}
+
+/**
+ * Send a message through the shared transporter (captured instead of sent in sink mode)
+ */
+export async function sendMail(message: SendMailOptions): Promise<void> {
+  const transport = await getTransporter();
+  activeSends.set(transport, (activeSends.get(transport) ?? 0) + 1);
+
+  let info;
+  try {
+    info = await transport.sendMail(message);
+  } finally {
+    const remaining = activeSends.get(transport)! - 1;
+    if (remaining > 0) {
+      activeSends.set(transport, remaining);
+    } else {
+      activeSends.delete(transport);
+      // Replaced while this send was running - nothing uses the old pool any more
+      if (transport !== transporter) {
+        transport.close();
+      }
+    }
+  }
+
+  if (config.SMTP_MODE === 'sink') {
+    sinkMessages.push({
+      to: String(message.to),
+      subject: message.subject ?? '',
+      text: String(message.text ?? ''),
+      html: String(message.html ?? ''),
+      sentAt: new Date(),
+    });
+    if (sinkMessages.length > MAX_SINK_MESSAGES) {
+      sinkMessages.shift();
+    }
+    logger.info({ to: message.to, subject: message.subject }, 'Sink mode: message captured, not sent');
+    return;
+  }
+
+  logger.debug({ messageId: info.messageId, to: message.to }, 'Message sent');
+}
+
+/**
+ * Messages captured in sink mode, oldest first (last MAX_SINK_MESSAGES)
+ */
+export function getSinkMessages(): SinkMessage[] {
+  return [...sinkMessages];
+}
+
+/**
+ * Forget captured sink mode messages
+ */
+export function clearSinkMessages(): void {
+  sinkMessages.length = 0;
+}
+
+/**
+ * Check the SMTP connection and credentials (logs instead of throwing - notifications are not critical)
+ */
+export async function verifyTransport(): Promise<boolean> {
+  if (config.SMTP_MODE === 'sink') {
+    logger.warn('SMTP_MODE=sink - notification emails are captured, not sent');
+    return true;
+  }
+
+  try {
+    await (await getTransporter()).verify();
+    logger.info({ host: config.SMTP_HOST, port: config.SMTP_PORT }, 'SMTP connection verified');
+    return true;
+  } catch (error) {
+    logger.warn({ error, host: config.SMTP_HOST, port: config.SMTP_PORT }, 'SMTP connection check failed, notifications may not be delivered');
+    return false;
+  }
+}
+
+/**
+ * Close pooled SMTP connections
+ */
+export function closeTransporter(): void {
+  if (transporter) {
+    transporter.close();
+    transporter = null;
+    transporterToken = null;
+  }
+}
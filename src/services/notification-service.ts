@@ -0,0 +1,271 @@
+import { eq, and, gte, sql } from 'drizzle-orm';
+import { type ParsedMail } from 'mailparser';
+import { type SendMailOptions } from 'nodemailer';
+import { getDb } from '../database/db';
+import { notifications, notificationSuppressions, type Notification, type NotificationSuppression } from '../database/schema';
+import { createLogger } from '../config/logger';
+import { config } from '../config/env';
+import { queueNotification } from '../jobs/queue';
+import { sendMail } from './mail-transport';
+
+const logger = createLogger('notification-service');
+
+const BOUNCE_REPORT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000; // Bounce reports only count for recent notifications
+const DIRECT_SEND_ATTEMPTS = 3; // Direct sends have no queue to retry them - retry in-process instead
+const DIRECT_SEND_RETRY_MS = 1000; // 1s, 2s
+
+export type NotificationKind = Notification['kind'];
+
+export interface NotifyOptions {
+  direct?: boolean; // Send now instead of queueing (messages with secrets or drive/file keys never go through Redis)
+}
+
+/**
+ * Thrown for permanent SMTP rejections (5xx) - retrying won't help
+ */
+export class PermanentDeliveryError extends Error {
+  constructor(message: string, public readonly responseCode: number) {
+    super(message);
+    this.name = 'PermanentDeliveryError';
+  }
+}
+
+/**
+ * Check if notifications to an address are suppressed after repeated bounces
+ */
+export async function isSuppressed(email: string): Promise<boolean> {
+  const db = await getDb();
+
+  const suppression: NotificationSuppression | undefined = await (db.query as any).notificationSuppressions?.findFirst({
+    where: eq(notificationSuppressions.email, email.toLowerCase()),
+  });
+
+  return !!suppression?.suppressedAt;
+}
+
+/**
+ * Count a permanent delivery failure; suppresses the address at NOTIFICATION_BOUNCE_LIMIT
+ */
+export async function recordBounce(email: string, reason: string): Promise<void> {
+  const db = await getDb();
+  const now = new Date();
+  const address = email.toLowerCase();
+
+  const [suppression] = await db.insert(notificationSuppressions)
+    .values({ email: address, bounceCount: 1, lastError: reason, lastBounceAt: now })
+    .onConflictDoUpdate({
+      target: notificationSuppressions.email,
+      set: {
+        bounceCount: sql`${notificationSuppressions.bounceCount} + 1`,
+        lastError: reason,
+        lastBounceAt: now,
+      },
+    })
+    .returning();
+
+  if (suppression && !suppression.suppressedAt && suppression.bounceCount >= config.NOTIFICATION_BOUNCE_LIMIT) {
+    await db.update(notificationSuppressions)
+      .set({ suppressedAt: now })
+      .where(eq(notificationSuppressions.id, suppression.id));
+
+    logger.warn({ email: address, bounceCount: suppression.bounceCount, reason }, 'Address suppressed after repeated bounces');
+    return;
+  }
+
+  logger.warn({ email: address, bounceCount: suppression?.bounceCount, reason }, 'Notification bounced');
+}
+
+/**
+ * Lift a suppression and reset the bounce count (e.g. once the user fixed their mailbox)
+ */
+export async function clearSuppression(email: string): Promise<boolean> {
+  const db = await getDb();
+
+  const deleted = await db.delete(notificationSuppressions)
+    .where(eq(notificationSuppressions.email, email.toLowerCase()))
+    .returning();
+
+  if (deleted.length > 0) {
+    logger.info({ email: email.toLowerCase() }, 'Notification suppression cleared');
+  }
+
+  return deleted.length > 0;
+}
+
+/**
+ * Record a notification and queue it for delivery (skipped if the recipient is suppressed)
+ * Throws only if the notification can't be recorded or queued - delivery failures are retried by the queue
+ * Direct sends are retried in-process (DIRECT_SEND_ATTEMPTS) and return 'failed' if they never get through
+ */
+export async function notify(
+  kind: NotificationKind,
+  message: SendMailOptions & { to: string; subject: string },
+  options: NotifyOptions = {}
+): Promise<Notification['status']> {
+  const db = await getDb();
+  const recipient = message.to.toLowerCase();
+  const suppressed = await isSuppressed(recipient);
+
+  const [notification] = await db.insert(notifications).values({
+    recipient,
+    kind,
+    subject: message.subject,
+    status: suppressed ? 'suppressed' : 'queued',
+  }).returning();
+
+  if (!notification) {
+    throw new Error('Failed to record notification');
+  }
+
+  if (suppressed) {
+    logger.info({ notificationId: notification.id, kind, recipient }, 'Notification suppressed (address bounces)');
+    return 'suppressed';
+  }
+
+  if (options.direct) {
+    for (let attempt = 1; ; attempt++) {
+      const finalAttempt = attempt === DIRECT_SEND_ATTEMPTS;
+      try {
+        await deliverNotification(notification.id, message, finalAttempt);
+        return 'sent';
+      } catch (error) {
+        if (finalAttempt || error instanceof PermanentDeliveryError) {
+          logger.error({ error, notificationId: notification.id, kind, attempt }, 'Direct notification failed');
+          return 'failed';
+        }
+        logger.warn({ error, notificationId: notification.id, kind, attempt }, 'Direct notification failed, retrying');
+        await new Promise((resolve) => setTimeout(resolve, DIRECT_SEND_RETRY_MS * attempt));
+      }
+    }
+  }
+
+  await queueNotification({ notificationId: notification.id, message });
+  return 'queued';
+}
+
+/**
+ * Send a recorded notification and update its row (used by the notifications worker)
+ * Permanent rejections count as a bounce and throw PermanentDeliveryError
+ */
+export async function deliverNotification(
+  notificationId: string,
+  message: SendMailOptions & { to: string },
+  finalAttempt: boolean
+): Promise<void> {
+  const db = await getDb();
+  const recipient = message.to.toLowerCase();
+
+  // Another notification may have bounced since this one was queued
+  if (await isSuppressed(recipient)) {
+    await db.update(notifications)
+      .set({ status: 'suppressed' })
+      .where(eq(notifications.id, notificationId));
+    logger.info({ notificationId, recipient }, 'Notification suppressed (address bounces)');
+    return;
+  }
+
+  try {
+    await sendMail(message);
+
+    await db.update(notifications)
+      .set({ status: 'sent', attempts: sql`${notifications.attempts} + 1`, lastError: null, sentAt: new Date() })
+      .where(eq(notifications.id, notificationId));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const responseCode = (error as { responseCode?: number }).responseCode;
+    const permanent = typeof responseCode === 'number' && responseCode >= 500;
+
+    await db.update(notifications)
+      .set({
+        attempts: sql`${notifications.attempts} + 1`,
+        lastError: errorMessage,
+        ...(permanent || finalAttempt ? { status: 'failed' as const } : {}),
+      })
+      .where(eq(notifications.id, notificationId));
+
+    if (permanent) {
+      await recordBounce(recipient, errorMessage);
+      throw new PermanentDeliveryError(errorMessage, responseCode);
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Check if a message is a delivery status report (RFC 3464 bounce)
+ */
+export function isBounceReport(email: ParsedMail): boolean {
+  const contentType = email.headers.get('content-type') as { value?: string; params?: Record<string, string> } | undefined;
+  return contentType?.value?.toLowerCase() === 'multipart/report'
+    && contentType.params?.['report-type']?.toLowerCase() === 'delivery-status';
+}
+
+/**
+ * Recipients a delivery status report marks as permanently failed (Action: failed, Status: 5.x.x)
+ * Reads the raw source - mailparser folds the message/delivery-status part into the text body
+ */
+export function getBouncedRecipients(source: string): Array<{ recipient: string; status: string }> {
+  const partHeader = source.match(/^Content-Type:[ \t]*message\/(global-)?delivery-status[^\n]*\n(?:[ \t][^\n]*\n|[!-9;-~]+:[^\n]*\n)*\r?\n/im);
+  if (!partHeader) {
+    return [];
+  }
+
+  const start = partHeader.index! + partHeader[0].length;
+  const boundary = source.indexOf('\n--', start);
+  const report = source.slice(start, boundary === -1 ? undefined : boundary);
+
+  // Per-recipient field groups are separated by blank lines (the first group is per-message)
+  const groups = report.split(/\r?\n[ \t]*\r?\n/);
+  const bounced: Array<{ recipient: string; status: string }> = [];
+
+  for (const group of groups) {
+    const fields = new Map<string, string>();
+    for (const line of group.split(/\r?\n/)) {
+      const match = line.match(/^([A-Za-z-]+):\s*(.*)$/);
+      if (match) {
+        fields.set(match[1]!.toLowerCase(), match[2]!.trim());
+      }
+    }
+
+    const recipient = (fields.get('final-recipient') ?? fields.get('original-recipient'))?.split(';').pop()?.trim();
+    const action = fields.get('action')?.toLowerCase();
+    const status = fields.get('status') ?? '';
+
+    if (recipient && action === 'failed' && status.startsWith('5')) {
+      bounced.push({ recipient: recipient.toLowerCase(), status });
+    }
+  }
+
+  return bounced;
+}
+
+/**
+ * Record the bounces in a delivery status report
+ * Only addresses we notified recently count, so a forged report can't suppress arbitrary users
+ */
+export async function handleBounceReport(source: string): Promise<number> {
+  const db = await getDb();
+  const since = new Date(Date.now() - BOUNCE_REPORT_WINDOW_MS);
+  let recorded = 0;
+
+  for (const { recipient, status } of getBouncedRecipients(source)) {
+    const notified: Notification | undefined = await (db.query as any).notifications?.findFirst({
+      where: and(
+        eq(notifications.recipient, recipient),
+        eq(notifications.status, 'sent'),
+        gte(notifications.sentAt, since)
+      ),
+    });
+
+    if (!notified) {
+      logger.info({ recipient, status }, 'Ignoring bounce for an address we did not notify recently');
+      continue;
+    }
+
+    await recordBounce(recipient, `Bounce report: ${status}`);
+    recorded++;
+  }
+
+  return recorded;
+}
@@ -0,0 +1,118 @@
+import { config } from '../config/env';
+import { type User, type Usage } from '../database/schema';
+
+export type PlanName = User['plan'];
+
+/**
+ * What happens to an email that exceeds a monthly quota
+ * - 'block': skip it and notify the user
+ * - 'defer': hold it and retry when the next usage period starts
+ */
+export type OverLimitAction = 'block' | 'defer';
+
+/**
+ * Limits for a plan (null = unlimited)
+ */
+export interface PlanPolicy {
+  plan: PlanName;
+  maxEmailsPerMonth: number | null;
+  maxBytesPerMonth: number | null;
+  maxMessageBytes: number | null;
+  overLimitAction: OverLimitAction;
+}
+
+export type LimitCode = 'account_disabled' | 'email_quota' | 'byte_quota' | 'message_too_large';
+
+/**
+ * Structured reason an upload was refused
+ */
+export interface LimitReason {
+  code: LimitCode;
+  message: string; // Human-readable, shown in the limit notification
+  action: OverLimitAction;
+  limit?: number;
+  current?: number;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} bytes`;
+}
+
+/**
+ * Get the limits for a plan
+ * Free plan: FREE_* settings. Paid plan: unlimited emails (billed per email), PAID_* byte limits.
+ */
+export function getPlanPolicy(plan: PlanName): PlanPolicy {
+  if (plan === 'paid') {
+    return {
+      plan,
+      maxEmailsPerMonth: null,
+      maxBytesPerMonth: config.PAID_BYTES_PER_MONTH ?? null,
+      maxMessageBytes: config.PAID_MAX_MESSAGE_BYTES ?? null,
+      overLimitAction: 'block',
+    };
+  }
+
+  return {
+    plan,
+    maxEmailsPerMonth: config.FREE_EMAILS_PER_MONTH,
+    maxBytesPerMonth: config.FREE_BYTES_PER_MONTH ?? null,
+    maxMessageBytes: config.FREE_MAX_MESSAGE_BYTES ?? null,
+    overLimitAction: config.FREE_OVER_LIMIT_ACTION,
+  };
+}
+
+/**
+ * Check one email against a plan's limits
+ * Returns null if the upload is allowed
+ */
+export function evaluatePolicy(
+  policy: PlanPolicy,
+  user: Pick<User, 'allowed'>,
+  usageRecord: Pick<Usage, 'uploadsCount' | 'bytesUploaded'>,
+  messageBytes: number
+): LimitReason | null {
+  if (!user.allowed) {
+    return {
+      code: 'account_disabled',
+      message: 'Your account has been disabled. Contact support to restore access.',
+      action: 'block',
+    };
+  }
+
+  // Too large for the plan - waiting for a new period won't help
+  if (policy.maxMessageBytes !== null && messageBytes > policy.maxMessageBytes) {
+    return {
+      code: 'message_too_large',
+      message: `This email is ${formatBytes(messageBytes)}, over the ${formatBytes(policy.maxMessageBytes)} per-email limit of the ${policy.plan} plan.`,
+      action: 'block',
+      limit: policy.maxMessageBytes,
+      current: messageBytes,
+    };
+  }
+
+  if (policy.maxEmailsPerMonth !== null && usageRecord.uploadsCount >= policy.maxEmailsPerMonth) {
+    return {
+      code: 'email_quota',
+      message: `You've archived ${usageRecord.uploadsCount} of ${policy.maxEmailsPerMonth} emails included in the ${policy.plan} plan this month.`,
+      action: policy.overLimitAction,
+      limit: policy.maxEmailsPerMonth,
+      current: usageRecord.uploadsCount,
+    };
+  }
+
+  if (policy.maxBytesPerMonth !== null && usageRecord.bytesUploaded + messageBytes > policy.maxBytesPerMonth) {
+    return {
+      code: 'byte_quota',
+      message: `This email (${formatBytes(messageBytes)}) would exceed the ${formatBytes(policy.maxBytesPerMonth)} monthly storage of the ${policy.plan} plan (${formatBytes(usageRecord.bytesUploaded)} used).`,
+      action: policy.overLimitAction,
+      limit: policy.maxBytesPerMonth,
+      current: usageRecord.bytesUploaded,
+    };
+  }
+
+  return null;
+}
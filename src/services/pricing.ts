@@ -0,0 +1,213 @@
+import { TurboFactory } from '@ardrive/turbo-sdk';
+import { config } from '../config/env';
+import { createLogger } from '../config/logger';
+
+const logger = createLogger('pricing');
+
+const BYTES_PER_MB = 1024 * 1024;
+const BYTES_PER_GIB = 1024 * 1024 * 1024;
+
+/**
+ * How billable emails are priced (PRICING_MODEL)
+ * - 'flat': COST_PER_EMAIL regardless of size
+ * - 'tiered': price of the first PRICING_TIERS size tier the email fits in
+ * - 'cost_plus': Turbo storage cost of the bytes plus PRICING_MARGIN_PERCENT
+ */
+export type PricingModel = 'flat' | 'tiered' | 'cost_plus';
+
+export interface PriceTier {
+  maxBytes: number | null; // null = no upper bound
+  priceUsd: number;
+}
+
+export interface PricingStrategy {
+  model: PricingModel;
+  priceForBytes(bytes: number): Promise<number>;
+  describe(): string; // Shown to users, e.g. in the upgrade email
+}
+
+/**
+ * Turbo storage price and winc-to-USD rate
+ */
+export interface WincQuote {
+  wincPerGib: number;
+  usdPerWinc: number;
+  fetchedAt: Date;
+}
+
+/**
+ * Round to whole cents (never below one cent for a billable email)
+ */
+function toCents(usd: number): number {
+  return Math.max(0.01, Math.ceil(usd * 100) / 100);
+}
+
+/**
+ * Parse PRICING_TIERS ("<maxMB>:<usd>" entries, ascending, last one may be "*")
+ * e.g. "1:0.05,10:0.10,*:0.25"
+ */
+export function parsePricingTiers(value: string): PriceTier[] {
+  const entries = value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  if (entries.length === 0) {
+    throw new Error('PRICING_TIERS must contain at least one tier');
+  }
+
+  const tiers: PriceTier[] = entries.map((entry, index) => {
+    const [size, price] = entry.split(':').map((part) => part.trim());
+    const priceUsd = Number(price);
+
+    if (!size || !price || !Number.isFinite(priceUsd) || priceUsd < 0) {
+      throw new Error(`Invalid PRICING_TIERS entry "${entry}" (expected <maxMB>:<usd>)`);
+    }
+
+    if (size === '*') {
+      if (index !== entries.length - 1) {
+        throw new Error('PRICING_TIERS "*" tier must be last');
+      }
+      return { maxBytes: null, priceUsd };
+    }
+
+    const maxMb = Number(size);
+    if (!Number.isFinite(maxMb) || maxMb <= 0) {
+      throw new Error(`Invalid PRICING_TIERS size "${size}" (expected MB or "*")`);
+    }
+
+    return { maxBytes: Math.round(maxMb * BYTES_PER_MB), priceUsd };
+  });
+
+  for (let i = 1; i < tiers.length; i++) {
+    const previous = tiers[i - 1]!.maxBytes;
+    const current = tiers[i]!.maxBytes;
+    if (previous !== null && current !== null && current <= previous) {
+      throw new Error('PRICING_TIERS sizes must be ascending');
+    }
+  }
+
+  return tiers;
+}
+
+let cachedQuote: WincQuote | null = null;
+
+/**
+ * Get the winc-to-USD rate, cached for PRICE_QUOTE_TTL_MS
+ * If Turbo can't be reached, a stale quote is used rather than failing the upload
+ */
+export async function getWincQuote(): Promise<WincQuote> {
+  if (cachedQuote && Date.now() - cachedQuote.fetchedAt.getTime() < config.PRICE_QUOTE_TTL_MS) {
+    return cachedQuote;
+  }
+
+  try {
+    // Rates are quoted per GiB, both in winc and in fiat
+    const rates = await TurboFactory.unauthenticated().getFiatRates();
+    const wincPerGib = Number(rates.winc);
+    const usdPerGib = rates.fiat.usd;
+
+    if (!wincPerGib || !usdPerGib) {
+      throw new Error('Turbo returned an empty rate quote');
+    }
+
+    cachedQuote = { wincPerGib, usdPerWinc: usdPerGib / wincPerGib, fetchedAt: new Date() };
+    logger.info({ usdPerGib, wincPerGib }, 'Refreshed Turbo price quote');
+  } catch (error) {
+    if (!cachedQuote) {
+      throw error;
+    }
+    logger.warn({ error, fetchedAt: cachedQuote.fetchedAt }, 'Failed to refresh Turbo price quote, using stale quote');
+  }
+
+  return cachedQuote;
+}
+
+/**
+ * Replace the cached quote (e.g. with a fixed rate)
+ */
+export function setWincQuote(quote: WincQuote | null): void {
+  cachedQuote = quote;
+}
+
+/**
+ * Same price for every billable email
+ */
+export function createFlatStrategy(costPerEmail: number): PricingStrategy {
+  return {
+    model: 'flat',
+    async priceForBytes() {
+      return costPerEmail;
+    },
+    describe() {
+      return `$${costPerEmail.toFixed(2)} per email`;
+    },
+  };
+}
+
+/**
+ * Price by size tier (emails larger than every tier use the last one)
+ */
+export function createTieredStrategy(tiers: PriceTier[]): PricingStrategy {
+  return {
+    model: 'tiered',
+    async priceForBytes(bytes) {
+      const tier = tiers.find((t) => t.maxBytes === null || bytes <= t.maxBytes) ?? tiers[tiers.length - 1]!;
+      return tier.priceUsd;
+    },
+    describe() {
+      return tiers
+        .map((t) => `$${t.priceUsd.toFixed(2)} ${t.maxBytes === null ? 'above that' : `up to ${t.maxBytes / BYTES_PER_MB} MB`}`)
+        .join(', ');
+    },
+  };
+}
+
+/**
+ * Turbo storage cost of the bytes plus a margin, rounded up to whole cents
+ */
+export function createCostPlusStrategy(
+  marginPercent: number,
+  quote: () => Promise<WincQuote> = getWincQuote
+): PricingStrategy {
+  return {
+    model: 'cost_plus',
+    async priceForBytes(bytes) {
+      const { wincPerGib, usdPerWinc } = await quote();
+      const storageWinc = Math.ceil((bytes / BYTES_PER_GIB) * wincPerGib);
+      const storageUsd = storageWinc * usdPerWinc;
+      return toCents(storageUsd * (1 + marginPercent / 100));
+    },
+    describe() {
+      return `Arweave storage cost plus ${marginPercent}% (minimum $0.01 per email)`;
+    },
+  };
+}
+
+let cachedStrategy: PricingStrategy | null = null;
+
+/**
+ * Get the configured pricing strategy (throws on invalid PRICING_TIERS)
+ */
+export function getPricingStrategy(): PricingStrategy {
+  if (!cachedStrategy) {
+    switch (config.PRICING_MODEL) {
+      case 'tiered':
+        cachedStrategy = createTieredStrategy(parsePricingTiers(config.PRICING_TIERS));
+        break;
+      case 'cost_plus':
+        cachedStrategy = createCostPlusStrategy(config.PRICING_MARGIN_PERCENT);
+        break;
+      default:
+        cachedStrategy = createFlatStrategy(config.COST_PER_EMAIL);
+    }
+  }
+  return cachedStrategy;
+}
+
+/**
+ * Replace the cached strategy (null rebuilds it from the config on next use)
+ */
+export function setPricingStrategy(strategy: PricingStrategy | null): void {
+  cachedStrategy = strategy;
+}
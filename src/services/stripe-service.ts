@@ -0,0 +1,133 @@
+import Stripe from 'stripe';
+import { eq } from 'drizzle-orm';
+import { getDb } from '../database/db';
+import { users, type User } from '../database/schema';
+import { createLogger } from '../config/logger';
+import { config } from '../config/env';
+
+const logger = createLogger('stripe-service');
+
+let stripeClient: Stripe | null = null;
+
+/**
+ * Check if Stripe billing is configured
+ */
+export function isStripeConfigured(): boolean {
+  return !!config.STRIPE_SECRET_KEY;
+}
+
+/**
+ * Get the shared Stripe client
+ * Throws if STRIPE_SECRET_KEY is not set
+ */
+export function getStripeClient(): Stripe {
+  if (!stripeClient) {
+    if (!config.STRIPE_SECRET_KEY) {
+      throw new Error('Stripe is not configured (STRIPE_SECRET_KEY missing)');
+    }
+    stripeClient = new Stripe(config.STRIPE_SECRET_KEY);
+  }
+  return stripeClient;
+}
+
+/**
+ * Replace the shared Stripe client (e.g. with a mock)
+ */
+export function setStripeClient(client: Stripe | null): void {
+  stripeClient = client;
+}
+
+/**
+ * Get the user's Stripe customer ID, creating the customer on first use
+ */
+export async function getOrCreateStripeCustomer(
+  user: Pick<User, 'id' | 'email' | 'stripeCustomerId'>,
+  stripe: Stripe = getStripeClient()
+): Promise<string> {
+  if (user.stripeCustomerId) {
+    return user.stripeCustomerId;
+  }
+
+  const customer = await stripe.customers.create(
+    {
+      email: user.email,
+      metadata: { userId: user.id },
+    },
+    { idempotencyKey: `customer-${user.id}` }
+  );
+
+  const db = await getDb();
+  await db.update(users)
+    .set({ stripeCustomerId: customer.id, updatedAt: new Date() })
+    .where(eq(users.id, user.id));
+
+  logger.info({ userId: user.id, customerId: customer.id }, 'Created Stripe customer');
+
+  return customer.id;
+}
+
+/**
+ * Check if self-service upgrades are possible (Stripe key and price configured)
+ */
+export function isCheckoutConfigured(): boolean {
+  return isStripeConfigured() && !!config.STRIPE_PRICE_ID;
+}
+
+/**
+ * Create a Stripe Checkout link for upgrading a user to the paid plan
+ * The session carries the user ID as client_reference_id, so the checkout.session.completed
+ * webhook can link the resulting Stripe customer back to the user
+ */
+export async function createCheckoutLink(
+  user: Pick<User, 'id' | 'email' | 'stripeCustomerId'>,
+  stripe: Stripe = getStripeClient()
+): Promise<string> {
+  if (!config.STRIPE_PRICE_ID) {
+    throw new Error('Stripe checkout is not configured (STRIPE_PRICE_ID missing)');
+  }
+
+  // Recurring (incl. metered) prices need a subscription checkout
+  const price = await stripe.prices.retrieve(config.STRIPE_PRICE_ID);
+  const isSubscription = !!price.recurring;
+  const isMetered = price.recurring?.usage_type === 'metered';
+
+  const session = await stripe.checkout.sessions.create({
+    mode: isSubscription ? 'subscription' : 'payment',
+    line_items: [{
+      price: config.STRIPE_PRICE_ID,
+      ...(isMetered ? {} : { quantity: 1 }),
+    }],
+    client_reference_id: user.id,
+    metadata: { userId: user.id },
+    ...(user.stripeCustomerId
+      ? { customer: user.stripeCustomerId }
+      : { customer_email: user.email, ...(isSubscription ? {} : { customer_creation: 'always' as const }) }),
+    success_url: config.CHECKOUT_SUCCESS_URL,
+    cancel_url: config.CHECKOUT_CANCEL_URL,
+  });
+
+  if (!session.url) {
+    throw new Error('Stripe returned a checkout session without a URL');
+  }
+
+  logger.info({ userId: user.id, sessionId: session.id, mode: session.mode }, 'Created checkout link');
+
+  return session.url;
+}
+
+/**
+ * Checkout link for a free user, or null if upgrades are unavailable or Stripe fails
+ * Safe to embed in notifications: errors are logged, never thrown
+ */
+export async function getUpgradeUrl(user: Pick<User, 'id' | 'email' | 'plan' | 'stripeCustomerId'>): Promise<string | null> {
+  if (user.plan !== 'free' || !isCheckoutConfigured()) {
+    return null;
+  }
+
+  try {
+    return await createCheckoutLink(user);
+  } catch (error) {
+    logger.error({ error, userId: user.id }, 'Failed to create checkout link');
+    return null;
+  }
+}
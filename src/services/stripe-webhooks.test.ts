@@ -0,0 +1,99 @@
+import { describe, test, expect, beforeAll } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import { config } from '../config/env';
+import { getDb } from '../database/db';
+import { users, payments, stripeEvents, type User } from '../database/schema';
+import { FakeStripe } from '../test/fake-stripe';
+import { handleStripeWebhook } from './stripe-webhooks';
+
+const stripe = new FakeStripe().asClient();
+
+beforeAll(() => {
+  Object.assign(config, { STRIPE_WEBHOOK_SECRET: 'whsec_test' });
+});
+
+async function createUser(): Promise<User> {
+  const db = await getDb();
+  const [user] = await db.insert(users).values({ email: `webhook-${crypto.randomUUID()}@example.com` }).returning();
+  return user!;
+}
+
+function invoicePaidEvent(user: User) {
+  const eventId = `evt_${crypto.randomUUID()}`;
+  const invoiceId = `in_${crypto.randomUUID()}`;
+  const body = Buffer.from(JSON.stringify({
+    id: eventId,
+    type: 'invoice.paid',
+    data: { object: { id: invoiceId, amount_paid: 500, amount_due: 500, metadata: { userId: user.id } } },
+  }));
+  return { eventId, invoiceId, body };
+}
+
+async function paymentsFor(invoiceId: string) {
+  const db = await getDb();
+  return db.select().from(payments).where(eq(payments.stripeInvoiceId, invoiceId));
+}
+
+describe('handleStripeWebhook', () => {
+  test('rejects an invalid signature', async () => {
+    const { body } = invoicePaidEvent(await createUser());
+    expect(await handleStripeWebhook(body, 'invalid', stripe)).toMatchObject({ statusCode: 400 });
+  });
+
+  test('records an invoice payment once and acknowledges redeliveries as duplicates', async () => {
+    const { body, invoiceId } = invoicePaidEvent(await createUser());
+
+    expect(await handleStripeWebhook(body, 'sig', stripe)).toEqual({ statusCode: 200, body: { received: true } });
+    expect(await handleStripeWebhook(body, 'sig', stripe)).toEqual({ statusCode: 200, body: { received: true, duplicate: true } });
+
+    expect(await paymentsFor(invoiceId)).toMatchObject([{ status: 'succeeded', amountUsd: 5 }]);
+  });
+
+  test('handles concurrent deliveries of an event once', async () => {
+    const { body, invoiceId } = invoicePaidEvent(await createUser());
+
+    const responses = await Promise.all([
+      handleStripeWebhook(body, 'sig', stripe),
+      handleStripeWebhook(body, 'sig', stripe),
+    ]);
+
+    expect(responses.map((response) => response.statusCode).sort()).toEqual([200, 409]);
+    expect(await paymentsFor(invoiceId)).toHaveLength(1);
+  });
+
+  test('handles a failed or abandoned event again, but not one in progress', async () => {
+    const db = await getDb();
+    const user = await createUser();
+    const failed = invoicePaidEvent(user);
+    const abandoned = invoicePaidEvent(user);
+    const inProgress = invoicePaidEvent(user);
+
+    await db.insert(stripeEvents).values([
+      { id: failed.eventId, type: 'invoice.paid', status: 'failed', errorMessage: 'Database locked' },
+      { id: abandoned.eventId, type: 'invoice.paid', status: 'processing', receivedAt: new Date(Date.now() - 60 * 60 * 1000) },
+      { id: inProgress.eventId, type: 'invoice.paid', status: 'processing' },
+    ]);
+
+    expect(await handleStripeWebhook(failed.body, 'sig', stripe)).toMatchObject({ statusCode: 200, body: { received: true } });
+    expect(await handleStripeWebhook(abandoned.body, 'sig', stripe)).toMatchObject({ statusCode: 200, body: { received: true } });
+    expect(await handleStripeWebhook(inProgress.body, 'sig', stripe)).toMatchObject({ statusCode: 409 });
+
+    expect(await paymentsFor(failed.invoiceId)).toHaveLength(1);
+    expect(await paymentsFor(abandoned.invoiceId)).toHaveLength(1);
+    expect(await paymentsFor(inProgress.invoiceId)).toHaveLength(0);
+
+    const [event] = await db.select().from(stripeEvents).where(eq(stripeEvents.id, failed.eventId));
+    expect(event).toMatchObject({ status: 'processed', errorMessage: null });
+  });
+
+  test('updates a payment already recorded for the invoice', async () => {
+    const user = await createUser();
+    const { body, invoiceId } = invoicePaidEvent(user);
+
+    const db = await getDb();
+    await db.insert(payments).values({ userId: user.id, stripeInvoiceId: invoiceId, amountUsd: 5, status: 'failed' });
+
+    expect(await handleStripeWebhook(body, 'sig', stripe)).toMatchObject({ statusCode: 200 });
+    expect(await paymentsFor(invoiceId)).toMatchObject([{ status: 'succeeded' }]);
+  });
+});
@@ -0,0 +1,264 @@
+import type Stripe from 'stripe';
+import { eq, and, or, lt } from 'drizzle-orm';
+import { getDb } from '../database/db';
+import { users, payments, stripeEvents, type User } from '../database/schema';
+import { createLogger } from '../config/logger';
+import { config } from '../config/env';
+import { getStripeClient, isStripeConfigured } from './stripe-service';
+import { updateUserPlan } from './user-service';
+import { sendPaymentFailedEmail } from './email-notification';
+
+const logger = createLogger('stripe-webhooks');
+
+const STALE_EVENT_MS = 10 * 60 * 1000; // An event still 'processing' after 10 minutes was abandoned (crash)
+
+export interface WebhookResponse {
+  statusCode: number;
+  body: { received: boolean; duplicate?: boolean; error?: string };
+}
+
+/**
+ * Stripe object fields may be an ID or an expanded object
+ */
+function idOf(value: string | { id: string } | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return typeof value === 'string' ? value : value.id;
+}
+
+async function findUserByCustomer(customerId: string | undefined): Promise<User | undefined> {
+  if (!customerId) return undefined;
+  const db = await getDb();
+  return (db.query as any).users?.findFirst({
+    where: eq(users.stripeCustomerId, customerId),
+  });
+}
+
+/**
+ * Checkout completed: link the Stripe customer to the user and upgrade to paid
+ * The user is identified by client_reference_id (set when the checkout link is created)
+ */
+async function handleCheckoutCompleted(session: Stripe.Checkout.Session): Promise<void> {
+  const db = await getDb();
+  const customerId = idOf(session.customer);
+  const userId = session.client_reference_id || session.metadata?.userId;
+
+  const user: User | undefined = userId
+    ? await (db.query as any).users?.findFirst({ where: eq(users.id, userId) })
+    : await findUserByCustomer(customerId);
+
+  if (!user) {
+    logger.warn({ sessionId: session.id, userId, customerId }, 'Checkout completed for unknown user');
+    return;
+  }
+
+  await updateUserPlan(user.id, 'paid', customerId);
+
+  // One-off payments are recorded right away (subscriptions are recorded per invoice)
+  const paymentIntentId = idOf(session.payment_intent);
+  if (session.mode === 'payment' && paymentIntentId && session.amount_total) {
+    await db.insert(payments)
+      .values({
+        userId: user.id,
+        stripePaymentIntentId: paymentIntentId,
+        amountUsd: session.amount_total / 100,
+        status: session.payment_status === 'paid' ? 'succeeded' : 'pending',
+        ...(session.payment_status === 'paid' ? { completedAt: new Date() } : {}),
+      })
+      .onConflictDoNothing({ target: payments.stripePaymentIntentId });
+  }
+
+  logger.info({ userId: user.id, customerId, mode: session.mode }, 'Checkout completed, user upgraded');
+}
+
+/**
+ * Create or update the payments row for an invoice
+ */
+async function upsertInvoicePayment(
+  invoice: Stripe.Invoice,
+  status: 'succeeded' | 'failed'
+): Promise<User | undefined> {
+  const db = await getDb();
+  if (!invoice.id) return undefined;
+
+  const existing = await (db.query as any).payments?.findFirst({
+    where: eq(payments.stripeInvoiceId, invoice.id),
+  });
+
+  if (existing) {
+    await db.update(payments)
+      .set({
+        status,
+        ...(status === 'succeeded' ? { completedAt: new Date() } : {}),
+      })
+      .where(eq(payments.id, existing.id));
+
+    return (db.query as any).users?.findFirst({ where: eq(users.id, existing.userId) });
+  }
+
+  // Invoices not created by the billing job (e.g. subscription renewals)
+  const user = invoice.metadata?.userId
+    ? await (db.query as any).users?.findFirst({ where: eq(users.id, invoice.metadata.userId) })
+    : await findUserByCustomer(idOf(invoice.customer));
+
+  if (!user) {
+    logger.warn({ invoiceId: invoice.id }, 'Invoice for unknown user');
+    return undefined;
+  }
+
+  // Another event for the same invoice may have recorded it in the meantime
+  await db.insert(payments)
+    .values({
+      userId: user.id,
+      stripeInvoiceId: invoice.id,
+      amountUsd: (status === 'succeeded' ? invoice.amount_paid : invoice.amount_due) / 100,
+      status,
+      ...(invoice.metadata?.usageId ? { usageId: invoice.metadata.usageId } : {}),
+      ...(status === 'succeeded' ? { completedAt: new Date() } : {}),
+    })
+    .onConflictDoUpdate({
+      target: payments.stripeInvoiceId,
+      set: {
+        status,
+        ...(status === 'succeeded' ? { completedAt: new Date() } : {}),
+      },
+    });
+
+  return user;
+}
+
+async function handleInvoicePaid(invoice: Stripe.Invoice): Promise<void> {
+  const user = await upsertInvoicePayment(invoice, 'succeeded');
+  logger.info({ invoiceId: invoice.id, userId: user?.id, amountPaid: invoice.amount_paid }, 'Invoice paid');
+}
+
+async function handleInvoicePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
+  const user = await upsertInvoicePayment(invoice, 'failed');
+  logger.warn({ invoiceId: invoice.id, userId: user?.id, amountDue: invoice.amount_due }, 'Invoice payment failed');
+
+  if (user) {
+    await sendPaymentFailedEmail(
+      user.email,
+      invoice.amount_due / 100,
+      invoice.hosted_invoice_url || undefined
+    );
+  }
+}
+
+/**
+ * Subscription ended: downgrade to free
+ */
+async function handleSubscriptionDeleted(subscription: Stripe.Subscription): Promise<void> {
+  const user = await findUserByCustomer(idOf(subscription.customer));
+  if (!user) {
+    logger.warn({ subscriptionId: subscription.id }, 'Subscription deleted for unknown customer');
+    return;
+  }
+
+  await updateUserPlan(user.id, 'free');
+  logger.info({ userId: user.id, subscriptionId: subscription.id }, 'Subscription ended, user downgraded');
+}
+
+/**
+ * Dispatch a verified Stripe event (unhandled types are acknowledged and ignored)
+ */
+export async function processStripeEvent(event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    case 'checkout.session.completed':
+      await handleCheckoutCompleted(event.data.object);
+      break;
+    case 'invoice.paid':
+      await handleInvoicePaid(event.data.object);
+      break;
+    case 'invoice.payment_failed':
+      await handleInvoicePaymentFailed(event.data.object);
+      break;
+    case 'customer.subscription.deleted':
+      await handleSubscriptionDeleted(event.data.object);
+      break;
+    default:
+      logger.debug({ eventId: event.id, type: event.type }, 'Ignoring Stripe event');
+  }
+}
+
+/**
+ * Verify and handle a webhook request
+ * Events are recorded by ID; an event that was already processed is acknowledged without re-running
+ */
+export async function handleStripeWebhook(
+  rawBody: Buffer,
+  signature: string | undefined,
+  stripe?: Stripe
+): Promise<WebhookResponse> {
+  if (!config.STRIPE_WEBHOOK_SECRET || (!stripe && !isStripeConfigured())) {
+    logger.error('Stripe webhook received but STRIPE_SECRET_KEY/STRIPE_WEBHOOK_SECRET are not set');
+    return { statusCode: 503, body: { received: false, error: 'Webhooks not configured' } };
+  }
+
+  if (!signature) {
+    return { statusCode: 400, body: { received: false, error: 'Missing Stripe-Signature header' } };
+  }
+
+  let event: Stripe.Event;
+  try {
+    // Async variant works with both Node and Web Crypto providers (Bun)
+    event = await (stripe || getStripeClient()).webhooks.constructEventAsync(rawBody, signature, config.STRIPE_WEBHOOK_SECRET);
+  } catch (error) {
+    logger.warn({ errorMessage: error instanceof Error ? error.message : String(error) }, 'Invalid Stripe webhook signature');
+    return { statusCode: 400, body: { received: false, error: 'Invalid signature' } };
+  }
+
+  const db = await getDb();
+
+  // Claim the event atomically - concurrent deliveries of the same event must not both handle it
+  // A failed event (or one whose handler died mid-way) can be claimed again by a later delivery
+  const claimed = await db.insert(stripeEvents)
+    .values({ id: event.id, type: event.type })
+    .onConflictDoNothing()
+    .returning({ id: stripeEvents.id });
+
+  const reclaimed = claimed.length > 0 ? claimed : await db.update(stripeEvents)
+    .set({ status: 'processing', errorMessage: null, receivedAt: new Date() })
+    .where(and(
+      eq(stripeEvents.id, event.id),
+      or(
+        eq(stripeEvents.status, 'failed'),
+        and(eq(stripeEvents.status, 'processing'), lt(stripeEvents.receivedAt, new Date(Date.now() - STALE_EVENT_MS)))
+      )
+    ))
+    .returning({ id: stripeEvents.id });
+
+  if (reclaimed.length === 0) {
+    const existing = await (db.query as any).stripeEvents?.findFirst({
+      where: eq(stripeEvents.id, event.id),
+    });
+
+    if (existing?.status === 'processed') {
+      logger.info({ eventId: event.id, type: event.type }, 'Duplicate Stripe event, skipping');
+      return { statusCode: 200, body: { received: true, duplicate: true } };
+    }
+
+    // Still being handled by another delivery - non-2xx makes Stripe retry in case that one fails
+    logger.info({ eventId: event.id, type: event.type }, 'Stripe event already in progress');
+    return { statusCode: 409, body: { received: false, error: 'Event is already being processed' } };
+  }
+
+  try {
+    await processStripeEvent(event);
+
+    await db.update(stripeEvents)
+      .set({ status: 'processed', errorMessage: null, processedAt: new Date() })
+      .where(eq(stripeEvents.id, event.id));
+
+    return { statusCode: 200, body: { received: true } };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error({ error, eventId: event.id, type: event.type }, 'Failed to handle Stripe event');
+
+    await db.update(stripeEvents)
+      .set({ status: 'failed', errorMessage })
+      .where(eq(stripeEvents.id, event.id));
+
+    // Non-2xx makes Stripe retry the event later
+    return { statusCode: 500, body: { received: false, error: 'Event handling failed' } };
+  }
+}
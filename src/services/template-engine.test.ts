@@ -0,0 +1,95 @@
+import { describe, test, expect } from 'bun:test';
+import { compileTemplate, renderTemplate, TemplateSyntaxError } from './template-engine';
+
+describe('renderTemplate', () => {
+  test('escapes values unless they use triple braces', () => {
+    const data = { name: '<b>"Tom" & Jerry</b>' };
+
+    expect(renderTemplate('Hi {{name}}', data)).toBe('Hi &lt;b&gt;&quot;Tom&quot; &amp; Jerry&lt;/b&gt;');
+    expect(renderTemplate('Hi {{{name}}}', data)).toBe('Hi <b>"Tom" & Jerry</b>');
+    expect(renderTemplate('Hi {{name}}', data, { escape: (value) => value })).toBe('Hi <b>"Tom" & Jerry</b>');
+  });
+
+  test('resolves dotted paths and renders missing values as empty', () => {
+    const data = { user: { email: 'a@example.com', plan: null } };
+
+    expect(renderTemplate('{{user.email}}|{{user.plan}}|{{user.missing.deep}}|{{nothing}}', data)).toBe('a@example.com|||');
+  });
+
+  test('renders if, unless and else branches', () => {
+    const template = '{{#if items}}some{{else}}none{{/if}} {{#unless paid}}free{{/unless}}';
+
+    expect(renderTemplate(template, { items: [1], paid: false })).toBe('some free');
+    expect(renderTemplate(template, { items: [], paid: true })).toBe('none ');
+  });
+
+  test('loops with each, exposing this, @index and the enclosing scope', () => {
+    const template = '{{#each files}}{{@index}}:{{name}}@{{drive}} {{/each}}{{#each tags}}[{{this}}]{{/each}}';
+
+    expect(renderTemplate(template, { drive: 'private', files: [{ name: 'a.eml' }, { name: 'b.eml' }], tags: ['x', 'y'] }))
+      .toBe('0:a.eml@private 1:b.eml@private [x][y]');
+  });
+
+  test('renders the else branch of each for empty or missing lists', () => {
+    const template = '{{#each files}}{{name}}{{else}}no files{{/each}}';
+
+    expect(renderTemplate(template, { files: [] })).toBe('no files');
+    expect(renderTemplate(template, {})).toBe('no files');
+  });
+
+  test('drops the lines of standalone block, partial and comment tags', () => {
+    const template = [
+      'Files:',
+      '{{! one per line }}',
+      '{{#each files}}',
+      '  - {{this}}',
+      '{{/each}}',
+      '  {{> footer}}',
+      'Inline {{#if done}}done{{/if}} stays',
+    ].join('\n');
+
+    const output = renderTemplate(template, { files: ['a', 'b'], done: true }, {
+      partial: () => compileTemplate('-- footer\n'),
+    });
+
+    expect(output).toBe('Files:\n  - a\n  - b\n-- footer\nInline done stays');
+  });
+
+  test('renders partials with the current scope', () => {
+    const partials: Record<string, string> = { item: '<li>{{name}}</li>' };
+    const output = renderTemplate('<ul>{{#each items}}{{> item}}{{/each}}</ul>', { items: [{ name: 'a' }, { name: '<b>' }] }, {
+      partial: (name) => compileTemplate(partials[name]!),
+    });
+
+    expect(output).toBe('<ul><li>a</li><li>&lt;b&gt;</li></ul>');
+  });
+
+  test('stops recursive partials', () => {
+    const render = () => renderTemplate('{{> loop}}', {}, { partial: () => compileTemplate('{{> loop}}') });
+    expect(render).toThrow('Partials nested too deeply');
+  });
+
+  test('requires partials to be available', () => {
+    expect(() => renderTemplate('{{> usage}}', {})).toThrow('Partial "usage" used but no partials are available');
+  });
+});
+
+describe('compileTemplate', () => {
+  const cases: Array<[string, string]> = [
+    ['{{#with user}}{{/with}}', 'Unknown block "{{#with}}" (line 1)'],
+    ['line 1\n{{#if a}}\nline 3', 'Unclosed {{#if}} (line 2)'],
+    ['{{#if a}}{{/each}}', 'Unexpected {{/each}} (line 1)'],
+    ['text\n\n{{/if}}', 'Unexpected {{/if}} (line 3)'],
+    ['{{#if a}}x{{else}}y{{else}}z{{/if}}', 'Unexpected {{else}} (line 1)'],
+    ['{{else}}', 'Unexpected {{else}} (line 1)'],
+    ['{{user name}}', 'Invalid template expression "{{user name}}" (line 1)'],
+    ['{{{a-b}}}', 'Invalid template expression "{{a-b}}" (line 1)'],
+    ['{{#each items.}}{{/each}}', 'Invalid template expression "{{items.}}" (line 1)'],
+    ['{{> ../secrets}}', 'Invalid partial name "{{> ../secrets}}" (line 1)'],
+  ];
+
+  test.each(cases)('rejects %j', (source, message) => {
+    expect(() => compileTemplate(source)).toThrow(TemplateSyntaxError);
+    expect(() => compileTemplate(source)).toThrow(message);
+  });
+});
@@ -0,0 +1,281 @@
+import { escapeHtml } from './utils';
+
+/**
+ * Minimal logic-less template engine for notification emails
+ *
+ * Syntax:
+ * - {{path}}                 value, escaped (HTML templates) - dotted paths, `this`, `@index`
+ * - {{{path}}}               value, unescaped
+ * - {{#if path}}…{{else}}…{{/if}}, {{#unless path}}…{{/unless}}
+ * - {{#each path}}…{{else}}…{{/each}}   loop over an array (`this` is the item)
+ * - {{> name}}               partial, rendered with the current scope
+ * - {{! comment }}
+ *
+ * Block and partial tags alone on a line don't leave blank lines behind (matters for plain-text templates)
+ * Lookups that miss the current item fall back to the enclosing scopes
+ */
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; path: string; raw: boolean }
+  | { type: 'if'; path: string; negate: boolean; body: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'partial'; name: string };
+
+export type CompiledTemplate = TemplateNode[];
+
+export interface RenderOptions {
+  escape?: (value: string) => string; // Default: escapeHtml
+  partial?: (name: string) => CompiledTemplate;
+}
+
+interface Token {
+  kind: 'text' | 'value' | 'raw' | 'open' | 'else' | 'close' | 'partial' | 'comment';
+  value: string; // Text, path, or block keyword
+  arg: string; // Block path
+}
+
+interface Scope {
+  value: unknown;
+  index?: number;
+  parent?: Scope;
+}
+
+const TAG_PATTERN = /\{\{\{\s*([^}]*?)\s*\}\}\}|\{\{\s*([#/>!]|else\b)?\s*([^}]*?)\s*\}\}/g;
+const PATH_PATTERN = /^(@index|this|[A-Za-z_$][\w$]*)(\.[A-Za-z_$][\w$]*)*$/;
+const MAX_PARTIAL_DEPTH = 10;
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string, source: string, offset: number) {
+    const line = source.slice(0, offset).split('\n').length;
+    super(`${message} (line ${line})`);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+function checkPath(path: string, source: string, offset: number): string {
+  if (!PATH_PATTERN.test(path)) {
+    throw new TemplateSyntaxError(`Invalid template expression "{{${path}}}"`, source, offset);
+  }
+  return path;
+}
+
+/**
+ * Split a template into tokens, dropping the line of a block or partial tag that stands alone
+ */
+function tokenize(source: string): Array<Token & { offset: number }> {
+  const tokens: Array<Token & { offset: number }> = [];
+  let cursor = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const start = match.index;
+    let end = start + match[0].length;
+    let text = source.slice(cursor, start);
+
+    const [, raw, sigil, body = ''] = match;
+    let token: Token;
+
+    if (raw !== undefined) {
+      token = { kind: 'raw', value: checkPath(raw, source, start), arg: '' };
+    } else if (sigil === '#') {
+      const [keyword = '', arg = ''] = body.split(/\s+/, 2);
+      if (keyword !== 'if' && keyword !== 'unless' && keyword !== 'each') {
+        throw new TemplateSyntaxError(`Unknown block "{{#${keyword}}}"`, source, start);
+      }
+      token = { kind: 'open', value: keyword, arg: checkPath(arg, source, start) };
+    } else if (sigil === '/') {
+      token = { kind: 'close', value: body, arg: '' };
+    } else if (sigil === 'else') {
+      token = { kind: 'else', value: '', arg: '' };
+    } else if (sigil === '>') {
+      if (!/^[\w-]+$/.test(body)) {
+        throw new TemplateSyntaxError(`Invalid partial name "{{> ${body}}}"`, source, start);
+      }
+      token = { kind: 'partial', value: body, arg: '' };
+    } else if (sigil === '!') {
+      token = { kind: 'comment', value: '', arg: '' };
+    } else {
+      token = { kind: 'value', value: checkPath(body, source, start), arg: '' };
+    }
+
+    // Standalone block/partial tag: swallow its indentation and line break
+    if (token.kind !== 'text' && token.kind !== 'value' && token.kind !== 'raw') {
+      const lineStart = text.lastIndexOf('\n') + 1;
+      const before = text.slice(lineStart);
+      const after = source.slice(end).match(/^[ \t]*(\r?\n|$)/);
+      const atLineStart = lineStart > 0 || cursor === 0 || source[cursor - 1] === '\n';
+
+      if (after && atLineStart && /^[ \t]*$/.test(before)) {
+        text = text.slice(0, lineStart);
+        end += after[0].length;
+      }
+    }
+
+    if (text) {
+      tokens.push({ kind: 'text', value: text, arg: '', offset: cursor });
+    }
+    tokens.push({ ...token, offset: start });
+    cursor = end;
+  }
+
+  if (cursor < source.length) {
+    tokens.push({ kind: 'text', value: source.slice(cursor), arg: '', offset: cursor });
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a template into a tree (throws TemplateSyntaxError on unbalanced or unknown tags)
+ */
+export function compileTemplate(source: string): CompiledTemplate {
+  const root: CompiledTemplate = [];
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' | 'each' }>; keyword: string; inElse: boolean; offset: number }> = [];
+
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.otherwise : top.node.body;
+  };
+
+  for (const token of tokenize(source)) {
+    switch (token.kind) {
+      case 'text':
+        current().push({ type: 'text', value: token.value });
+        break;
+      case 'value':
+      case 'raw':
+        current().push({ type: 'value', path: token.value, raw: token.kind === 'raw' });
+        break;
+      case 'partial':
+        current().push({ type: 'partial', name: token.value });
+        break;
+      case 'comment':
+        break;
+      case 'open': {
+        const node: Extract<TemplateNode, { type: 'if' | 'each' }> = token.value === 'each'
+          ? { type: 'each', path: token.arg, body: [], otherwise: [] }
+          : { type: 'if', path: token.arg, negate: token.value === 'unless', body: [], otherwise: [] };
+        current().push(node);
+        stack.push({ node, keyword: token.value, inElse: false, offset: token.offset });
+        break;
+      }
+      case 'else': {
+        const top = stack[stack.length - 1];
+        if (!top || top.inElse) {
+          throw new TemplateSyntaxError('Unexpected {{else}}', source, token.offset);
+        }
+        top.inElse = true;
+        break;
+      }
+      case 'close': {
+        const top = stack.pop();
+        if (!top || top.keyword !== token.value) {
+          throw new TemplateSyntaxError(`Unexpected {{/${token.value}}}`, source, token.offset);
+        }
+        break;
+      }
+    }
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateSyntaxError(`Unclosed {{#${unclosed.keyword}}}`, source, unclosed.offset);
+  }
+
+  return root;
+}
+
+function lookup(scope: Scope, path: string): unknown {
+  const [head = '', ...rest] = path.split('.');
+
+  if (head === '@index') {
+    return scope.index;
+  }
+
+  let value: unknown;
+  if (head === 'this') {
+    value = scope.value;
+  } else {
+    // Innermost scope that has the key wins
+    let frame: Scope | undefined = scope;
+    while (frame && !(frame.value !== null && typeof frame.value === 'object' && head in frame.value)) {
+      frame = frame.parent;
+    }
+    value = frame ? (frame.value as Record<string, unknown>)[head] : undefined;
+  }
+
+  for (const key of rest) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+function renderNodes(
+  nodes: CompiledTemplate,
+  scope: Scope,
+  options: Required<Pick<RenderOptions, 'escape'>> & RenderOptions,
+  depth: number
+): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'value': {
+        const value = lookup(scope, node.path);
+        const text = value === null || value === undefined ? '' : String(value);
+        output += node.raw ? text : options.escape(text);
+        break;
+      }
+      case 'if': {
+        const show = isTruthy(lookup(scope, node.path)) !== node.negate;
+        output += renderNodes(show ? node.body : node.otherwise, scope, options, depth);
+        break;
+      }
+      case 'each': {
+        const items = lookup(scope, node.path);
+        if (Array.isArray(items) && items.length > 0) {
+          items.forEach((item, index) => {
+            output += renderNodes(node.body, { value: item, index, parent: scope }, options, depth);
+          });
+        } else {
+          output += renderNodes(node.otherwise, scope, options, depth);
+        }
+        break;
+      }
+      case 'partial': {
+        if (!options.partial) {
+          throw new Error(`Partial "${node.name}" used but no partials are available`);
+        }
+        if (depth >= MAX_PARTIAL_DEPTH) {
+          throw new Error(`Partials nested too deeply at "${node.name}"`);
+        }
+        output += renderNodes(options.partial(node.name), scope, options, depth + 1);
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Render a template (source or compiled) with the given data
+ */
+export function renderTemplate(
+  template: string | CompiledTemplate,
+  data: unknown,
+  options: RenderOptions = {}
+): string {
+  const compiled = typeof template === 'string' ? compileTemplate(template) : template;
+  return renderNodes(compiled, { value: data }, { ...options, escape: options.escape ?? escapeHtml }, 0);
+}
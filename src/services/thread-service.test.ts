@@ -0,0 +1,105 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { eq } from 'drizzle-orm';
+import { getDb } from '../database/db';
+import { users, processedEmails, emailThreads } from '../database/schema';
+import { assignThread, getRelatedMessageIds, normalizeThreadSubject, recordThreadMessage, setThreadFolder } from './thread-service';
+
+let userId: string;
+
+// An archived message, as recorded once its job completes
+async function archived(messageId: string, threadId: string): Promise<string> {
+  const db = await getDb();
+  const [row] = await db.insert(processedEmails)
+    .values({ folder: 'INBOX', sender: 'alice@example.com', messageId, status: 'completed' })
+    .returning();
+  await recordThreadMessage(threadId, row!.id, new Date());
+  return row!.id;
+}
+
+beforeEach(async () => {
+  const db = await getDb();
+  const [user] = await db.insert(users).values({ email: `thread-${crypto.randomUUID()}@example.com` }).returning();
+  userId = user!.id;
+});
+
+describe('getRelatedMessageIds', () => {
+  test('lists References before In-Reply-To without duplicates', () => {
+    expect(getRelatedMessageIds({ references: '<a@x> <b@x>', inReplyTo: '<b@x>' })).toEqual(['<a@x>', '<b@x>']);
+    expect(getRelatedMessageIds({ references: ['<a@x>'], inReplyTo: '<c@x>' })).toEqual(['<a@x>', '<c@x>']);
+    expect(getRelatedMessageIds({ references: undefined, inReplyTo: undefined })).toEqual([]);
+  });
+});
+
+describe('normalizeThreadSubject', () => {
+  test('strips stacked reply and forward prefixes', () => {
+    expect(normalizeThreadSubject('Re: Fwd: AW: Budget')).toBe('Budget');
+    expect(normalizeThreadSubject('RE[2]: Budget')).toBe('Budget');
+    expect(normalizeThreadSubject('Re:')).toBeNull();
+    expect(normalizeThreadSubject(undefined)).toBeNull();
+  });
+});
+
+describe('assignThread', () => {
+  test('starts a thread rooted at a new message', async () => {
+    const { thread, isReply } = await assignThread(userId, 'drive-1', { messageId: '<root@x>', subject: 'Budget' }, 'fallback');
+
+    expect(isReply).toBe(false);
+    expect(thread).toMatchObject({ userId, driveId: 'drive-1', rootMessageId: '<root@x>', subject: 'Budget', messageCount: 0 });
+  });
+
+  test('adds a reply to the thread of the archived message it references', async () => {
+    const { thread: root } = await assignThread(userId, 'drive-1', { messageId: '<root@x>', subject: 'Budget' }, 'fallback');
+    await archived('<root@x>', root.id);
+
+    const { thread, isReply } = await assignThread(
+      userId, 'drive-1', { messageId: '<reply@x>', inReplyTo: '<root@x>', subject: 'Re: Budget' }, 'fallback'
+    );
+
+    expect(isReply).toBe(true);
+    expect(thread.id).toBe(root.id);
+    expect(thread.messageCount).toBe(1);
+  });
+
+  test('converges replies whose original was never archived on the oldest reference', async () => {
+    const first = await assignThread(
+      userId, 'drive-1', { messageId: '<reply-2@x>', references: ['<root@x>', '<reply-1@x>'], subject: 'Re: Budget' }, 'fallback'
+    );
+    const second = await assignThread(
+      userId, 'drive-1', { messageId: '<reply-1@x>', inReplyTo: '<root@x>', subject: 'Re: Budget' }, 'fallback'
+    );
+
+    expect(first.thread.rootMessageId).toBe('<root@x>');
+    expect(second.thread.id).toBe(first.thread.id);
+  });
+
+  test('keeps threads apart per drive', async () => {
+    const { thread: root } = await assignThread(userId, 'drive-1', { messageId: '<root@x>' }, 'fallback');
+    await archived('<root@x>', root.id);
+
+    const { thread } = await assignThread(userId, 'drive-2', { messageId: '<reply@x>', inReplyTo: '<root@x>' }, 'fallback');
+
+    expect(thread.id).not.toBe(root.id);
+    expect(thread.driveId).toBe('drive-2');
+  });
+
+  test('roots a message without a Message-ID at the fallback ID', async () => {
+    const { thread } = await assignThread(userId, 'drive-1', { subject: 'Note' }, 'processed-email-id');
+
+    expect(thread.rootMessageId).toBe('processed-email-id');
+  });
+});
+
+describe('recordThreadMessage', () => {
+  test('counts the message and links it to the thread', async () => {
+    const { thread } = await assignThread(userId, 'drive-1', { messageId: '<root@x>' }, 'fallback');
+    const processedEmailId = await archived('<root@x>', thread.id);
+    await setThreadFolder(thread.id, 'folder-entity');
+
+    const db = await getDb();
+    const [row] = await db.select().from(emailThreads).where(eq(emailThreads.id, thread.id));
+    const [email] = await db.select().from(processedEmails).where(eq(processedEmails.id, processedEmailId));
+    expect(row).toMatchObject({ messageCount: 1, folderEntityId: 'folder-entity' });
+    expect(row!.lastMessageAt).toBeInstanceOf(Date);
+    expect(email!.threadId).toBe(thread.id);
+  });
+});
@@ -0,0 +1,142 @@
+import { eq, and, inArray, isNotNull, sql } from 'drizzle-orm';
+import { type ParsedMail } from 'mailparser';
+import { getDb } from '../database/db';
+import { emailThreads, processedEmails, type EmailThread } from '../database/schema';
+import { createLogger } from '../config/logger';
+
+const logger = createLogger('thread-service');
+
+export interface ThreadAssignment {
+  thread: EmailThread;
+  isReply: boolean; // Message references an earlier message
+}
+
+/**
+ * Message-IDs this email refers to, oldest first (References, then In-Reply-To)
+ */
+export function getRelatedMessageIds(email: Pick<ParsedMail, 'references' | 'inReplyTo'>): string[] {
+  const references = Array.isArray(email.references)
+    ? email.references
+    : (email.references ? email.references.split(/\s+/) : []);
+
+  const ids = [...references, ...(email.inReplyTo ? email.inReplyTo.split(/\s+/) : [])]
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  return [...new Set(ids)];
+}
+
+/**
+ * Strip reply/forward prefixes: "Re: Fwd: Budget" -> "Budget"
+ */
+export function normalizeThreadSubject(subject: string | undefined): string | null {
+  if (!subject) return null;
+  const normalized = subject.replace(/^\s*((re|fw|fwd|aw|sv|wg)\s*(\[\d+\])?\s*:\s*)+/i, '').trim();
+  return normalized || null;
+}
+
+/**
+ * Find the thread an email belongs to (per user and drive), or start a new one
+ * Lookup: threads of previously archived messages it references, then threads rooted at a referenced ID
+ */
+export async function assignThread(
+  userId: string,
+  driveId: string,
+  email: Pick<ParsedMail, 'references' | 'inReplyTo' | 'messageId' | 'subject' | 'date'>,
+  fallbackMessageId: string
+): Promise<ThreadAssignment> {
+  const db = await getDb();
+  const relatedIds = getRelatedMessageIds(email);
+  const isReply = relatedIds.length > 0;
+
+  let thread: EmailThread | undefined;
+
+  if (isReply) {
+    // Thread of an archived message this one replies to
+    const [match] = await db.select({ thread: emailThreads })
+      .from(processedEmails)
+      .innerJoin(emailThreads, eq(processedEmails.threadId, emailThreads.id))
+      .where(and(
+        inArray(processedEmails.messageId, relatedIds),
+        isNotNull(processedEmails.threadId),
+        eq(emailThreads.userId, userId),
+        eq(emailThreads.driveId, driveId)
+      ))
+      .limit(1);
+
+    thread = match?.thread;
+
+    // Earlier replies may have started the thread without the original being archived
+    if (!thread) {
+      thread = await (db.query as any).emailThreads?.findFirst({
+        where: and(
+          eq(emailThreads.userId, userId),
+          eq(emailThreads.driveId, driveId),
+          inArray(emailThreads.rootMessageId, relatedIds)
+        ),
+      });
+    }
+  }
+
+  if (!thread) {
+    // Root is the oldest referenced message, so replies archived out of order still converge
+    const rootMessageId = relatedIds[0] || email.messageId || fallbackMessageId;
+
+    const [created] = await db.insert(emailThreads)
+      .values({
+        userId,
+        driveId,
+        rootMessageId,
+        subject: normalizeThreadSubject(email.subject),
+      })
+      .onConflictDoUpdate({
+        target: [emailThreads.userId, emailThreads.driveId, emailThreads.rootMessageId],
+        set: { updatedAt: new Date() },
+      })
+      .returning();
+
+    thread = created;
+    logger.info({ threadId: thread?.id, rootMessageId }, 'Started email thread');
+  }
+
+  if (!thread) {
+    throw new Error('Failed to assign email thread');
+  }
+
+  return { thread, isReply };
+}
+
+/**
+ * Record a message as archived in a thread
+ */
+export async function recordThreadMessage(
+  threadId: string,
+  processedEmailId: string,
+  messageDate: Date
+): Promise<void> {
+  const db = await getDb();
+
+  await db.update(emailThreads)
+    .set({
+      messageCount: sql`${emailThreads.messageCount} + 1`,
+      lastMessageAt: messageDate,
+      updatedAt: new Date(),
+    })
+    .where(eq(emailThreads.id, threadId));
+
+  await db.update(processedEmails)
+    .set({ threadId })
+    .where(eq(processedEmails.id, processedEmailId));
+}
+
+/**
+ * Remember the ArDrive folder that holds a thread's replies
+ * Set once, by the first reply - later replies reuse it whatever month they arrive in
+ */
+export async function setThreadFolder(threadId: string, folderEntityId: string): Promise<void> {
+  const db = await getDb();
+
+  await db.update(emailThreads)
+    .set({ folderEntityId, updatedAt: new Date() })
+    .where(eq(emailThreads.id, threadId));
+}
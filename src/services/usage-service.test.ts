@@ -0,0 +1,68 @@
+import { describe, test, expect, afterEach, spyOn } from 'bun:test';
+import { TurboFactory } from '@ardrive/turbo-sdk';
+import { config } from '../config/env';
+import { getDb } from '../database/db';
+import { users } from '../database/schema';
+import { createCostPlusStrategy, setPricingStrategy, setWincQuote } from './pricing';
+import { recordUpload } from './usage-service';
+
+async function createUser(): Promise<string> {
+  const db = await getDb();
+  const [user] = await db.insert(users).values({ email: `usage-${crypto.randomUUID()}@example.com` }).returning();
+  return user!.id;
+}
+
+afterEach(() => {
+  setPricingStrategy(null);
+  setWincQuote(null);
+  Object.assign(config, { FREE_EMAILS_PER_MONTH: 10 });
+});
+
+describe('recordUpload', () => {
+  test('charges COST_PER_EMAIL when the Turbo quote endpoint is down and no rate is cached', async () => {
+    const unauthenticated = spyOn(TurboFactory, 'unauthenticated').mockReturnValue({
+      getFiatRates: async () => {
+        throw new Error('getaddrinfo ENOTFOUND payment.ardrive.io');
+      },
+    } as unknown as ReturnType<typeof TurboFactory.unauthenticated>);
+    setWincQuote(null);
+    setPricingStrategy(createCostPlusStrategy(200));
+    Object.assign(config, { FREE_EMAILS_PER_MONTH: 0 });
+
+    try {
+      const { cost, usage } = await recordUpload(await createUser(), 2048);
+
+      expect(unauthenticated).toHaveBeenCalled();
+      expect(cost).toBe(config.COST_PER_EMAIL);
+      expect(usage).toMatchObject({ uploadsCount: 1, bytesUploaded: 2048, costUsd: config.COST_PER_EMAIL });
+    } finally {
+      unauthenticated.mockRestore();
+    }
+  });
+
+  test('uses a stale quote when Turbo is down', async () => {
+    const unauthenticated = spyOn(TurboFactory, 'unauthenticated').mockReturnValue({
+      getFiatRates: async () => {
+        throw new Error('Turbo unavailable');
+      },
+    } as unknown as ReturnType<typeof TurboFactory.unauthenticated>);
+    // 1 GiB costs 10^12 winc = $1
+    setWincQuote({ wincPerGib: 1e12, usdPerWinc: 1e-12, fetchedAt: new Date(0) });
+    setPricingStrategy(createCostPlusStrategy(100));
+    Object.assign(config, { FREE_EMAILS_PER_MONTH: 0 });
+
+    try {
+      const { cost } = await recordUpload(await createUser(), 1024 * 1024 * 1024);
+
+      expect(cost).toBe(2); // $1 storage plus 100%
+    } finally {
+      unauthenticated.mockRestore();
+    }
+  });
+
+  test('does not price free emails', async () => {
+    const { cost } = await recordUpload(await createUser(), 2048);
+
+    expect(cost).toBe(0);
+  });
+});
@@ -1,8 +1,10 @@
 import { eq, and, gte, lte } from 'drizzle-orm';
 import { getDb } from '../database/db';
-import { usage, type Usage } from '../database/schema';
+import { usage, users, type Usage } from '../database/schema';
 import { createLogger } from '../config/logger';
 import { config } from '../config/env';
+import { getPlanPolicy, evaluatePolicy, type LimitReason, type PlanPolicy } from './plan-policy';
+import { getPricingStrategy } from './pricing';
 
 const logger = createLogger('usage-service');
 
@@ -54,37 +56,57 @@ export async function getCurrentUsage(userId: string): Promise<Usage> {
 }
 
 /**
- * Check if user can upload (hasn't exceeded limits)
- * Returns { allowed: boolean, reason?: string, usage: Usage }
+ * Start of the next billing period (when deferred uploads are retried)
  */
-export async function canUserUpload(userId: string): Promise<{
+export function getNextBillingPeriodStart(): Date {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth() + 1, 1, 0, 0, 0, 0);
+}
+
+/**
+ * Check if user can upload (hasn't exceeded limits of their plan)
+ * Returns { allowed: boolean, reason?: string, limit?: LimitReason, usage: Usage }
+ */
+export async function canUserUpload(userId: string, messageBytes: number = 0): Promise<{
   allowed: boolean;
   reason?: string;
+  limit?: LimitReason;
+  policy: PlanPolicy;
   usage: Usage;
 }> {
+  const db = await getDb();
   const usageRecord = await getCurrentUsage(userId);
 
-  const freeEmails = config.FREE_EMAILS_PER_MONTH;
+  const user = await (db.query as any).users?.findFirst({
+    where: eq(users.id, userId),
+  });
+  if (!user) {
+    throw new Error(`User ${userId} not found`);
+  }
+
+  const policy = getPlanPolicy(user.plan);
+  const limit = evaluatePolicy(policy, user, usageRecord, messageBytes);
 
-  // Check if user has exceeded free tier
-  if (usageRecord.uploadsCount >= freeEmails) {
-    // For paid plan, allow unlimited (or check Stripe subscription status)
-    // For now, just allow since we'll bill them
+  if (limit) {
+    logger.info({ userId, plan: policy.plan, code: limit.code, action: limit.action }, 'Upload limit reached');
     return {
-      allowed: true,
+      allowed: false,
+      reason: limit.message,
+      limit,
+      policy,
       usage: usageRecord,
     };
   }
 
-  // Within free tier
   return {
     allowed: true,
+    policy,
     usage: usageRecord,
   };
 }
 
 /**
- * Record an upload and calculate cost
+ * Record an upload and calculate cost (priced by the PRICING_MODEL strategy, COST_PER_EMAIL if pricing fails)
  */
 export async function recordUpload(
   userId: string,
@@ -101,8 +123,13 @@ export async function recordUpload(
   const freeEmails = config.FREE_EMAILS_PER_MONTH;
 
   if (newUploadsCount > freeEmails) {
-    // This upload is billable
-    additionalCost = config.COST_PER_EMAIL;
+    // This upload is billable - it's already stored, so a pricing failure must not fail (and re-run) the upload
+    try {
+      additionalCost = await getPricingStrategy().priceForBytes(fileSizeBytes);
+    } catch (error) {
+      additionalCost = config.COST_PER_EMAIL;
+      logger.warn({ error, userId, fileSizeBytes, priceUsd: additionalCost }, 'Pricing failed, charging COST_PER_EMAIL');
+    }
   }
 
   const newCostUsd = usageRecord.costUsd + additionalCost;
@@ -123,6 +150,7 @@ export async function recordUpload(
     uploadsCount: newUploadsCount,
     costUsd: newCostUsd,
     fileSizeBytes,
+    priceUsd: additionalCost,
   }, 'Recorded upload');
 
   return {
@@ -1,9 +1,10 @@
 import { eq, and } from 'drizzle-orm';
 import { getDb } from '../database/db';
-import { users, userDrives, type User, type UserDrive } from '../database/schema';
+import { users, userDrives, type User, type UserDrive, type NotificationPreference } from '../database/schema';
 import { createLogger } from '../config/logger';
 import { hashEmail, encrypt, decrypt, generateDrivePassword } from '../utils/crypto';
 import { config } from '../config/env';
+import { resolveLocale, DEFAULT_LOCALE, type Locale } from './i18n';
 
 const logger = createLogger('user-service');
 
@@ -43,8 +44,13 @@ export function isAllowedEmail(email: string): boolean {
 /**
  * Get or create user by email
  * Returns user with drive info of specified type if exists
+ * detectedLocale (from the email's language headers) is stored if the user has no locale yet
  */
-export async function getOrCreateUser(email: string, driveType: 'private' | 'public' = 'private'): Promise<UserWithDrive> {
+export async function getOrCreateUser(
+  email: string,
+  driveType: 'private' | 'public' = 'private',
+  detectedLocale: Locale | null = null
+): Promise<UserWithDrive> {
   const db = await getDb();
   const emailLower = email.toLowerCase();
 
@@ -68,9 +74,13 @@ export async function getOrCreateUser(email: string, driveType: 'private' | 'pub
       emailVerified: true, // Auto-verify since they're on allowlist
       allowed: true,
       plan: 'free',
+      locale: detectedLocale,
     }).returning();
 
     user = newUser;
+  } else if (!user.locale && detectedLocale) {
+    await setUserLocale(user.id, detectedLocale);
+    user = { ...user, locale: detectedLocale };
   }
 
   // Get user's drive of specified type
@@ -196,6 +206,82 @@ export async function updateUserPlan(userId: string, plan: 'free' | 'paid', stri
   logger.info({ userId, plan }, 'Updated user plan');
 }
 
+/**
+ * Opt user in/out of custom Arweave tags on public uploads
+ */
+export async function setArweaveTagsOptOut(userId: string, optOut: boolean): Promise<void> {
+  const db = await getDb();
+
+  await db.update(users)
+    .set({
+      arweaveTagsOptOut: optOut,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, userId));
+
+  logger.info({ userId, optOut }, 'Updated Arweave tags opt-out');
+}
+
+/**
+ * Enable or disable a user's account (disabled users' emails are refused by the plan policy)
+ */
+export async function setUserAllowed(userId: string, allowed: boolean): Promise<void> {
+  const db = await getDb();
+
+  await db.update(users)
+    .set({
+      allowed,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, userId));
+
+  logger.info({ userId, allowed }, 'Updated user access');
+}
+
+/**
+ * Set how the user is notified about archived emails (NOTIFY command)
+ * Switching to a digest starts its window now, so earlier emails aren't repeated
+ */
+export async function setNotificationPreference(userId: string, preference: NotificationPreference): Promise<void> {
+  const db = await getDb();
+
+  await db.update(users)
+    .set({
+      notificationPreference: preference,
+      lastDigestSentAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, userId));
+
+  logger.info({ userId, preference }, 'Updated notification preference');
+}
+
+/**
+ * Set the language of a user's notifications
+ */
+export async function setUserLocale(userId: string, locale: Locale): Promise<void> {
+  const db = await getDb();
+
+  await db.update(users)
+    .set({ locale, updatedAt: new Date() })
+    .where(eq(users.id, userId));
+
+  logger.info({ userId, locale }, 'Updated notification language');
+}
+
+/**
+ * Language for notifications to an address (English for unknown users or no locale)
+ */
+export async function getUserLocale(email: string): Promise<Locale> {
+  const db = await getDb();
+
+  const user: User | undefined = await (db.query as any).users?.findFirst({
+    where: eq(users.email, email.toLowerCase()),
+  });
+
+  return resolveLocale(user?.locale) ?? DEFAULT_LOCALE;
+}
+
 /**
  * Mark welcome email as sent for user's drive
  */
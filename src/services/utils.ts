@@ -42,7 +42,16 @@ export async function writeAttachment(
     return values.map((a) => `${a.name ? `${a.name} <${a.address}>` : a.address}`).join(', ');
   }
 
-  
+
+  export function escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
   // Sleep function that returns a promise which resolves after the given milliseconds.
   export function sleep(ms) {
   return new Promise(resolve => setTimeout(resolve, ms));
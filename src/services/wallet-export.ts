@@ -0,0 +1,168 @@
+import { eq, and, gte, desc, count } from 'drizzle-orm';
+import { getDb } from '../database/db';
+import { walletExports, type User, type WalletExport } from '../database/schema';
+import { createLogger } from '../config/logger';
+import { config } from '../config/env';
+import {
+  encrypt,
+  decrypt,
+  encryptWithPassphrase,
+  generateConfirmationCode,
+  hashConfirmationCode,
+  type PassphraseEncrypted,
+} from '../utils/crypto';
+import { getUserWallet, getUserSeedPhrase } from './wallet-service';
+
+const logger = createLogger('wallet-export');
+
+const MAX_CONFIRM_ATTEMPTS = 5; // Wrong codes before a request is locked
+const MIN_PASSPHRASE_LENGTH = 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type WalletExportKind = WalletExport['kind'];
+
+export type WalletExportRequestResult =
+  | { status: 'created'; code: string; expiresAt: Date }
+  | { status: 'unavailable' } // Single wallet mode
+  | { status: 'no_wallet' }
+  | { status: 'weak_passphrase' }
+  | { status: 'rate_limited'; limit: number };
+
+export type WalletExportConfirmResult =
+  | { status: 'delivered'; kind: 'seed_phrase'; address: string; seedPhrase: string }
+  | { status: 'delivered'; kind: 'keyfile'; address: string; keyfile: PassphraseEncrypted }
+  | { status: 'invalid' } // No pending request matches (wrong, expired or already used code)
+  | { status: 'locked' }; // Too many wrong codes
+
+/**
+ * Structured audit line for every export state change
+ */
+function audit(event: string, fields: Record<string, unknown>): void {
+  logger.info({ audit: true, event, ...fields }, `Wallet export ${event}`);
+}
+
+/**
+ * Start a wallet export: store a pending request and return the one-time code to email to the user
+ * Rate-limited to WALLET_EXPORT_MAX_PER_DAY requests per user (rolling 24 hours)
+ */
+export async function requestWalletExport(
+  user: Pick<User, 'id'>,
+  kind: WalletExportKind,
+  passphrase?: string
+): Promise<WalletExportRequestResult> {
+  if (config.WALLET_MODE !== 'multi') {
+    return { status: 'unavailable' };
+  }
+
+  const wallet = await getUserWallet(user.id);
+  if (!wallet) {
+    return { status: 'no_wallet' };
+  }
+
+  if (kind === 'keyfile' && (!passphrase || passphrase.length < MIN_PASSPHRASE_LENGTH)) {
+    return { status: 'weak_passphrase' };
+  }
+
+  const db = await getDb();
+  const since = new Date(Date.now() - DAY_MS);
+
+  const [recent] = await db.select({ total: count() })
+    .from(walletExports)
+    .where(and(eq(walletExports.userId, user.id), gte(walletExports.createdAt, since)));
+
+  if (recent && recent.total >= config.WALLET_EXPORT_MAX_PER_DAY) {
+    audit('rate_limited', { userId: user.id, kind, requestsToday: recent.total });
+    return { status: 'rate_limited', limit: config.WALLET_EXPORT_MAX_PER_DAY };
+  }
+
+  // Only the newest request can be confirmed
+  await db.update(walletExports)
+    .set({ status: 'expired', passphraseEncrypted: null })
+    .where(and(eq(walletExports.userId, user.id), eq(walletExports.status, 'pending')));
+
+  const code = generateConfirmationCode();
+  const expiresAt = new Date(Date.now() + config.WALLET_EXPORT_CODE_TTL_MS);
+
+  const [request] = await db.insert(walletExports).values({
+    userId: user.id,
+    kind,
+    codeHash: hashConfirmationCode(code),
+    ...(kind === 'keyfile' && passphrase ? { passphraseEncrypted: encrypt(passphrase) } : {}),
+    expiresAt,
+  }).returning();
+
+  audit('requested', { userId: user.id, exportId: request?.id, kind, expiresAt });
+
+  return { status: 'created', code, expiresAt };
+}
+
+/**
+ * Confirm the user's pending export with its code and return the wallet secret to deliver
+ */
+export async function confirmWalletExport(
+  user: Pick<User, 'id'>,
+  code: string
+): Promise<WalletExportConfirmResult> {
+  const db = await getDb();
+
+  const pending: WalletExport | undefined = await (db.query as any).walletExports?.findFirst({
+    where: and(eq(walletExports.userId, user.id), eq(walletExports.status, 'pending')),
+    orderBy: [desc(walletExports.createdAt)],
+  });
+
+  if (!pending) {
+    audit('confirm_without_request', { userId: user.id });
+    return { status: 'invalid' };
+  }
+
+  if (pending.expiresAt.getTime() <= Date.now()) {
+    await db.update(walletExports)
+      .set({ status: 'expired', passphraseEncrypted: null })
+      .where(eq(walletExports.id, pending.id));
+    audit('expired', { userId: user.id, exportId: pending.id });
+    return { status: 'invalid' };
+  }
+
+  if (hashConfirmationCode(code) !== pending.codeHash) {
+    const failedAttempts = pending.failedAttempts + 1;
+    const locked = failedAttempts >= MAX_CONFIRM_ATTEMPTS;
+
+    await db.update(walletExports)
+      .set({
+        failedAttempts,
+        ...(locked ? { status: 'locked' as const, passphraseEncrypted: null } : {}),
+      })
+      .where(eq(walletExports.id, pending.id));
+
+    audit(locked ? 'locked' : 'wrong_code', { userId: user.id, exportId: pending.id, failedAttempts });
+    return locked ? { status: 'locked' } : { status: 'invalid' };
+  }
+
+  const wallet = await getUserWallet(user.id);
+  if (!wallet) {
+    throw new Error(`Wallet for user ${user.id} disappeared during export`);
+  }
+
+  let result: WalletExportConfirmResult;
+  if (pending.kind === 'seed_phrase') {
+    const seedPhrase = await getUserSeedPhrase(user.id);
+    if (!seedPhrase) {
+      throw new Error(`No seed phrase stored for user ${user.id}`);
+    }
+    result = { status: 'delivered', kind: 'seed_phrase', address: wallet.address, seedPhrase };
+  } else {
+    if (!pending.passphraseEncrypted) {
+      throw new Error(`Keyfile export ${pending.id} has no passphrase`);
+    }
+    const keyfile = encryptWithPassphrase(JSON.stringify(wallet.jwk), decrypt(pending.passphraseEncrypted));
+    result = { status: 'delivered', kind: 'keyfile', address: wallet.address, keyfile };
+  }
+
+  await db.update(walletExports)
+    .set({ status: 'delivered', passphraseEncrypted: null, deliveredAt: new Date() })
+    .where(eq(walletExports.id, pending.id));
+
+  audit('delivered', { userId: user.id, exportId: pending.id, kind: pending.kind, address: wallet.address });
+
+  return result;
+}
@@ -20,6 +20,7 @@ export interface FileToUpload {
   filepath: string;
   filename: string;
   contentType?: string;
+  dataGqlTags?: Record<string, string | string[]>; // Custom tags on the data transaction (public drives only)
 }
 
 export interface UploadResult {
@@ -347,7 +348,7 @@ export async function getDriveShareKey(
 export async function uploadFilesToFolder(
   driveId: string,
   folderId: string,
-  files: Array<{ filepath: string; filename: string; contentType?: string }>,
+  files: FileToUpload[],
   drivePassword?: string,
   userJwk?: object
 ): Promise<UploadResult[]> {
@@ -382,10 +383,16 @@ export async function uploadFilesToFolder(
   for (const file of files) {
     const resolvedPath = path.resolve(file.filepath);
 
+    // Custom tags are never added to private uploads - they'd be readable by anyone on GraphQL
+    const customMetaData = !isPrivate && file.dataGqlTags && Object.keys(file.dataGqlTags).length > 0
+      ? { dataGqlTags: file.dataGqlTags }
+      : undefined;
+
     // Pass content-type to wrapFileOrFolder for proper MIME type tagging
     const wrapped = await wrapFileOrFolder(
       resolvedPath,
-      file.contentType || 'application/octet-stream' // Default to octet-stream if not specified
+      file.contentType || 'application/octet-stream', // Default to octet-stream if not specified
+      customMetaData
     );
 
     const entity: ArDriveUploadStats = {
@@ -0,0 +1,214 @@
+/**
+ * Minimal in-process IMAP server for tests
+ * Speaks just enough IMAP4rev1 for ImapFlow: LOGIN, SELECT, UID SEARCH/FETCH/STORE, IDLE and LOGOUT
+ */
+
+import { createServer, type AddressInfo, type Server, type Socket } from 'net';
+
+export interface FakeMessage {
+  uid: number;
+  from: string;
+  subject: string;
+  messageId: string;
+  to?: string;
+}
+
+export interface FakeImapServerOptions {
+  idle?: boolean; // Advertise the IDLE capability (default true)
+  uidValidity?: number;
+}
+
+export class FakeImapServer {
+  readonly commands: string[] = []; // Received command names ("SELECT", "UID SEARCH", "IDLE", ...)
+  readonly messages: FakeMessage[] = [];
+  uidValidity: number;
+
+  private server: Server;
+  private sockets = new Set<Socket>();
+  private idling = new Map<Socket, string>(); // Socket -> tag of its running IDLE
+  private searchGate: Promise<void> | null = null;
+  private readonly capabilities: string;
+
+  constructor(options: FakeImapServerOptions = {}) {
+    this.uidValidity = options.uidValidity ?? 1;
+    this.capabilities = ['IMAP4rev1', 'UIDPLUS', ...(options.idle === false ? [] : ['IDLE'])].join(' ');
+    this.server = createServer((socket) => this.accept(socket));
+  }
+
+  async listen(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async close(): Promise<void> {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  count(command: string): number {
+    return this.commands.filter((name) => name === command).length;
+  }
+
+  isIdling(): boolean {
+    return this.idling.size > 0;
+  }
+
+  /**
+   * Deliver a message and send EXISTS to every client in IDLE
+   */
+  deliver(message: FakeMessage): void {
+    this.messages.push(message);
+    for (const socket of this.idling.keys()) {
+      socket.write(`* ${this.messages.length} EXISTS\r\n`);
+    }
+  }
+
+  /**
+   * Hold back SEARCH responses until the returned function is called
+   */
+  holdSearches(): () => void {
+    let release!: () => void;
+    this.searchGate = new Promise((resolve) => { release = resolve; });
+    return () => {
+      this.searchGate = null;
+      release();
+    };
+  }
+
+  private accept(socket: Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => {
+      this.sockets.delete(socket);
+      this.idling.delete(socket);
+    });
+    socket.on('error', () => socket.destroy());
+
+    let buffer = '';
+    let pending = Promise.resolve();
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf-8');
+      let newline: number;
+      while ((newline = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        // Handle commands one at a time, like a real server
+        pending = pending.then(() => this.handle(socket, line)).catch(() => { socket.destroy(); });
+      }
+    });
+
+    socket.write(`* OK [CAPABILITY ${this.capabilities}] Fake IMAP ready\r\n`);
+  }
+
+  private async handle(socket: Socket, line: string): Promise<void> {
+    const idleTag = this.idling.get(socket);
+    if (idleTag) {
+      if (line.trim().toUpperCase() === 'DONE') {
+        this.idling.delete(socket);
+        socket.write(`${idleTag} OK IDLE terminated\r\n`);
+      }
+      return;
+    }
+
+    const [tag = '*', rawCommand = '', ...args] = line.split(' ');
+    let command = rawCommand.toUpperCase();
+    if (command === 'UID') {
+      command = `UID ${(args.shift() ?? '').toUpperCase()}`;
+    }
+    this.commands.push(command);
+
+    switch (command) {
+      case 'CAPABILITY':
+        socket.write(`* CAPABILITY ${this.capabilities}\r\n${tag} OK CAPABILITY completed\r\n`);
+        break;
+
+      case 'LOGIN':
+        socket.write(`${tag} OK [CAPABILITY ${this.capabilities}] Logged in\r\n`);
+        break;
+
+      case 'LIST':
+        socket.write(`* LIST (\\HasNoChildren) "/" "INBOX"\r\n${tag} OK LIST completed\r\n`);
+        break;
+
+      case 'SELECT':
+      case 'EXAMINE':
+        socket.write([
+          '* FLAGS (\\Seen)',
+          `* ${this.messages.length} EXISTS`,
+          '* 0 RECENT',
+          `* OK [UIDVALIDITY ${this.uidValidity}] UIDs valid`,
+          `* OK [UIDNEXT ${this.uidNext()}] Predicted next UID`,
+          '* OK [PERMANENTFLAGS (\\Seen)] Limited',
+          `${tag} OK [READ-WRITE] SELECT completed`,
+        ].join('\r\n') + '\r\n');
+        break;
+
+      case 'IDLE':
+        this.idling.set(socket, tag);
+        socket.write('+ idling\r\n');
+        break;
+
+      case 'UID SEARCH':
+      case 'SEARCH': {
+        if (this.searchGate) {
+          await this.searchGate;
+        }
+        const uids = this.messages.map((message) => message.uid);
+        socket.write(`* SEARCH${uids.map((uid) => ` ${uid}`).join('')}\r\n${tag} OK SEARCH completed\r\n`);
+        break;
+      }
+
+      case 'UID FETCH': {
+        const uid = Number(args[0]);
+        const index = this.messages.findIndex((message) => message.uid === uid);
+        const message = this.messages[index];
+        if (message) {
+          socket.write(`* ${index + 1} FETCH (UID ${uid} ENVELOPE ${envelope(message)})\r\n`);
+        }
+        socket.write(`${tag} OK FETCH completed\r\n`);
+        break;
+      }
+
+      case 'LOGOUT':
+        socket.write(`* BYE Logging out\r\n${tag} OK LOGOUT completed\r\n`);
+        socket.end();
+        break;
+
+      default:
+        // NOOP, UID STORE, NAMESPACE, ... - accept without untagged data
+        socket.write(`${tag} OK ${command} completed\r\n`);
+    }
+  }
+
+  private uidNext(): number {
+    return Math.max(0, ...this.messages.map((message) => message.uid)) + 1;
+  }
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/(["\\])/g, '\\$1')}"`;
+}
+
+function address(email: string): string {
+  const [mailbox = '', host = ''] = email.split('@');
+  return `((NIL NIL ${quote(mailbox)} ${quote(host)}))`;
+}
+
+function envelope(message: FakeMessage): string {
+  const from = address(message.from);
+  return `(${quote(new Date().toUTCString())} ${quote(message.subject)} ${from} ${from} ${from} ${message.to ? address(message.to) : 'NIL'} NIL NIL NIL ${quote(message.messageId)})`;
+}
+
+/**
+ * Wait until a condition holds (polls every 10ms)
+ */
+export async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
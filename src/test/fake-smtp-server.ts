@@ -0,0 +1,153 @@
+/**
+ * Minimal in-process SMTP server for tests
+ * Speaks just enough ESMTP for nodemailer: EHLO, AUTH (any mechanism, any credentials), MAIL, RCPT, DATA, RSET and QUIT
+ */
+
+import { createServer, type AddressInfo, type Server, type Socket } from 'net';
+
+export interface FakeSmtpMessage {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+export class FakeSmtpServer {
+  readonly messages: FakeSmtpMessage[] = [];
+  readonly auths: string[] = []; // AUTH commands received ("PLAIN ...", "XOAUTH2 ...")
+
+  private server: Server;
+  private sockets = new Set<Socket>();
+  private rejections: number[] = []; // Reply codes for the next MAIL commands
+  private dataGate: Promise<void> | null = null;
+  private held = 0; // Messages waiting on the data gate
+
+  constructor() {
+    this.server = createServer((socket) => this.accept(socket));
+  }
+
+  async listen(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async close(): Promise<void> {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  connectionCount(): number {
+    return this.sockets.size;
+  }
+
+  /**
+   * Reject the next `count` messages at MAIL FROM (4xx is temporary, 5xx permanent)
+   */
+  rejectNext(count: number, code = 451): void {
+    this.rejections.push(...Array.from({ length: count }, () => code));
+  }
+
+  /**
+   * Messages received in full whose reply is held back by holdData()
+   */
+  heldCount(): number {
+    return this.held;
+  }
+
+  /**
+   * Hold back the reply to the end of DATA until the returned function is called
+   */
+  holdData(): () => void {
+    let release!: () => void;
+    this.dataGate = new Promise((resolve) => { release = resolve; });
+    return () => {
+      this.dataGate = null;
+      release();
+    };
+  }
+
+  private accept(socket: Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+
+    let buffer = '';
+    let pending = Promise.resolve();
+    let message: FakeSmtpMessage | null = null;
+    let data: string[] | null = null; // Lines of the message while in DATA
+
+    const handle = async (line: string): Promise<void> => {
+      if (data) {
+        if (line !== '.') {
+          data.push(line.startsWith('..') ? line.slice(1) : line);
+          return;
+        }
+        if (this.dataGate) {
+          this.held++;
+          await this.dataGate;
+          this.held--;
+        }
+        this.messages.push({ ...message!, data: data.join('\r\n') });
+        message = null;
+        data = null;
+        socket.write('250 OK queued\r\n');
+        return;
+      }
+
+      const command = line.split(' ')[0]!.toUpperCase();
+      switch (command) {
+        case 'EHLO':
+        case 'HELO':
+          socket.write('250-fake.smtp\r\n250-AUTH PLAIN LOGIN XOAUTH2\r\n250 8BITMIME\r\n');
+          break;
+        case 'AUTH':
+          this.auths.push(line.slice(5));
+          socket.write('235 Authenticated\r\n');
+          break;
+        case 'MAIL': {
+          const code = this.rejections.shift();
+          if (code) {
+            socket.write(`${code} ${code >= 500 ? 'Mailbox unavailable' : 'Try again later'}\r\n`);
+            break;
+          }
+          message = { from: line.slice(10).replace(/[<>]/g, '').split(' ')[0]!, to: [], data: '' };
+          socket.write('250 OK\r\n');
+          break;
+        }
+        case 'RCPT':
+          message?.to.push(line.slice(8).replace(/[<>]/g, '').split(' ')[0]!);
+          socket.write('250 OK\r\n');
+          break;
+        case 'DATA':
+          data = [];
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+          break;
+        case 'RSET':
+          message = null;
+          socket.write('250 OK\r\n');
+          break;
+        case 'QUIT':
+          socket.write('221 Bye\r\n');
+          socket.end();
+          break;
+        default:
+          // NOOP and anything else
+          socket.write('250 OK\r\n');
+      }
+    };
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf-8');
+      let newline: number;
+      while ((newline = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        // Handle commands one at a time, like a real server
+        pending = pending.then(() => handle(line)).catch(() => { socket.destroy(); });
+      }
+    });
+
+    socket.write('220 fake.smtp ESMTP ready\r\n');
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * In-memory Stripe client for tests (the parts billing and webhooks use)
+ * Idempotency keys are honoured until expireIdempotencyKeys() - Stripe forgets them after 24 hours
+ */
+
+import type Stripe from 'stripe';
+
+type Method = 'invoiceItems.create' | 'invoices.create' | 'invoices.finalizeInvoice';
+
+type PendingItemsBehavior = 'include' | 'exclude';
+
+interface FakeInvoiceItem {
+  id: string;
+  customer: string;
+  amount: number;
+  metadata: Record<string, string>;
+  invoice: string | null;
+}
+
+interface FakeInvoice {
+  id: string;
+  customer: string;
+  status: 'draft' | 'open';
+  autoAdvance: boolean;
+  metadata: Record<string, string>;
+  lines: string[]; // Invoice item IDs
+}
+
+let nextId = 1; // Shared by all instances - IDs end up in unique database columns
+
+export class FakeStripe {
+  readonly invoiceItemRecords: FakeInvoiceItem[] = [];
+  readonly invoiceRecords: FakeInvoice[] = [];
+  private idempotent = new Map<string, unknown>();
+  private failures = new Map<Method, Error>();
+
+  /**
+   * Make the next call of a method throw (invoices.create throws after creating the invoice, like a timed-out request)
+   */
+  failNext(method: Method, error: Error = new Error(`${method} failed`)): void {
+    this.failures.set(method, error);
+  }
+
+  expireIdempotencyKeys(): void {
+    this.idempotent.clear();
+  }
+
+  asClient(): Stripe {
+    return this as unknown as Stripe;
+  }
+
+  // Any signature other than "invalid" verifies; the body is the event JSON
+  webhooks = {
+    constructEventAsync: async (body: Buffer, signature: string) => {
+      if (signature === 'invalid') {
+        throw new Error('No signatures found matching the expected signature for payload');
+      }
+      return JSON.parse(body.toString('utf-8'));
+    },
+  };
+
+  customers = {
+    create: async (params: { email: string }) => ({ id: this.id('cus'), email: params.email }),
+  };
+
+  invoiceItems = {
+    // Without an invoice the item is pending (swept onto the next invoice that includes pending items)
+    create: async (params: { customer: string; amount: number; metadata: Record<string, string>; invoice?: string }, options?: { idempotencyKey?: string }) =>
+      this.idempotently(options?.idempotencyKey, () => {
+        this.throwIfFailing('invoiceItems.create');
+        const invoice = params.invoice ? this.invoice(params.invoice) : null;
+        if (invoice && invoice.status !== 'draft') {
+          throw new Error(`Invoice ${invoice.id} is already finalized`);
+        }
+        const item: FakeInvoiceItem = { id: this.id('ii'), customer: params.customer, amount: params.amount, metadata: params.metadata, invoice: invoice?.id ?? null };
+        invoice?.lines.push(item.id);
+        this.invoiceItemRecords.push(item);
+        return item;
+      }),
+
+    list: async (params: { customer: string; pending?: boolean; invoice?: string }) => ({
+      data: this.invoiceItemRecords.filter((item) => item.customer === params.customer
+        && (!params.pending || item.invoice === null)
+        && (!params.invoice || item.invoice === params.invoice)),
+    }),
+
+    del: async (id: string) => {
+      const index = this.invoiceItemRecords.findIndex((item) => item.id === id && item.invoice === null);
+      if (index < 0) {
+        throw new Error(`No such pending invoice item: ${id}`);
+      }
+      this.invoiceItemRecords.splice(index, 1);
+      return { id, deleted: true };
+    },
+  };
+
+  invoices = {
+    // Like Stripe, pending items are only swept onto the invoice with pending_invoice_items_behavior 'include'
+    create: async (
+      params: { customer: string; metadata: Record<string, string>; pending_invoice_items_behavior?: PendingItemsBehavior; auto_advance?: boolean },
+      options?: { idempotencyKey?: string }
+    ) =>
+      this.idempotently(options?.idempotencyKey, () => {
+        const pending = params.pending_invoice_items_behavior === 'include'
+          ? this.invoiceItemRecords.filter((item) => item.customer === params.customer && item.invoice === null)
+          : [];
+        const invoice: FakeInvoice = {
+          id: this.id('in'),
+          customer: params.customer,
+          status: 'draft',
+          autoAdvance: params.auto_advance ?? true,
+          metadata: params.metadata,
+          lines: pending.map((item) => item.id),
+        };
+        pending.forEach((item) => { item.invoice = invoice.id; });
+        this.invoiceRecords.push(invoice);
+        this.throwIfFailing('invoices.create'); // Fails after Stripe created it (e.g. a timeout)
+        return invoice;
+      }),
+
+    list: async (params: { customer: string }) => ({
+      data: this.invoiceRecords.filter((invoice) => invoice.customer === params.customer),
+    }),
+
+    retrieve: async (id: string) => this.invoice(id),
+
+    finalizeInvoice: async (id: string, params?: { auto_advance?: boolean }) => {
+      this.throwIfFailing('invoices.finalizeInvoice');
+      const invoice = this.invoice(id);
+      if (invoice.status !== 'draft') {
+        throw new Error(`Invoice ${id} is already finalized`);
+      }
+      invoice.status = 'open';
+      invoice.autoAdvance = params?.auto_advance ?? invoice.autoAdvance;
+      return invoice;
+    },
+  };
+
+  private invoice(id: string): FakeInvoice {
+    const invoice = this.invoiceRecords.find((candidate) => candidate.id === id);
+    if (!invoice) {
+      throw new Error(`No such invoice: ${id}`);
+    }
+    return invoice;
+  }
+
+  private id(prefix: string): string {
+    return `${prefix}_${nextId++}`;
+  }
+
+  private throwIfFailing(method: Method): void {
+    const error = this.failures.get(method);
+    if (error) {
+      this.failures.delete(method);
+      throw error;
+    }
+  }
+
+  private idempotently<T>(key: string | undefined, create: () => T): T {
+    if (key && this.idempotent.has(key)) {
+      return this.idempotent.get(key) as T;
+    }
+    const result = create();
+    if (key) {
+      this.idempotent.set(key, result);
+    }
+    return result;
+  }
+}
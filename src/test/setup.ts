@@ -0,0 +1,52 @@
+/**
+ * Test setup (preloaded by bun test, see bunfig.toml)
+ * Provides a valid configuration, a migrated in-memory database and mocked job queues,
+ * so no .env, Redis or data dir is needed
+ */
+
+import { mock } from 'bun:test';
+import { writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const jwkPath = join(tmpdir(), 'forward-test-wallet.json');
+writeFileSync(jwkPath, '{}');
+
+Object.assign(process.env, {
+  NODE_ENV: 'test',
+  LOG_LEVEL: 'fatal',
+  EMAIL_USER: 'bridge@example.com',
+  EMAIL_PASSWORD: 'test-password',
+  ARWEAVE_JWK_PATH: jwkPath,
+  DATABASE_URL: ':memory:',
+  ENCRYPTION_KEY: '0'.repeat(64),
+  API_KEY_SECRET: 'test-api-key-secret-at-least-32-characters',
+  FORWARD_ALLOWED_EMAILS: '*@example.com',
+  API_SPOOL_DIR: join(tmpdir(), `forward-test-spool-${process.pid}`),
+  FREE_EMAILS_PER_MONTH: '10',
+  COST_PER_EMAIL: '0.10',
+  PRICING_MODEL: 'flat',
+});
+
+// Bun loads .env before the preload - drop settings that would change what the tests see
+for (const key of ['IMAP_FOLDERS', 'EMAIL_ROUTES', 'TEMPLATE_DIR', 'OAUTH_CLIENT_ID', 'OAUTH_REFRESH_TOKEN', 'STRIPE_SECRET_KEY']) {
+  delete process.env[key];
+}
+
+// BullMQ connects to Redis on import - tests get mock functions instead (clear them in beforeEach)
+mock.module('../jobs/queue', () => ({
+  emailQueue: {},
+  notificationQueue: {},
+  queueEmail: mock(async () => {}),
+  queueApiEmail: mock(async () => {}),
+  deferEmail: mock(async () => {}),
+  retryFailedEmail: mock(async () => false),
+  discardFailedEmail: mock(async () => false),
+  queueNotification: mock(async () => {}),
+  closeQueue: mock(async () => {}),
+}));
+
+const { migrate } = await import('drizzle-orm/bun-sqlite/migrator');
+const { getDb } = await import('../database/db');
+
+migrate(await getDb(), { migrationsFolder: join(import.meta.dir, '../database/migrations') });
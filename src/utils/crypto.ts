@@ -1,4 +1,4 @@
-import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, randomInt, scryptSync } from 'crypto';
 import { config } from '../config/env';
 
 const ALGORITHM = 'aes-256-gcm';
@@ -48,6 +48,77 @@ export function decrypt(encryptedText: string): string {
   return decrypted;
 }
 
+/**
+ * Passphrase-encrypted payload (e.g. an exported wallet keyfile)
+ * Key: scrypt(passphrase, salt), cipher: AES-256-GCM - all binary fields base64-encoded
+ */
+export interface PassphraseEncrypted {
+  version: 1;
+  kdf: 'scrypt';
+  cipher: 'aes-256-gcm';
+  salt: string;
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
+/**
+ * Encrypt text with a user-chosen passphrase (independent of ENCRYPTION_KEY)
+ */
+export function encryptWithPassphrase(text: string, passphrase: string): PassphraseEncrypted {
+  const salt = randomBytes(16);
+  const iv = randomBytes(IV_LENGTH);
+  const key = scryptSync(passphrase, salt, 32);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+
+  const ciphertext = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+
+  return {
+    version: 1,
+    kdf: 'scrypt',
+    cipher: ALGORITHM,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt a payload from encryptWithPassphrase()
+ * Throws if the passphrase is wrong
+ */
+export function decryptWithPassphrase(payload: PassphraseEncrypted, passphrase: string): string {
+  const key = scryptSync(passphrase, Buffer.from(payload.salt, 'base64'), 32);
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(payload.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(payload.authTag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(payload.ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I lookalikes
+
+/**
+ * Generate a short one-time confirmation code (e.g. "K7QX2MPA")
+ */
+export function generateConfirmationCode(length: number = 8): string {
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Hash a confirmation code for storage (case-insensitive)
+ */
+export function hashConfirmationCode(code: string): string {
+  return createHash('sha256').update(code.toUpperCase()).digest('hex');
+}
+
 /**
  * Hash email for consistent user IDs
  */
@@ -63,8 +134,16 @@ export function generateDrivePassword(): string {
 }
 
 /**
- * Generate a secure random API key (for future use)
+ * Generate a secure random API key
  */
 export function generateApiKey(): string {
   return randomBytes(32).toString('base64url');
 }
+
+/**
+ * Hash an API key for storage and lookup (HMAC-SHA256 keyed with API_KEY_SECRET,
+ * so a leaked database alone can't be used to check guessed keys)
+ */
+export function hashApiKey(key: string): string {
+  return createHmac('sha256', config.API_KEY_SECRET).update(key).digest('hex');
+}